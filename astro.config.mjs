@@ -5,7 +5,10 @@ import sitemap from '@astrojs/sitemap';
 
 export default defineConfig({
   output: 'server',
-  adapter: vercel(),
+  adapter: vercel({
+    // Batch analyses and monitor runs budget their time against this limit
+    maxDuration: 60,
+  }),
   site: 'https://efffekt.no',
   build: {
     inlineStylesheets: 'always',
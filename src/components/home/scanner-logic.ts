@@ -1,16 +1,42 @@
 // Scanner logic - lazy loaded when scanner section becomes visible
 import { createListenerScope } from '../../utils/events';
 import { $id } from '../../utils/dom';
-import { escapeHtml, sanitizeDataAttr } from '../../utils/sanitize';
+import { escapeHtml, sanitizeDataAttr, sanitizeUrl } from '../../utils/sanitize';
+import { readEventStream } from '../../utils/event-stream';
+import { generateQuickWins } from '../../utils/quick-wins';
+import { SCANNER_STRINGS, getScannerLocale } from './scanner-strings';
 import type {
+  AnalysisCategories,
+  AnalysisProgress,
   AnalysisResult,
+  AnalysisStreamEvent,
   AnalysisDetail,
   CategoryResult,
   CategoryKey,
+  ComparisonDifference,
+  ComparisonResponse,
+  CompetitorDifferences,
+  ConformanceSummary,
+  CookieInfo,
+  HistoryFinding,
+  MetricValue,
   QuickWin,
-  Severity,
+  ScanHistory,
+  ScoringInfo,
+  SecurityHeaderStatus,
+  ThirdPartyOrigin,
+} from '../../types/api';
+import {
+  LOCALIZED_CATEGORY_DESCRIPTIONS,
+  LOCALIZED_CATEGORY_LABELS,
+  isAnalysisResult,
+  validateAnalysisResult,
+  validateComparisonResponse,
+  validateScanHistory,
+  getBenchmarkNote,
+  getBenchmarkSource,
+  getScoreColorClass
 } from '../../types/api';
-import { validateAnalysisResult, getScoreColorClass } from '../../types/api';
 
 // Inline SVG icons (eliminates FontAwesome CDN dependency)
 const svgIcons: Record<string, string> = {
@@ -39,6 +65,7 @@ const svgIcons: Record<string, string> = {
   'clipboard-list': '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M16 4h2a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2V6a2 2 0 0 1 2-2h2"/><rect x="8" y="2" width="8" height="4" rx="1"/><path d="M9 14h.01"/><path d="M13 14h2"/><path d="M9 18h.01"/><path d="M13 18h2"/></svg>',
   'gift': '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="20 12 20 22 4 22 4 12"/><rect x="2" y="7" width="20" height="5"/><line x1="12" y1="22" x2="12" y2="7"/><path d="M12 7H7.5a2.5 2.5 0 0 1 0-5C11 2 12 7 12 7z"/><path d="M12 7h4.5a2.5 2.5 0 0 0 0-5C13 2 12 7 12 7z"/></svg>',
   'file-alt': '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/><polyline points="14 2 14 8 20 8"/><line x1="16" y1="13" x2="8" y2="13"/><line x1="16" y1="17" x2="8" y2="17"/><polyline points="10 9 9 9 8 9"/></svg>',
+  'file-pdf': '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/><polyline points="14 2 14 8 20 8"/><path d="M9 15v-2h2a1 1 0 1 1 0 2H9z"/></svg>',
   'ban': '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="12" cy="12" r="10"/><line x1="4.93" y1="4.93" x2="19.07" y2="19.07"/></svg>',
   'calendar-check': '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="3" y="4" width="18" height="18" rx="2"/><line x1="16" y1="2" x2="16" y2="6"/><line x1="8" y1="2" x2="8" y2="6"/><line x1="3" y1="10" x2="21" y2="10"/><path d="M9 16l2 2 4-4"/></svg>'
 };
@@ -47,56 +74,59 @@ function icon(name: string): string {
   return svgIcons[name] ?? svgIcons.check;
 }
 
-// Category labels and descriptions
-const categoryLabels: Record<CategoryKey, string> = {
-  performance: 'Hastighet',
-  seo: 'SEO',
-  security: 'Sikkerhet',
-  mobile: 'Mobilvennlig',
-  accessibility: 'Tilgjengelighet'
-};
+// The page language decides the scanner texts and the language the API answers in
+const locale = getScannerLocale(document.documentElement.lang);
+const t = SCANNER_STRINGS[locale];
 
-const categoryDescs: Record<CategoryKey, string> = {
-  performance: 'Hvor raskt siden laster',
-  seo: 'Synlighet i Google-søk',
-  security: 'Beskyttelse mot angrep',
-  mobile: 'Fungerer på telefon/nettbrett',
-  accessibility: 'Brukervennlig for alle'
-};
+// Category labels and descriptions
+const categoryLabels = LOCALIZED_CATEGORY_LABELS[locale];
+const categoryDescs = LOCALIZED_CATEGORY_DESCRIPTIONS[locale];
 
 // Scanner functionality
-const analysisSteps = [
-  { iconName: 'server', text: 'Kobler til server...' },
-  { iconName: 'tachometer-alt', text: 'Analyserer hastighet...' },
-  { iconName: 'search', text: 'Sjekker SEO-elementer...' },
-  { iconName: 'shield-alt', text: 'Evaluerer sikkerhet...' },
-  { iconName: 'mobile-alt', text: 'Tester mobilvennlighet...' },
-  { iconName: 'universal-access', text: 'Kontrollerer tilgjengelighet...' },
-  { iconName: 'chart-line', text: 'Beregner total score...' }
-];
+const analysisSteps = ['server', 'tachometer-alt', 'search', 'shield-alt', 'mobile-alt', 'universal-access', 'chart-line']
+  .map((iconName, i) => ({ iconName, text: t.steps[i] }));
+
+// Progress step each category's result completes
+const categorySteps: Record<CategoryKey, number> = {
+  performance: 1,
+  seo: 2,
+  security: 3,
+  mobile: 4,
+  accessibility: 5
+};
 
 // Store listener scope for tooltip cleanup
 let tooltipScope: ReturnType<typeof createListenerScope> | null = null;
 
-function showAnalysisProgress(resultsDiv: HTMLElement): ReturnType<typeof setInterval> {
+function renderAnalysisProgress(resultsDiv: HTMLElement): void {
   resultsDiv.style.display = 'block';
   resultsDiv.innerHTML = `
     <div class="analysis-progress">
-      <h4>Analyserer nettsiden din...</h4>
+      <h4>${escapeHtml(t.analyzing)}</h4>
       <div class="progress-steps">
         ${analysisSteps.map((step, i) => `
           <div class="progress-step" data-step="${i}">
             ${icon(step.iconName)}
             <span>${escapeHtml(step.text)}</span>
+            <span class="step-score"></span>
             <span class="step-check">${icon('check')}</span>
           </div>
         `).join('')}
       </div>
+      <p class="progress-status" aria-live="polite"></p>
       <div class="progress-bar-container">
         <div class="progress-bar-fill"></div>
       </div>
+      <button type="button" class="progress-cancel" data-action="cancel-analysis">
+        ${icon('times')} ${escapeHtml(t.cancel)}
+      </button>
     </div>
   `;
+}
+
+// Timed animation for comparisons, which are not streamed
+function showAnalysisProgress(resultsDiv: HTMLElement): ReturnType<typeof setInterval> {
+  renderAnalysisProgress(resultsDiv);
 
   // Animate steps
   let currentStep = 0;
@@ -133,11 +163,83 @@ function showAnalysisProgress(resultsDiv: HTMLElement): ReturnType<typeof setInt
   return stepInterval;
 }
 
+// Mark steps before `step` complete and `step` itself active
+function setProgressStep(resultsDiv: HTMLElement, step: number): void {
+  const stepElements = resultsDiv.querySelectorAll('.progress-step');
+  stepElements.forEach((el, i) => {
+    el.classList.toggle('complete', i < step);
+    el.classList.toggle('active', i === step);
+  });
+
+  const progressBar = resultsDiv.querySelector<HTMLElement>('.progress-bar-fill');
+  if (progressBar) {
+    progressBar.style.width = `${String(Math.min(100, (step / stepElements.length) * 100))}%`;
+  }
+}
+
+// Show a phase the server has finished; category steps follow the connection step
+function showProgress(resultsDiv: HTMLElement, event: AnalysisProgress): void {
+  const status = resultsDiv.querySelector('.progress-status');
+
+  switch (event.type) {
+    case 'fetch':
+      setProgressStep(resultsDiv, 1);
+      break;
+    case 'resources':
+      if (status) status.textContent = t.resourcesFound(event.scripts, event.stylesheets, event.images);
+      break;
+    case 'category': {
+      const step = categorySteps[event.category];
+      const score = resultsDiv.querySelector(`.progress-step[data-step="${String(step)}"] .step-score`);
+      if (score) {
+        score.textContent = String(event.result.score);
+        score.className = `step-score ${event.result.status}`;
+      }
+      setProgressStep(resultsDiv, step + 1);
+      break;
+    }
+    case 'page':
+      if (status) status.textContent = t.crawlProgress(event.done, event.total);
+      break;
+  }
+}
+
 // Type for error response from API
 interface ErrorResponse {
   error?: string;
 }
 
+/**
+ * Analyze one site through the streaming endpoint, showing each phase as it finishes
+ * @throws Error with a message for the user when the analysis fails
+ * @throws The abort reason of the signal when the analysis is cancelled
+ */
+async function streamAnalysis(endpoint: string, resultsDiv: HTMLElement, signal: AbortSignal): Promise<AnalysisResult> {
+  const response = await fetch(endpoint, { signal });
+
+  if (!response.ok) {
+    const errorData: ErrorResponse = await response.json().catch(() => ({})) as ErrorResponse;
+    throw new Error(errorData.error ?? t.serverError(response.status));
+  }
+
+  const outcome: { result?: AnalysisResult; error?: string } = {};
+
+  await readEventStream(response, (_name, data) => {
+    const event = data as AnalysisStreamEvent;
+    if (event.type === 'result') {
+      if (validateAnalysisResult(event.result)) outcome.result = event.result;
+    } else if (event.type === 'error') {
+      outcome.error = event.error;
+    } else {
+      showProgress(resultsDiv, event);
+    }
+  });
+
+  if (outcome.error !== undefined) throw new Error(outcome.error);
+  if (outcome.result === undefined) throw new Error(t.invalidResponse);
+  return outcome.result;
+}
+
 // Handle form submission
 async function handleScannerSubmit(form: HTMLFormElement): Promise<void> {
   const urlInput = $id('scannerUrl') as HTMLInputElement | null;
@@ -145,60 +247,73 @@ async function handleScannerSubmit(form: HTMLFormElement): Promise<void> {
 
   if (!urlInput || !resultsDiv) return;
 
-  let url = urlInput.value.trim();
-
-  // Auto-add https:// if missing
-  if (!url.startsWith('http://') && !url.startsWith('https://')) {
-    url = `https://${url}`;
-  }
+  const url = toAbsoluteUrl(urlInput.value);
+  const competitors = getCompetitorUrls();
+  const profile = ($id('scannerProfile') as HTMLSelectElement | null)?.value ?? 'standard';
+  const segment = ($id('scannerSegment') as HTMLSelectElement | null)?.value ?? 'general';
 
   form.classList.add('loading');
 
-  // Show progress animation
-  const progressInterval = showAnalysisProgress(resultsDiv);
-
-  try {
-    // Add timeout using AbortController
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => { controller.abort(); }, 30000);
-
-    const response = await fetch(`/api/analyze?url=${encodeURIComponent(url)}`, {
-      signal: controller.signal
-    });
+  // Comparisons get the timed animation, single sites report real progress
+  const progressInterval = competitors.length > 0
+    ? showAnalysisProgress(resultsDiv)
+    : (renderAnalysisProgress(resultsDiv), undefined);
+
+  // Cancelling, by the button or the timeout, closes the request and stops the server's work
+  // Comparisons analyze up to four sites and get more time
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => {
+    controller.abort(new DOMException('Analysis timed out', 'TimeoutError'));
+  }, competitors.length > 0 ? 45000 : 30000);
+  resultsDiv.querySelector('[data-action="cancel-analysis"]')?.addEventListener('click', () => {
+    controller.abort();
+  });
 
-    clearTimeout(timeoutId);
-    clearInterval(progressInterval);
+  const optionParams = `&profile=${encodeURIComponent(profile)}&segment=${encodeURIComponent(segment)}&lang=${locale}`;
 
-    // Check response status before parsing
-    if (!response.ok) {
-      const errorData: ErrorResponse = await response.json().catch(() => ({})) as ErrorResponse;
-      throw new Error(errorData.error ?? `Server-feil: ${String(response.status)}`);
-    }
+  try {
+    if (competitors.length > 0) {
+      const endpoint = `/api/analyze/compare?${[url, ...competitors].map(value => `url=${encodeURIComponent(value)}`).join('&')}`;
+      const response = await fetch(endpoint + optionParams, { signal: controller.signal });
+
+      // Check response status before parsing
+      if (!response.ok) {
+        const errorData: ErrorResponse = await response.json().catch(() => ({})) as ErrorResponse;
+        throw new Error(errorData.error ?? t.serverError(response.status));
+      }
 
-    const data: unknown = await response.json();
+      const data: unknown = await response.json();
+      if (!validateComparisonResponse(data)) {
+        throw new Error(t.invalidResponse);
+      }
 
-    // Validate response structure
-    if (!validateAnalysisResult(data)) {
-      throw new Error('Ugyldig svar fra server');
+      setTimeout(() => {
+        displayComparison(data);
+      }, 500);
+      return;
     }
 
-    if ('error' in data && typeof data.error === 'string') {
-      throw new Error(data.error);
-    }
+    const data = await streamAnalysis(
+      `/api/analyze/stream?url=${encodeURIComponent(url)}${optionParams}`,
+      resultsDiv,
+      controller.signal
+    );
+    setProgressStep(resultsDiv, analysisSteps.length);
 
     // Small delay to let progress complete visually
     setTimeout(() => {
       displayResults(data);
     }, 500);
   } catch (error: unknown) {
-    clearInterval(progressInterval);
     resultsDiv.style.display = 'block';
 
-    let errorMessage = 'Kunne ikke analysere nettsiden. Sjekk at URLen er korrekt og prøv igjen.';
+    let errorMessage = t.genericError;
 
     if (error instanceof Error) {
-      if (error.name === 'AbortError') {
-        errorMessage = 'Forespørselen tok for lang tid. Prøv igjen senere.';
+      if (error.name === 'TimeoutError') {
+        errorMessage = t.timeoutError;
+      } else if (error.name === 'AbortError') {
+        errorMessage = t.cancelled;
       } else {
         errorMessage = error.message;
       }
@@ -211,9 +326,26 @@ async function handleScannerSubmit(form: HTMLFormElement): Promise<void> {
       </div>
     `;
     form.classList.remove('loading');
+  } finally {
+    clearTimeout(timeoutId);
+    clearInterval(progressInterval);
   }
 }
 
+// Auto-add https:// if missing
+function toAbsoluteUrl(value: string): string {
+  const url = value.trim();
+  return url.startsWith('http://') || url.startsWith('https://') ? url : `https://${url}`;
+}
+
+// Competitor URLs from the comparison fields, empty when not comparing
+function getCompetitorUrls(): string[] {
+  return Array.from(document.querySelectorAll<HTMLInputElement>('.scanner-competitor'))
+    .map(input => input.value.trim())
+    .filter(Boolean)
+    .map(toAbsoluteUrl);
+}
+
 // Initialize scanner form
 export function initScanner(): void {
   const form = $id('scannerForm') as HTMLFormElement | null;
@@ -258,21 +390,36 @@ function displayResults(data: AnalysisResult): void {
     .map(([k]) => getCategoryLabel(k));
 
   const colorClass = getScoreColorClass(data.totalScore);
+  const benchmarkNote = getBenchmarkNote(data.segment, locale);
 
   resultsDiv.innerHTML = `
     <button class="scanner-close" data-action="close">
-      ${icon('times')} Lukk resultater
+      ${icon('times')} ${escapeHtml(t.close)}
     </button>
     <div class="score-overview">
       <div class="score-circle ${colorClass} animating">
         <span class="score-number">0</span>
       </div>
-      <p>Total score av 100</p>
+      <p>${escapeHtml(t.totalOutOf)}</p>
+      ${renderProfileNote(data.scoring)}
       <div class="score-summary">
-        ${criticalCount > 0 ? `<span class="issue-badge critical">${criticalCount} kritiske</span>` : ''}
-        ${warningCount > 0 ? `<span class="issue-badge warning">${warningCount} advarsler</span>` : ''}
-        ${successCount > 0 ? `<span class="issue-badge success">${successCount} godkjent</span>` : ''}
+        ${criticalCount > 0 ? `<span class="issue-badge critical">${escapeHtml(t.criticalCount(criticalCount))}</span>` : ''}
+        ${warningCount > 0 ? `<span class="issue-badge warning">${escapeHtml(t.warningCount(warningCount))}</span>` : ''}
+        ${successCount > 0 ? `<span class="issue-badge success">${escapeHtml(t.successCount(successCount))}</span>` : ''}
+      </div>
+      ${data.report ? `
+      <div class="report-links">
+        <a href="${escapeHtml(getReportUrl(data.report.url))}" class="report-link" target="_blank" rel="noopener">
+          ${icon('file-alt')} ${escapeHtml(t.openReport)}
+        </a>
+        <a href="${escapeHtml(getExportUrl(data.report.id, 'pdf'))}" class="report-link" download>
+          ${icon('file-pdf')} ${escapeHtml(t.downloadPdf)}
+        </a>
+        <a href="${escapeHtml(getExportUrl(data.report.id, 'html'))}" class="report-link" download>
+          ${icon('file-alt')} ${escapeHtml(t.downloadHtml)}
+        </a>
       </div>
+      ` : ''}
     </div>
 
     <div class="score-feedback ${colorClass}">
@@ -301,8 +448,8 @@ function displayResults(data: AnalysisResult): void {
 
     ${quickWins.length > 0 ? `
     <div class="quick-wins">
-      <h3>${icon('bolt')} Raskeste forbedringer</h3>
-      <p class="quick-wins-subtitle">Disse endringene gir størst effekt med minst innsats</p>
+      <h3>${icon('bolt')} ${escapeHtml(t.quickWinsTitle)}</h3>
+      <p class="quick-wins-subtitle">${escapeHtml(t.quickWinsSubtitle)}</p>
       <div class="quick-wins-list">
         ${quickWins.slice(0, 5).map((win: QuickWin) => `
           <div class="quick-win-item">
@@ -313,7 +460,8 @@ function displayResults(data: AnalysisResult): void {
               <p>${escapeHtml(win.message)}</p>
               <div class="quick-win-meta">
                 <span>${icon('clock')} ${escapeHtml(win.fixTime)}</span>
-                <span class="${win.impact === 'Høy' ? 'high-impact' : ''}">${icon('chart-line')} ${escapeHtml(win.impact)} effekt</span>
+                <span class="${win.impact === 'Høy' ? 'high-impact' : ''}">${icon('chart-line')} ${escapeHtml(t.impact(t.impactLabels[win.impact]))}${win.points > 0 ? ` ${escapeHtml(t.points(win.points))}` : ''}</span>
+                ${win.docsUrl ? `<a href="${sanitizeUrl(win.docsUrl)}" class="quick-win-docs" target="_blank" rel="noopener">${icon('arrow-right')} ${escapeHtml(t.howToFix)}</a>` : ''}
               </div>
             </div>
           </div>
@@ -324,19 +472,21 @@ function displayResults(data: AnalysisResult): void {
 
     ${data.benchmarks ? `
     <div class="benchmark-comparison">
-      <h4>${icon('chart-bar')} Sammenligning med norsk gjennomsnitt</h4>
+      <h4>${icon('chart-bar')} ${escapeHtml(t.benchmarkTitle(getBenchmarkSource(data.segment, locale)))}</h4>
+      ${benchmarkNote ? `<p class="benchmark-note">${escapeHtml(benchmarkNote)}</p>` : ''}
       <div class="benchmark-bars">
         ${(Object.entries(data.categories) as [CategoryKey, CategoryResult][]).map(([key, val]) => `
           <div class="benchmark-row">
             <span class="benchmark-label">${escapeHtml(getCategoryLabel(key))}</span>
             <div class="benchmark-bar-container">
               <div class="benchmark-bar yours" style="width: ${val.score}%">
-                <span>Du: ${val.score}</span>
+                <span>${escapeHtml(t.you(val.score))}</span>
               </div>
               <div class="benchmark-bar average" style="width: ${val.benchmark}%">
-                <span>Snitt: ${val.benchmark}</span>
+                <span>${escapeHtml(t.average(val.benchmark))}</span>
               </div>
             </div>
+            ${typeof val.percentile === 'number' ? `<span class="benchmark-percentile">${escapeHtml(t.betterThan(val.percentile))}</span>` : ''}
           </div>
         `).join('')}
       </div>
@@ -348,7 +498,7 @@ function displayResults(data: AnalysisResult): void {
       <div class="potential-visual">
         <div class="potential-score potential-current">
           <span class="score-value">${data.totalScore}</span>
-          <span class="score-label">Nå</span>
+          <span class="score-label">${escapeHtml(t.now)}</span>
         </div>
         <div class="potential-arrow">
           ${icon('arrow-right')}
@@ -356,40 +506,42 @@ function displayResults(data: AnalysisResult): void {
         </div>
         <div class="potential-score potential-target">
           <span class="score-value">${potentialScore}</span>
-          <span class="score-label">Potensial</span>
+          <span class="score-label">${escapeHtml(t.potential)}</span>
         </div>
       </div>
       <div class="potential-content">
-        <h4>Vi kan løfte scoren din med opptil ${potentialScore - data.totalScore} poeng</h4>
-        <p>Basert på analysen kan vi forbedre ${weakAreas.length > 0 ? weakAreas.join(', ').toLowerCase() : 'flere områder'} som direkte påvirker synlighet og konvertering.</p>
-        <a href="#kontakt" class="btn btn-primary">Få gratis forbedringsplan</a>
+        <h4>${escapeHtml(t.potentialTitle(potentialScore - data.totalScore))}</h4>
+        <p>${escapeHtml(t.potentialBody(weakAreas.length > 0 ? weakAreas.join(', ').toLowerCase() : t.severalAreas))}</p>
+        <a href="#kontakt" class="btn btn-primary">${escapeHtml(t.potentialCta)}</a>
       </div>
     </div>
     ` : ''}
 
+    <div class="scanner-history" id="scannerHistory" hidden></div>
+
     <div class="scanner-filters">
       <button class="filter-btn active" data-action="filter-severity" data-filter="all">
-        ${icon('list')} Vis alle
+        ${icon('list')} ${escapeHtml(t.showAll)}
       </button>
       ${criticalCount > 0 ? `
       <button class="filter-btn filter-critical" data-action="filter-severity" data-filter="critical">
-        ${icon('times-circle')} Kun kritiske (${criticalCount})
+        ${icon('times-circle')} ${escapeHtml(t.onlyCritical(criticalCount))}
       </button>
       ` : ''}
       ${warningCount > 0 ? `
       <button class="filter-btn filter-warning" data-action="filter-severity" data-filter="warning">
-        ${icon('exclamation-triangle')} Kun advarsler (${warningCount})
+        ${icon('exclamation-triangle')} ${escapeHtml(t.onlyWarnings(warningCount))}
       </button>
       ` : ''}
       ${successCount > 0 ? `
       <button class="filter-btn filter-success" data-action="filter-severity" data-filter="success">
-        ${icon('check-circle')} Kun godkjent (${successCount})
+        ${icon('check-circle')} ${escapeHtml(t.onlySuccess(successCount))}
       </button>
       ` : ''}
     </div>
 
     <div class="scanner-details">
-      <h3>${icon('clipboard-list')} Detaljert analyse <span class="filter-label"></span></h3>
+      <h3>${icon('clipboard-list')} ${escapeHtml(t.detailsTitle)} <span class="filter-label"></span></h3>
       ${(Object.entries(data.categories) as [CategoryKey, CategoryResult][]).map(([key, val]) => `
         <div class="detail-section collapsible" data-category="${sanitizeDataAttr(key)}">
           <div class="detail-header" data-action="toggle-section">
@@ -402,47 +554,55 @@ function displayResults(data: AnalysisResult): void {
               <div class="detail-item ${detail.severity || detail.type || ''}" data-severity="${sanitizeDataAttr(detail.severity || detail.type || '')}">
                 <span class="detail-item-icon">${getDetailIcon(detail)}</span>
                 <span class="detail-item-text">${escapeHtml(detail.message)}</span>
-                ${getTooltip(detail.message) ? `
-                <button class="info-tooltip" type="button" aria-label="Mer informasjon">
+                ${detail.wcag ? `<span class="detail-wcag">${escapeHtml(detail.wcag.map(criterion => `WCAG ${criterion}`).join(', '))}</span>` : ''}
+                ${detail.explanation ? `
+                <button class="info-tooltip" type="button" aria-label="${escapeHtml(t.moreInfo)}">
                   ${icon('question-circle')}
                   <div class="tooltip-content">
-                    <strong>Hvorfor dette er viktig</strong>
-                    ${escapeHtml(getTooltip(detail.message) || '')}
+                    <strong>${escapeHtml(t.whyItMatters)}</strong>
+                    ${escapeHtml(detail.explanation)}
                   </div>
                 </button>
                 ` : ''}
+                ${detail.docsUrl && detail.type !== 'success' ? `
+                <a href="${sanitizeUrl(detail.docsUrl)}" class="detail-docs" target="_blank" rel="noopener">${escapeHtml(t.readMore)}</a>
+                ` : ''}
               </div>
             `).join('')}
-            ${(val.details || []).length === 0 ? `<div class="detail-item info" data-severity="info"><span class="detail-item-icon">${icon('check')}</span><span class="detail-item-text">Ingen problemer funnet</span></div>` : ''}
+            ${(val.details || []).length === 0 ? `<div class="detail-item info" data-severity="info"><span class="detail-item-icon">${icon('check')}</span><span class="detail-item-text">${escapeHtml(t.noProblems)}</span></div>` : ''}
           </div>
         </div>
       `).join('')}
     </div>
 
+    ${data.conformance ? renderConformance(data.conformance) : ''}
+
+    ${renderTechnicalDetails(data.categories)}
+
     <div class="scanner-cta enhanced">
       <div class="cta-badge">
-        ${icon('gift')} Gratis tilbud
+        ${icon('gift')} ${escapeHtml(t.ctaBadge)}
       </div>
-      <h3>Få en personlig forbedringsplan</h3>
-      <p>Vi går gjennom analysen med deg og lager en konkret plan for å forbedre nettsiden din. Helt gratis, ingen forpliktelser.</p>
+      <h3>${escapeHtml(t.ctaTitle)}</h3>
+      <p>${escapeHtml(t.ctaBody)}</p>
 
       <div class="cta-trust-signals">
         <div class="trust-signal">
           ${icon('clock')}
-          <span>15 min uforpliktende samtale</span>
+          <span>${escapeHtml(t.ctaTrust[0])}</span>
         </div>
         <div class="trust-signal">
           ${icon('file-alt')}
-          <span>Skriftlig rapport inkludert</span>
+          <span>${escapeHtml(t.ctaTrust[1])}</span>
         </div>
         <div class="trust-signal">
           ${icon('ban')}
-          <span>Ingen bindingstid</span>
+          <span>${escapeHtml(t.ctaTrust[2])}</span>
         </div>
       </div>
 
       <a href="#kontakt" class="btn btn-primary btn-lg">
-        ${icon('calendar-check')} Book gratis gjennomgang
+        ${icon('calendar-check')} ${escapeHtml(t.ctaButton)}
       </a>
     </div>
   `;
@@ -480,6 +640,413 @@ function displayResults(data: AnalysisResult): void {
   // Setup event delegation and tooltips
   setupEventDelegation(resultsDiv);
   setupTooltips();
+
+  void loadHistory(data.url, data.scoring);
+}
+
+// Which weight profile the total score uses; the standard profile needs no note
+function renderProfileNote(scoring: ScoringInfo | undefined): string {
+  if (!scoring || scoring.profile === 'standard') return '';
+  return `<p class="score-profile">${escapeHtml(t.profileNote(scoring.label))}</p>`;
+}
+
+// Sizes are reported in bytes, times in milliseconds and lifetimes in days
+const BYTE_METRICS = new Set(['htmlSize', 'transferSize']);
+const MS_METRICS = new Set(['responseTime']);
+const DAY_METRICS = new Set(['hstsMaxAge']);
+
+function formatMetric(key: string, value: MetricValue): string {
+  if (value === null) return t.unknown;
+  if (typeof value === 'boolean') return value ? t.yes : t.no;
+  if (typeof value === 'string') return value;
+  if (BYTE_METRICS.has(key)) return `${(value / 1024).toFixed(1)} KB`;
+  if (MS_METRICS.has(key)) return `${String(value)} ms`;
+  if (DAY_METRICS.has(key)) return t.days(value);
+  return String(value);
+}
+
+function renderHeaderMatrix(headers: SecurityHeaderStatus[]): string {
+  return `
+    <h5>${escapeHtml(t.headersTitle)}</h5>
+    <table class="technical-table">
+      <thead><tr><th scope="col">${escapeHtml(t.headerColumn)}</th><th scope="col">${escapeHtml(t.valueColumn)}</th></tr></thead>
+      <tbody>
+        ${headers.map(({ header, present, value }) => `
+          <tr class="${present ? 'present' : 'missing'}">
+            <th scope="row">${escapeHtml(header)}</th>
+            <td>${present ? `<code>${escapeHtml(value ?? '')}</code>` : escapeHtml(t.headerMissing)}</td>
+          </tr>
+        `).join('')}
+      </tbody>
+    </table>
+  `;
+}
+
+function renderCookieAttributes(cookie: CookieInfo): string {
+  return [
+    cookie.secure ? 'Secure' : null,
+    cookie.httpOnly ? 'HttpOnly' : null,
+    cookie.sameSite ? `SameSite=${cookie.sameSite}` : null,
+    cookie.domain ? `Domain=${cookie.domain}` : null,
+    cookie.path ? `Path=${cookie.path}` : null
+  ].filter(Boolean).join('; ');
+}
+
+function renderCookieInventory(cookies: CookieInfo[]): string {
+  if (cookies.length === 0) return '';
+  const [nameColumn, attributesColumn, lifetimeColumn, issuesColumn] = t.cookieColumns;
+
+  return `
+    <h5>${escapeHtml(t.cookiesTitle)}</h5>
+    <div class="technical-table-wrapper">
+      <table class="technical-table cookie-table">
+        <thead>
+          <tr>
+            <th scope="col">${escapeHtml(nameColumn)}</th>
+            <th scope="col">${escapeHtml(attributesColumn)}</th>
+            <th scope="col">${escapeHtml(lifetimeColumn)}</th>
+            <th scope="col">${escapeHtml(issuesColumn)}</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${cookies.map(cookie => `
+            <tr class="${cookie.issues.length > 0 ? 'missing' : 'present'}">
+              <th scope="row"><code>${escapeHtml(cookie.name)}</code></th>
+              <td><code>${escapeHtml(renderCookieAttributes(cookie))}</code></td>
+              <td>${escapeHtml(cookie.lifetimeDays === null ? t.sessionCookie : t.days(cookie.lifetimeDays))}</td>
+              <td>${escapeHtml(cookie.issues.map(issue => t.cookieIssueLabels[issue]).join(', '))}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    </div>
+  `;
+}
+
+function renderThirdPartyIntegrity(entry: ThirdPartyOrigin): string {
+  if (entry.scripts + entry.stylesheets === 0) return '–';
+  const problems = [
+    entry.missingIntegrity > 0 ? t.integrityMissing(entry.missingIntegrity) : null,
+    entry.missingCrossOrigin > 0 ? t.crossOriginMissing(entry.missingCrossOrigin) : null
+  ].filter(Boolean);
+  return problems.length > 0 ? problems.join(', ') : t.yes;
+}
+
+function renderThirdParties(thirdParties: ThirdPartyOrigin[]): string {
+  if (thirdParties.length === 0) return '';
+  const [originColumn, scriptsColumn, stylesheetsColumn, iframesColumn, integrityColumn] = t.thirdPartyColumns;
+
+  return `
+    <h5>${escapeHtml(t.thirdPartiesTitle)}</h5>
+    <div class="technical-table-wrapper">
+      <table class="technical-table third-party-table">
+        <thead>
+          <tr>
+            <th scope="col">${escapeHtml(originColumn)}</th>
+            <th scope="col">${escapeHtml(scriptsColumn)}</th>
+            <th scope="col">${escapeHtml(stylesheetsColumn)}</th>
+            <th scope="col">${escapeHtml(iframesColumn)}</th>
+            <th scope="col">${escapeHtml(integrityColumn)}</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${thirdParties.map(entry => `
+            <tr class="${entry.missingIntegrity + entry.missingCrossOrigin > 0 ? 'missing' : 'present'}">
+              <th scope="row"><code>${escapeHtml(entry.origin)}</code></th>
+              <td>${String(entry.scripts)}</td>
+              <td>${String(entry.stylesheets)}</td>
+              <td>${String(entry.iframes)}</td>
+              <td>${escapeHtml(renderThirdPartyIntegrity(entry))}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    </div>
+  `;
+}
+
+// Automated WCAG results; results cached before the summary existed have none
+function renderConformance(conformance: ConformanceSummary): string {
+  const [criterionColumn, nameColumn, levelColumn, statusColumn] = t.conformanceColumns;
+
+  return `
+    <details class="technical-details">
+      <summary>${icon('check')} ${escapeHtml(t.conformanceTitle)}: ${escapeHtml(t.conformanceCounts(conformance.passed, conformance.failed, conformance.notTested))}</summary>
+      <p>${escapeHtml(t.conformanceDescription)}</p>
+      <div class="technical-table-wrapper">
+        <table class="technical-table conformance-table">
+          <thead>
+            <tr>
+              <th scope="col">${escapeHtml(criterionColumn)}</th>
+              <th scope="col">${escapeHtml(nameColumn)}</th>
+              <th scope="col">${escapeHtml(levelColumn)}</th>
+              <th scope="col">${escapeHtml(statusColumn)}</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${conformance.criteria.map(item => `
+              <tr class="${item.status === 'failed' ? 'missing' : 'present'}">
+                <th scope="row">${escapeHtml(item.criterion)}</th>
+                <td>${escapeHtml(item.name)}</td>
+                <td>${escapeHtml(item.level)}</td>
+                <td class="conformance-${sanitizeDataAttr(item.status)}">${escapeHtml(t.conformanceStatus[item.status])}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      </div>
+    </details>
+  `;
+}
+
+// Raw metrics per category for developers; results cached before metrics existed have none
+function renderTechnicalDetails(categories: AnalysisCategories): string {
+  const sections = (Object.entries(categories) as [CategoryKey, CategoryResult][])
+    .filter(([, val]) => val.metrics !== undefined || val.headers !== undefined || val.cookies !== undefined || val.thirdParties !== undefined);
+  if (sections.length === 0) return '';
+
+  return `
+    <details class="technical-details">
+      <summary>${icon('server')} ${escapeHtml(t.technicalTitle)}</summary>
+      <p>${escapeHtml(t.technicalDescription)}</p>
+      ${sections.map(([key, val]) => `
+        <div class="technical-section">
+          <h4>${getCategoryIcon(key)} ${escapeHtml(getCategoryLabel(key))}</h4>
+          ${val.metrics ? `
+          <table class="technical-table">
+            <tbody>
+              ${Object.entries(val.metrics).map(([metric, value]) => `
+                <tr>
+                  <th scope="row">${escapeHtml(t.metricLabels[metric] ?? metric)}</th>
+                  <td>${escapeHtml(formatMetric(metric, value))}</td>
+                </tr>
+              `).join('')}
+            </tbody>
+          </table>
+          ` : ''}
+          ${val.headers ? renderHeaderMatrix(val.headers) : ''}
+          ${val.cookies ? renderCookieInventory(val.cookies) : ''}
+          ${val.thirdParties ? renderThirdParties(val.thirdParties) : ''}
+        </div>
+      `).join('')}
+    </details>
+  `;
+}
+
+function getHostname(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
+
+// One table row of scores, highlighting the best when sites differ
+function renderComparisonRow(label: string, scores: (number | null)[]): string {
+  const known = scores.filter((score): score is number => score !== null);
+  const best = known.length > 1 && new Set(known).size > 1 ? Math.max(...known) : null;
+
+  return `
+    <tr>
+      <th scope="row">${escapeHtml(label)}</th>
+      ${scores.map(score => score === null
+        ? '<td class="comparison-score">–</td>'
+        : `<td class="comparison-score ${getScoreColorClass(score)}${score === best ? ' best' : ''}">${score}</td>`
+      ).join('')}
+    </tr>
+  `;
+}
+
+function renderDifferenceList(items: ComparisonDifference[], emptyText: string): string {
+  if (items.length === 0) {
+    return `<p class="comparison-empty">${escapeHtml(emptyText)}</p>`;
+  }
+
+  return `
+    <div class="detail-items">
+      ${items.map(item => `
+        <div class="detail-item ${sanitizeDataAttr(item.severity)}">
+          <span class="detail-item-icon">${getCategoryIcon(item.category)}</span>
+          <span class="detail-item-text">${escapeHtml(item.message)}</span>
+        </div>
+      `).join('')}
+    </div>
+  `;
+}
+
+function renderDifferences(differences: CompetitorDifferences): string {
+  return `
+    <div class="comparison-diff">
+      <h4>${escapeHtml(t.versus(getHostname(differences.url)))}</h4>
+      <div class="comparison-diff-columns">
+        <div class="comparison-diff-column">
+          <h5>${icon('exclamation-triangle')} ${escapeHtml(t.theyHave(differences.theyHave.length))}</h5>
+          ${renderDifferenceList(differences.theyHave, t.theyHaveEmpty)}
+        </div>
+        <div class="comparison-diff-column">
+          <h5>${icon('check-circle')} ${escapeHtml(t.youHave(differences.youHave.length))}</h5>
+          ${renderDifferenceList(differences.youHave, t.youHaveEmpty)}
+        </div>
+      </div>
+    </div>
+  `;
+}
+
+// Side-by-side results for the client's site and its competitors
+function displayComparison(data: ComparisonResponse): void {
+  const resultsDiv = $id('scannerResults');
+  const form = $id('scannerForm') as HTMLFormElement | null;
+
+  if (!resultsDiv || !form) return;
+
+  form.classList.remove('loading');
+  resultsDiv.style.display = 'block';
+
+  const failed = data.rows.filter(row => row.error !== null);
+
+  resultsDiv.innerHTML = `
+    <button class="scanner-close" data-action="close">
+      ${icon('times')} ${escapeHtml(t.close)}
+    </button>
+
+    <div class="comparison">
+      <h3>${icon('chart-bar')} ${escapeHtml(t.comparisonTitle)}</h3>
+      ${renderProfileNote(data.results.map(entry => entry.result).find(isAnalysisResult)?.scoring)}
+      <div class="comparison-table-wrapper">
+        <table class="comparison-table">
+          <thead>
+            <tr>
+              <th></th>
+              ${data.rows.map((row, index) => `
+                <th scope="col"${index === 0 ? ' class="own"' : ''}>
+                  ${escapeHtml(getHostname(row.url))}
+                  ${index === 0 ? `<span class="comparison-own-label">${escapeHtml(t.yourSite)}</span>` : ''}
+                </th>
+              `).join('')}
+            </tr>
+          </thead>
+          <tbody>
+            ${renderComparisonRow(t.totalScore, data.rows.map(row => row.totalScore))}
+            ${(Object.keys(categoryLabels) as CategoryKey[]).map(key =>
+              renderComparisonRow(categoryLabels[key], data.rows.map(row => row.scores?.[key] ?? null))
+            ).join('')}
+          </tbody>
+        </table>
+      </div>
+
+      ${failed.map(row => `
+        <p class="comparison-error">${icon('exclamation-triangle')} ${escapeHtml(getHostname(row.url))}: ${escapeHtml(row.error)}</p>
+      `).join('')}
+
+      ${data.differences.map(renderDifferences).join('')}
+    </div>
+
+    <div class="scanner-cta enhanced">
+      <h3>${escapeHtml(t.comparisonCtaTitle)}</h3>
+      <p>${escapeHtml(t.comparisonCtaBody)}</p>
+      <a href="#kontakt" class="btn btn-primary btn-lg">
+        ${icon('calendar-check')} ${escapeHtml(t.ctaButton)}
+      </a>
+    </div>
+  `;
+
+  resultsDiv.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  setupEventDelegation(resultsDiv);
+}
+
+// Most recent scans shown in the trend chart
+const HISTORY_CHART_POINTS = 20;
+
+const formatShortDate = (iso: string): string =>
+  new Date(iso).toLocaleDateString(t.dateLocale, { day: 'numeric', month: 'short' });
+
+// Line chart of the total and category scores, oldest scan on the left
+function renderTrendChart(history: ScanHistory): string {
+  const entries = history.entries.slice(-HISTORY_CHART_POINTS);
+  const width = 600;
+  const height = 200;
+  const padX = 32;
+  const padY = 16;
+
+  const x = (index: number): number => padX + (index * (width - padX * 2)) / Math.max(1, entries.length - 1);
+  const y = (score: number): number => padY + ((100 - score) * (height - padY * 2)) / 100;
+  const line = (scores: number[], className: string): string =>
+    `<polyline class="trend-line ${className}" points="${scores.map((score, i) => `${x(i).toFixed(1)},${y(score).toFixed(1)}`).join(' ')}"></polyline>`;
+
+  const categories = Object.keys(categoryLabels) as CategoryKey[];
+
+  return `
+    <svg class="trend-chart" viewBox="0 0 ${width} ${height + 20}" role="img" aria-label="${escapeHtml(t.trendLabel)}">
+      ${[0, 50, 100].map(score => `
+        <line class="trend-grid" x1="${padX}" x2="${width - padX}" y1="${y(score)}" y2="${y(score)}"></line>
+        <text class="trend-axis" x="${padX - 6}" y="${y(score) + 4}" text-anchor="end">${score}</text>
+      `).join('')}
+      ${categories.map(key => line(entries.map(entry => entry.scores[key]), sanitizeDataAttr(key))).join('')}
+      ${line(entries.map(entry => entry.totalScore), 'total')}
+      <text class="trend-axis" x="${padX}" y="${height + 16}">${escapeHtml(formatShortDate(entries[0].analyzedAt))}</text>
+      <text class="trend-axis" x="${width - padX}" y="${height + 16}" text-anchor="end">${escapeHtml(formatShortDate(entries[entries.length - 1].analyzedAt))}</text>
+    </svg>
+    <div class="trend-legend">
+      <span class="trend-key total">${escapeHtml(t.total)}</span>
+      ${categories.map(key => `<span class="trend-key ${sanitizeDataAttr(key)}">${escapeHtml(categoryLabels[key])}</span>`).join('')}
+    </div>
+  `;
+}
+
+function renderHistoryFindings(findings: HistoryFinding[], iconName: string, className: string): string {
+  return findings.map(finding => `
+    <div class="detail-item ${className}">
+      <span class="detail-item-icon">${icon(iconName)}</span>
+      <span class="detail-item-text">${escapeHtml(finding.message)}</span>
+    </div>
+  `).join('');
+}
+
+// History totals use the standard weights, whatever profile this scan was run with
+function renderHistory(history: ScanHistory, scoring: ScoringInfo | undefined): string {
+  const [previous, latest] = history.entries.slice(-2);
+  const change = latest.totalScore - previous.totalScore;
+  const { diff } = history;
+
+  return `
+    <h4>${icon('chart-line')} ${escapeHtml(t.historyTitle(history.domain))}</h4>
+    <p class="history-summary">
+      ${escapeHtml(t.historySummary(history.entries.length, previous.totalScore, latest.totalScore))}
+      <span class="history-change ${change >= 0 ? 'up' : 'down'}">(${change >= 0 ? '+' : ''}${change})</span>
+      ${escapeHtml(t.historySince(formatShortDate(previous.analyzedAt)))}
+    </p>
+    ${scoring && scoring.profile !== 'standard' ? `<p class="score-profile">${escapeHtml(t.historyStandardWeights)}</p>` : ''}
+    ${renderTrendChart(history)}
+    ${diff ? `
+    <div class="history-diff">
+      <h5>${escapeHtml(t.historyChanges)}</h5>
+      ${diff.resolved.length === 0 && diff.introduced.length === 0 ? `<p class="comparison-empty">${escapeHtml(t.historyNoChanges)}</p>` : ''}
+      <div class="detail-items">
+        ${renderHistoryFindings(diff.resolved, 'check-circle', 'success')}
+        ${renderHistoryFindings(diff.introduced, 'exclamation-triangle', 'warning')}
+      </div>
+    </div>
+    ` : ''}
+  `;
+}
+
+// Show the domain's score trend once it has been scanned more than once
+async function loadHistory(url: string, scoring: ScoringInfo | undefined): Promise<void> {
+  const container = $id('scannerHistory');
+  if (!container) return;
+
+  try {
+    const response = await fetch(`/api/history?url=${encodeURIComponent(url)}&lang=${locale}`);
+    if (!response.ok) return;
+
+    const history: unknown = await response.json();
+    if (!validateScanHistory(history) || history.entries.length < 2) return;
+
+    container.innerHTML = renderHistory(history, scoring);
+    container.hidden = false;
+  } catch {
+    // History is a bonus; the analysis itself is already shown
+  }
 }
 
 // Event delegation for all interactive elements (replaces inline onclick)
@@ -574,85 +1141,6 @@ function animateScore(element: HTMLElement, targetScore: number, duration = 1500
   requestAnimationFrame(animate);
 }
 
-// Generate quick wins from analysis data
-function generateQuickWins(data: AnalysisResult): QuickWin[] {
-  const quickWins: QuickWin[] = [];
-
-  const fixTimeMap: Record<string, string> = {
-    'title': '5 min',
-    'meta description': '5 min',
-    'alt': '10 min',
-    'H1': '5 min',
-    'viewport': '2 min',
-    'HTTPS': '30 min',
-    'canonical': '5 min',
-    'lang': '2 min',
-    'Open Graph': '15 min',
-    'lazy': '15 min',
-    'async': '10 min',
-    'defer': '10 min'
-  };
-
-  const impactMap: Record<Severity, QuickWin['impact']> = {
-    'critical': 'Høy',
-    'warning': 'Medium',
-    'info': 'Lav'
-  };
-
-  (Object.entries(data.categories) as [CategoryKey, CategoryResult][]).forEach(([cat, val]) => {
-    (val.details || []).forEach((detail: AnalysisDetail) => {
-      if (detail.severity === 'critical' || detail.severity === 'warning') {
-        let fixTime = '15 min';
-        for (const [key, time] of Object.entries(fixTimeMap)) {
-          if (detail.message.toLowerCase().includes(key.toLowerCase())) {
-            fixTime = time;
-            break;
-          }
-        }
-
-        quickWins.push({
-          category: cat,
-          message: detail.message,
-          severity: detail.severity,
-          fixTime: fixTime,
-          impact: impactMap[detail.severity] || 'Medium'
-        });
-      }
-    });
-  });
-
-  // Sort by impact (critical first) then by fix time
-  return quickWins.sort((a, b) => {
-    if (a.severity === 'critical' && b.severity !== 'critical') return -1;
-    if (b.severity === 'critical' && a.severity !== 'critical') return 1;
-    return 0;
-  });
-}
-
-// Get tooltip explanation for common issues
-function getTooltip(message: string): string | null {
-  const tooltips: Record<string, string> = {
-    'title': 'Title-taggen vises i Google-søk og nettleser-faner. En god title øker klikk fra søkeresultater.',
-    'meta description': 'Meta description vises under title i Google. En god beskrivelse øker klikkraten betydelig.',
-    'H1': 'H1-overskriften forteller Google hva siden handler om. Viktig for rangering på relevante søkeord.',
-    'alt': 'Alt-tekst hjelper søkemotorer forstå bildene dine og er kritisk for synshemmede brukere.',
-    'HTTPS': 'HTTPS beskytter brukerdata og er en rangeringsfaktor i Google. Uten HTTPS vises "Ikke sikker" i nettleseren.',
-    'viewport': 'Viewport-meta sikrer at siden vises korrekt på mobil. Uten den vil siden zoomes ut og være vanskelig å bruke.',
-    'canonical': 'Canonical URL forteller Google hvilken versjon av siden som er "hovedversjonen" og unngår duplikatinnhold.',
-    'Open Graph': 'Open Graph-tags bestemmer hvordan siden ser ut når den deles på Facebook, LinkedIn og andre sosiale medier.',
-    'lazy': 'Lazy loading utsetter lasting av bilder til de trengs, noe som gjør siden mye raskere.',
-    'responstid': 'Server-responstid påvirker både brukeropplevelse og Google-rangering. Trege sider mister besøkende.',
-    'render-blokkerende': 'Render-blokkerende scripts stopper siden fra å vises til de er lastet. Async/defer løser dette.'
-  };
-
-  for (const [key, tooltip] of Object.entries(tooltips)) {
-    if (message.toLowerCase().includes(key.toLowerCase())) {
-      return tooltip;
-    }
-  }
-  return null;
-}
-
 function getFeedbackIcon(score: number): string {
   if (score >= 90) return icon('trophy');
   if (score >= 70) return icon('thumbs-up');
@@ -661,10 +1149,11 @@ function getFeedbackIcon(score: number): string {
 }
 
 function getFeedbackTitle(score: number): string {
-  if (score >= 90) return 'Utmerket! Nettsiden din er i toppklasse';
-  if (score >= 70) return 'Bra jobbet! Men det er rom for forbedring';
-  if (score >= 50) return 'Nettsiden trenger oppmerksomhet';
-  return 'Kritisk! Nettsiden har alvorlige mangler';
+  const [excellent, good, attention, critical] = t.feedbackTitles;
+  if (score >= 90) return excellent;
+  if (score >= 70) return good;
+  if (score >= 50) return attention;
+  return critical;
 }
 
 function generateFeedback(data: AnalysisResult): string {
@@ -693,37 +1182,37 @@ function generateFeedback(data: AnalysisResult): string {
   let feedback = '';
 
   if (data.totalScore >= 90) {
-    feedback = 'Gratulerer! Nettsiden din scorer høyt på alle viktige områder. ';
+    feedback = t.feedbackExcellent;
     if (strongAreas.length > 0) {
-      feedback += `Spesielt bra på ${strongAreas.slice(0, 2).join(' og ')}.`;
+      feedback += t.feedbackStrong(strongAreas.slice(0, 2).join(t.and));
     }
-    feedback += ' Fortsett det gode arbeidet og hold siden oppdatert.';
+    feedback += t.feedbackKeepGoing;
   } else if (data.totalScore >= 70) {
-    feedback = 'Nettsiden din presterer bra totalt sett. ';
+    feedback = t.feedbackGood;
     if (weakAreas.length > 0) {
-      feedback += `${weakAreas.map(w => w.label).join(' og ')} kan forbedres for enda bedre resultater.`;
+      feedback += t.feedbackImprove(weakAreas.map(w => w.label).join(t.and));
     } else if (okAreas.length > 0) {
-      feedback += `Små justeringer på ${okAreas.slice(0, 2).map(a => a.label.toLowerCase()).join(' og ')} kan løfte siden til toppnivå.`;
+      feedback += t.feedbackTweak(okAreas.slice(0, 2).map(a => a.label.toLowerCase()).join(t.and));
     } else {
-      feedback += 'Fortsett å vedlikeholde siden for å beholde de gode resultatene.';
+      feedback += t.feedbackMaintain;
     }
   } else if (data.totalScore >= 50) {
-    feedback = 'Nettsiden din har flere områder som trenger forbedring. ';
+    feedback = t.feedbackAttention;
     if (weakAreas.length > 0) {
       const criticalAreas = weakAreas.filter(w => w.priority === 'critical');
       if (criticalAreas.length > 0) {
-        feedback += `${criticalAreas.map(w => w.label).join(' og ')} krever oppmerksomhet. `;
+        feedback += t.feedbackNeedsAttention(criticalAreas.map(w => w.label).join(t.and));
       } else {
-        feedback += `${weakAreas.map(w => w.label).join(' og ')} bør prioriteres. `;
+        feedback += t.feedbackPrioritize(weakAreas.map(w => w.label).join(t.and));
       }
-      feedback += 'Dette påvirker hvordan kunder finner og opplever siden din.';
+      feedback += t.feedbackAffects;
     }
   } else {
-    feedback = 'Nettsiden din har alvorlige problemer som kan skade virksomheten din. ';
+    feedback = t.feedbackCritical;
     if (weakAreas.length > 0) {
-      feedback += `${weakAreas.slice(0, 3).map(w => w.label).join(', ')} scorer kritisk lavt. `;
+      feedback += t.feedbackCriticalAreas(weakAreas.slice(0, 3).map(w => w.label).join(', '));
     }
-    feedback += 'Vi anbefaler å ta tak i dette så raskt som mulig.';
+    feedback += t.feedbackActNow;
   }
 
   return feedback;
@@ -748,6 +1237,15 @@ function getCategoryIcon(key: CategoryKey): string {
   return categoryIcons[key] || icon('check');
 }
 
+// Reports and exports are rendered in the scanner's language
+function getReportUrl(reportPath: string): string {
+  return `${reportPath}?lang=${locale}`;
+}
+
+function getExportUrl(reportId: string, format: 'html' | 'pdf'): string {
+  return `/api/report/${encodeURIComponent(reportId)}/export?format=${format}&lang=${locale}`;
+}
+
 function getDetailIcon(detail: AnalysisDetail): string {
   if (detail.type === 'success') return icon('check-circle');
   if (detail.severity === 'critical') return icon('times-circle');
@@ -831,12 +1329,7 @@ function filterResults(severity: string, clickedBtn: HTMLElement): void {
     if (filterLabel) filterLabel.textContent = '';
   } else {
     // Filter by severity
-    const severityLabels: Record<string, string> = {
-      critical: 'Kritiske',
-      warning: 'Advarsler',
-      success: 'Godkjent'
-    };
-    if (filterLabel) filterLabel.textContent = `- ${severityLabels[severity] ?? ''}`;
+    if (filterLabel) filterLabel.textContent = `- ${t.severityLabels[severity] ?? ''}`;
 
     sections.forEach(section => {
       const matchingItems = section.querySelectorAll(`.detail-item[data-severity="${sanitizeDataAttr(severity)}"]`);
@@ -0,0 +1,571 @@
+// Scanner texts per language - shared by Scanner.astro and the lazy-loaded scanner logic
+import { DEFAULT_LOCALE, type ConformanceStatus, type CookieIssue, type Locale, type QuickWin } from '../../types/api';
+
+export interface ScannerStrings {
+  // Form (Scanner.astro)
+  sectionLabel: string;
+  heading: string;
+  headingAccent: string;
+  description: string;
+  urlLabel: string;
+  urlPlaceholder: string;
+  submit: string;
+  submitting: string;
+  segment: string;
+  profile: string;
+  compareSummary: string;
+  compareDescription: string;
+  competitor: (n: number) => string;
+  competitorPlaceholder: string;
+
+  // Progress and errors
+  analyzing: string;
+  steps: string[];
+  serverError: (status: number) => string;
+  invalidResponse: string;
+  genericError: string;
+  timeoutError: string;
+  cancel: string;
+  cancelled: string;
+  resourcesFound: (scripts: number, stylesheets: number, images: number) => string;
+  crawlProgress: (done: number, total: number) => string;
+
+  // Results
+  close: string;
+  totalOutOf: string;
+  profileNote: (profile: string) => string;
+  criticalCount: (n: number) => string;
+  warningCount: (n: number) => string;
+  successCount: (n: number) => string;
+  openReport: string;
+  downloadPdf: string;
+  downloadHtml: string;
+  quickWinsTitle: string;
+  quickWinsSubtitle: string;
+  impactLabels: Record<QuickWin['impact'], string>;
+  impact: (label: string) => string;
+  points: (n: number) => string;
+  howToFix: string;
+  benchmarkTitle: (source: string) => string;
+  you: (score: number) => string;
+  average: (score: number) => string;
+  betterThan: (percentile: number) => string;
+  now: string;
+  potential: string;
+  potentialTitle: (points: number) => string;
+  potentialBody: (areas: string) => string;
+  severalAreas: string;
+  potentialCta: string;
+  showAll: string;
+  onlyCritical: (n: number) => string;
+  onlyWarnings: (n: number) => string;
+  onlySuccess: (n: number) => string;
+  severityLabels: Record<string, string>;
+  detailsTitle: string;
+  moreInfo: string;
+  whyItMatters: string;
+  readMore: string;
+  noProblems: string;
+  ctaBadge: string;
+  ctaTitle: string;
+  ctaBody: string;
+  ctaTrust: [string, string, string];
+  ctaButton: string;
+
+  // Feedback
+  feedbackTitles: [excellent: string, good: string, attention: string, critical: string];
+  and: string;
+  feedbackExcellent: string;
+  feedbackStrong: (areas: string) => string;
+  feedbackKeepGoing: string;
+  feedbackGood: string;
+  feedbackImprove: (areas: string) => string;
+  feedbackTweak: (areas: string) => string;
+  feedbackMaintain: string;
+  feedbackAttention: string;
+  feedbackNeedsAttention: (areas: string) => string;
+  feedbackPrioritize: (areas: string) => string;
+  feedbackAffects: string;
+  feedbackCritical: string;
+  feedbackCriticalAreas: (areas: string) => string;
+  feedbackActNow: string;
+
+  // Comparison
+  comparisonTitle: string;
+  yourSite: string;
+  totalScore: string;
+  versus: (host: string) => string;
+  theyHave: (n: number) => string;
+  theyHaveEmpty: string;
+  youHave: (n: number) => string;
+  youHaveEmpty: string;
+  comparisonCtaTitle: string;
+  comparisonCtaBody: string;
+
+  // History
+  dateLocale: string;
+  trendLabel: string;
+  total: string;
+  historyTitle: (domain: string) => string;
+  historySummary: (count: number, from: number, to: number) => string;
+  historySince: (date: string) => string;
+  historyChanges: string;
+  historyNoChanges: string;
+  historyStandardWeights: string;
+
+  // Technical details
+  technicalTitle: string;
+  technicalDescription: string;
+  metricLabels: Record<string, string>;
+  headersTitle: string;
+  headerColumn: string;
+  valueColumn: string;
+  headerMissing: string;
+  cookiesTitle: string;
+  cookieColumns: [name: string, attributes: string, lifetime: string, issues: string];
+  sessionCookie: string;
+  days: (n: number) => string;
+  cookieIssueLabels: Record<CookieIssue, string>;
+  thirdPartiesTitle: string;
+  thirdPartyColumns: [origin: string, scripts: string, stylesheets: string, iframes: string, integrity: string];
+  integrityMissing: (n: number) => string;
+  crossOriginMissing: (n: number) => string;
+
+  // WCAG conformance
+  conformanceTitle: string;
+  conformanceDescription: string;
+  conformanceCounts: (passed: number, failed: number, notTested: number) => string;
+  conformanceColumns: [criterion: string, name: string, level: string, status: string];
+  conformanceStatus: Record<ConformanceStatus, string>;
+  yes: string;
+  no: string;
+  unknown: string;
+}
+
+const nb: ScannerStrings = {
+  sectionLabel: 'Gratis verktøy',
+  heading: 'Sjekk nettsiden din',
+  headingAccent: 'nå',
+  description: 'Få en komplett analyse av hastighet, SEO og mobilvennlighet på sekunder.',
+  urlLabel: 'Skriv inn nettadresse',
+  urlPlaceholder: 'dinside.no',
+  submit: 'Analyser gratis',
+  submitting: 'Analyserer...',
+  segment: 'Bransje',
+  profile: 'Vekting',
+  compareSummary: 'Sammenlign med konkurrenter',
+  compareDescription: 'Legg til opptil tre konkurrenter for å se resultatene side om side.',
+  competitor: n => `Konkurrent ${String(n)}`,
+  competitorPlaceholder: 'konkurrent.no',
+
+  analyzing: 'Analyserer nettsiden din...',
+  steps: [
+    'Kobler til server...',
+    'Analyserer hastighet...',
+    'Sjekker SEO-elementer...',
+    'Evaluerer sikkerhet...',
+    'Tester mobilvennlighet...',
+    'Kontrollerer tilgjengelighet...',
+    'Beregner total score...'
+  ],
+  serverError: status => `Server-feil: ${String(status)}`,
+  invalidResponse: 'Ugyldig svar fra server',
+  genericError: 'Kunne ikke analysere nettsiden. Sjekk at URLen er korrekt og prøv igjen.',
+  timeoutError: 'Forespørselen tok for lang tid. Prøv igjen senere.',
+  cancel: 'Avbryt',
+  cancelled: 'Analysen ble avbrutt.',
+  resourcesFound: (scripts, stylesheets, images) =>
+    `Fant ${String(scripts)} scripts, ${String(stylesheets)} CSS-filer og ${String(images)} bilder`,
+  crawlProgress: (done, total) => `Undersider analysert: ${String(done)} av ${String(total)}`,
+
+  close: 'Lukk resultater',
+  totalOutOf: 'Total score av 100',
+  profileNote: profile => `Total score vektet for ${profile.toLowerCase()}`,
+  criticalCount: n => `${String(n)} kritiske`,
+  warningCount: n => `${String(n)} advarsler`,
+  successCount: n => `${String(n)} godkjent`,
+  openReport: 'Åpne delbar rapport',
+  downloadPdf: 'Last ned PDF',
+  downloadHtml: 'Last ned HTML',
+  quickWinsTitle: 'Raskeste forbedringer',
+  quickWinsSubtitle: 'Disse endringene gir størst effekt med minst innsats',
+  impactLabels: { Høy: 'Høy', Medium: 'Medium', Lav: 'Lav' },
+  impact: label => `${label} effekt`,
+  points: n => `(+${String(n)} poeng)`,
+  howToFix: 'Slik fikser du det',
+  benchmarkTitle: source => `Sammenligning med ${source}`,
+  you: score => `Du: ${String(score)}`,
+  average: score => `Snitt: ${String(score)}`,
+  betterThan: percentile => `Bedre enn ${String(percentile)} %`,
+  now: 'Nå',
+  potential: 'Potensial',
+  potentialTitle: points => `Vi kan løfte scoren din med opptil ${String(points)} poeng`,
+  potentialBody: areas => `Basert på analysen kan vi forbedre ${areas} som direkte påvirker synlighet og konvertering.`,
+  severalAreas: 'flere områder',
+  potentialCta: 'Få gratis forbedringsplan',
+  showAll: 'Vis alle',
+  onlyCritical: n => `Kun kritiske (${String(n)})`,
+  onlyWarnings: n => `Kun advarsler (${String(n)})`,
+  onlySuccess: n => `Kun godkjent (${String(n)})`,
+  severityLabels: { critical: 'Kritiske', warning: 'Advarsler', success: 'Godkjent' },
+  detailsTitle: 'Detaljert analyse',
+  moreInfo: 'Mer informasjon',
+  whyItMatters: 'Hvorfor dette er viktig',
+  readMore: 'Les mer',
+  noProblems: 'Ingen problemer funnet',
+  ctaBadge: 'Gratis tilbud',
+  ctaTitle: 'Få en personlig forbedringsplan',
+  ctaBody: 'Vi går gjennom analysen med deg og lager en konkret plan for å forbedre nettsiden din. Helt gratis, ingen forpliktelser.',
+  ctaTrust: ['15 min uforpliktende samtale', 'Skriftlig rapport inkludert', 'Ingen bindingstid'],
+  ctaButton: 'Book gratis gjennomgang',
+
+  feedbackTitles: [
+    'Utmerket! Nettsiden din er i toppklasse',
+    'Bra jobbet! Men det er rom for forbedring',
+    'Nettsiden trenger oppmerksomhet',
+    'Kritisk! Nettsiden har alvorlige mangler'
+  ],
+  and: ' og ',
+  feedbackExcellent: 'Gratulerer! Nettsiden din scorer høyt på alle viktige områder. ',
+  feedbackStrong: areas => `Spesielt bra på ${areas}.`,
+  feedbackKeepGoing: ' Fortsett det gode arbeidet og hold siden oppdatert.',
+  feedbackGood: 'Nettsiden din presterer bra totalt sett. ',
+  feedbackImprove: areas => `${areas} kan forbedres for enda bedre resultater.`,
+  feedbackTweak: areas => `Små justeringer på ${areas} kan løfte siden til toppnivå.`,
+  feedbackMaintain: 'Fortsett å vedlikeholde siden for å beholde de gode resultatene.',
+  feedbackAttention: 'Nettsiden din har flere områder som trenger forbedring. ',
+  feedbackNeedsAttention: areas => `${areas} krever oppmerksomhet. `,
+  feedbackPrioritize: areas => `${areas} bør prioriteres. `,
+  feedbackAffects: 'Dette påvirker hvordan kunder finner og opplever siden din.',
+  feedbackCritical: 'Nettsiden din har alvorlige problemer som kan skade virksomheten din. ',
+  feedbackCriticalAreas: areas => `${areas} scorer kritisk lavt. `,
+  feedbackActNow: 'Vi anbefaler å ta tak i dette så raskt som mulig.',
+
+  comparisonTitle: 'Sammenligning med konkurrenter',
+  yourSite: 'Din side',
+  totalScore: 'Total score',
+  versus: host => `Mot ${host}`,
+  theyHave: n => `De har, du mangler (${String(n)})`,
+  theyHaveEmpty: 'Ingenting – du er minst like god på alle punkter.',
+  youHave: n => `Du har, de mangler (${String(n)})`,
+  youHaveEmpty: 'Ingen fordeler på enkeltpunkter ennå.',
+  comparisonCtaTitle: 'Vil du slå konkurrentene?',
+  comparisonCtaBody: 'Vi går gjennom sammenligningen med deg og viser hva som gir størst forsprang. Helt gratis, ingen forpliktelser.',
+
+  dateLocale: 'nb-NO',
+  trendLabel: 'Utvikling i score over tid',
+  total: 'Total',
+  historyTitle: domain => `Utvikling for ${domain}`,
+  historySummary: (count, from, to) => `${String(count)} analyser. Total score ${String(from)} → ${String(to)}`,
+  historySince: date => `siden ${date}.`,
+  historyChanges: 'Endringer siden forrige analyse',
+  historyNoChanges: 'Ingen endringer i funnene.',
+  historyStandardWeights: 'Utviklingen bruker standardvektingen, så alle analyser kan sammenlignes.',
+
+  technicalTitle: 'Tekniske detaljer',
+  technicalDescription: 'Målingene bak poengsummene, for deg som skal gjøre jobben.',
+  metricLabels: {
+    responseTime: 'Responstid',
+    redirects: 'Videresendinger',
+    htmlSize: 'HTML-størrelse',
+    transferSize: 'Overført størrelse',
+    compression: 'Komprimering',
+    totalScripts: 'Scripts',
+    blockingScripts: 'Render-blokkerende scripts',
+    stylesheets: 'CSS-filer',
+    totalImages: 'Bilder',
+    imagesWithoutDimensions: 'Bilder uten width/height',
+    imagesWithLazyLoading: 'Bilder med lazy loading',
+    modernFormatImages: 'Bilder i WebP/AVIF',
+    iframes: 'Iframes',
+    thirdPartyOrigins: 'Eksterne domener',
+    thirdPartyScripts: 'Eksterne scripts',
+    titleLength: 'Title-lengde',
+    metaDescriptionLength: 'Meta description-lengde',
+    h1Count: 'H1-overskrifter',
+    canonical: 'Canonical URL',
+    openGraphTags: 'Open Graph-tags',
+    structuredData: 'Strukturert data',
+    lang: 'Språk',
+    robotsTxt: 'robots.txt',
+    sitemap: 'Sitemap',
+    sitemapUrls: 'URLer i sitemap',
+    https: 'HTTPS',
+    httpUpgrade: 'HTTP til HTTPS',
+    hstsMaxAge: 'HSTS-levetid',
+    referrerPolicy: 'Referrer-Policy',
+    securityTxt: 'security.txt',
+    insecureSubresources: 'Ressurser over HTTP',
+    cookies: 'Informasjonskapsler',
+    resourcesWithoutIntegrity: 'Eksterne filer uten integrity',
+    csp: 'Content-Security-Policy',
+    cspDirectives: 'CSP-direktiver',
+    viewport: 'Viewport',
+    mediaQueries: 'Media queries',
+    responsiveImages: 'Bilder med srcset',
+    manifest: 'Web app manifest',
+    appleTouchIcon: 'Apple touch-ikon',
+    imagesWithoutAlt: 'Bilder uten alt-tekst',
+    landmarks: 'Landemerker',
+    headingSkips: 'Hopp i overskriftsnivå',
+    formControls: 'Skjemafelt',
+    formControlsWithoutLabel: 'Skjemafelt uten ledetekst',
+    buttonsWithoutName: 'Knapper uten navn',
+    linksWithoutName: 'Lenker uten navn',
+    vagueLinks: 'Lite beskrivende lenker',
+    skipLink: 'Hopp til innhold-lenke',
+    positiveTabindex: 'Positiv tabindex'
+  },
+  headersTitle: 'Sikkerhetsheadere',
+  headerColumn: 'Header',
+  valueColumn: 'Verdi',
+  headerMissing: 'Mangler',
+  cookiesTitle: 'Informasjonskapsler',
+  cookieColumns: ['Navn', 'Attributter', 'Levetid', 'Problemer'],
+  sessionCookie: 'Økt',
+  days: n => `${String(n)} dager`,
+  cookieIssueLabels: {
+    'insecure': 'Mangler Secure',
+    'httponly-missing': 'Mangler HttpOnly',
+    'samesite-missing': 'Mangler SameSite',
+    'domain-broad': 'Delt med underdomener',
+    'lifetime-long': 'Over ett år'
+  },
+  thirdPartiesTitle: 'Eksterne ressurser',
+  thirdPartyColumns: ['Domene', 'Scripts', 'CSS', 'Iframes', 'Integrity'],
+  integrityMissing: n => `${String(n)} uten integrity`,
+  crossOriginMissing: n => `${String(n)} uten crossorigin`,
+
+  conformanceTitle: 'WCAG 2.1-krav',
+  conformanceDescription: 'Automatisk test av kravene uu-tilsynet fører tilsyn med (EN 301 549). De fleste kravene må også testes manuelt.',
+  conformanceCounts: (passed, failed, notTested) =>
+    `${String(passed)} bestått, ${String(failed)} brudd, ${String(notTested)} ikke testet`,
+  conformanceColumns: ['Krav', 'Navn', 'Nivå', 'Resultat'],
+  conformanceStatus: {
+    'passed': 'Bestått',
+    'failed': 'Brudd',
+    'not-tested': 'Ikke testet'
+  },
+  yes: 'Ja',
+  no: 'Nei',
+  unknown: 'Ukjent'
+};
+
+const en: ScannerStrings = {
+  sectionLabel: 'Free tool',
+  heading: 'Check your website',
+  headingAccent: 'now',
+  description: 'Get a complete analysis of speed, SEO and mobile-friendliness in seconds.',
+  urlLabel: 'Enter a web address',
+  urlPlaceholder: 'yoursite.com',
+  submit: 'Analyze for free',
+  submitting: 'Analyzing...',
+  segment: 'Industry',
+  profile: 'Weighting',
+  compareSummary: 'Compare with competitors',
+  compareDescription: 'Add up to three competitors to see the results side by side.',
+  competitor: n => `Competitor ${String(n)}`,
+  competitorPlaceholder: 'competitor.com',
+
+  analyzing: 'Analyzing your website...',
+  steps: [
+    'Connecting to server...',
+    'Analyzing speed...',
+    'Checking SEO elements...',
+    'Evaluating security...',
+    'Testing mobile-friendliness...',
+    'Checking accessibility...',
+    'Calculating total score...'
+  ],
+  serverError: status => `Server error: ${String(status)}`,
+  invalidResponse: 'Invalid response from server',
+  genericError: 'Could not analyze the website. Check that the URL is correct and try again.',
+  timeoutError: 'The request took too long. Please try again later.',
+  cancel: 'Cancel',
+  cancelled: 'The analysis was cancelled.',
+  resourcesFound: (scripts, stylesheets, images) =>
+    `Found ${String(scripts)} scripts, ${String(stylesheets)} CSS files and ${String(images)} images`,
+  crawlProgress: (done, total) => `Subpages analyzed: ${String(done)} of ${String(total)}`,
+
+  close: 'Close results',
+  totalOutOf: 'Total score out of 100',
+  profileNote: profile => `Total score weighted for ${profile.toLowerCase()}`,
+  criticalCount: n => `${String(n)} critical`,
+  warningCount: n => `${String(n)} warnings`,
+  successCount: n => `${String(n)} passed`,
+  openReport: 'Open shareable report',
+  downloadPdf: 'Download PDF',
+  downloadHtml: 'Download HTML',
+  quickWinsTitle: 'Quickest improvements',
+  quickWinsSubtitle: 'These changes give the most effect for the least effort',
+  impactLabels: { Høy: 'High', Medium: 'Medium', Lav: 'Low' },
+  impact: label => `${label} impact`,
+  points: n => `(+${String(n)} points)`,
+  howToFix: 'How to fix it',
+  benchmarkTitle: source => `Compared with ${source}`,
+  you: score => `You: ${String(score)}`,
+  average: score => `Average: ${String(score)}`,
+  betterThan: percentile => `Better than ${String(percentile)} %`,
+  now: 'Now',
+  potential: 'Potential',
+  potentialTitle: points => `We can raise your score by up to ${String(points)} points`,
+  potentialBody: areas => `Based on the analysis we can improve ${areas}, which directly affects visibility and conversion.`,
+  severalAreas: 'several areas',
+  potentialCta: 'Get a free improvement plan',
+  showAll: 'Show all',
+  onlyCritical: n => `Critical only (${String(n)})`,
+  onlyWarnings: n => `Warnings only (${String(n)})`,
+  onlySuccess: n => `Passed only (${String(n)})`,
+  severityLabels: { critical: 'Critical', warning: 'Warnings', success: 'Passed' },
+  detailsTitle: 'Detailed analysis',
+  moreInfo: 'More information',
+  whyItMatters: 'Why this matters',
+  readMore: 'Read more',
+  noProblems: 'No problems found',
+  ctaBadge: 'Free offer',
+  ctaTitle: 'Get a personal improvement plan',
+  ctaBody: 'We go through the analysis with you and make a concrete plan to improve your website. Completely free, no obligations.',
+  ctaTrust: ['15 min no-obligation call', 'Written report included', 'No lock-in period'],
+  ctaButton: 'Book a free review',
+
+  feedbackTitles: [
+    'Excellent! Your website is top class',
+    'Well done! But there is room for improvement',
+    'Your website needs attention',
+    'Critical! Your website has serious shortcomings'
+  ],
+  and: ' and ',
+  feedbackExcellent: 'Congratulations! Your website scores high on all important areas. ',
+  feedbackStrong: areas => `Especially good on ${areas}.`,
+  feedbackKeepGoing: ' Keep up the good work and keep the site up to date.',
+  feedbackGood: 'Your website performs well overall. ',
+  feedbackImprove: areas => `${areas} can be improved for even better results.`,
+  feedbackTweak: areas => `Small adjustments to ${areas} can take the site to the top level.`,
+  feedbackMaintain: 'Keep maintaining the site to hold on to the good results.',
+  feedbackAttention: 'Your website has several areas that need improvement. ',
+  feedbackNeedsAttention: areas => `${areas} needs attention. `,
+  feedbackPrioritize: areas => `${areas} should be prioritized. `,
+  feedbackAffects: 'This affects how customers find and experience your site.',
+  feedbackCritical: 'Your website has serious problems that can harm your business. ',
+  feedbackCriticalAreas: areas => `${areas} scores critically low. `,
+  feedbackActNow: 'We recommend dealing with this as soon as possible.',
+
+  comparisonTitle: 'Comparison with competitors',
+  yourSite: 'Your site',
+  totalScore: 'Total score',
+  versus: host => `Against ${host}`,
+  theyHave: n => `They have, you lack (${String(n)})`,
+  theyHaveEmpty: 'Nothing – you are at least as good on every point.',
+  youHave: n => `You have, they lack (${String(n)})`,
+  youHaveEmpty: 'No advantages on individual points yet.',
+  comparisonCtaTitle: 'Want to beat the competition?',
+  comparisonCtaBody: 'We go through the comparison with you and show what gives the biggest lead. Completely free, no obligations.',
+
+  dateLocale: 'en-GB',
+  trendLabel: 'Score over time',
+  total: 'Total',
+  historyTitle: domain => `Trend for ${domain}`,
+  historySummary: (count, from, to) => `${String(count)} analyses. Total score ${String(from)} → ${String(to)}`,
+  historySince: date => `since ${date}.`,
+  historyChanges: 'Changes since the previous analysis',
+  historyNoChanges: 'No changes in the findings.',
+  historyStandardWeights: 'The trend uses the standard weights, so every analysis can be compared.',
+
+  technicalTitle: 'Technical details',
+  technicalDescription: 'The measurements behind the scores, for whoever does the work.',
+  metricLabels: {
+    responseTime: 'Response time',
+    redirects: 'Redirects',
+    htmlSize: 'HTML size',
+    transferSize: 'Transferred size',
+    compression: 'Compression',
+    totalScripts: 'Scripts',
+    blockingScripts: 'Render-blocking scripts',
+    stylesheets: 'CSS files',
+    totalImages: 'Images',
+    imagesWithoutDimensions: 'Images without width/height',
+    imagesWithLazyLoading: 'Images with lazy loading',
+    modernFormatImages: 'Images in WebP/AVIF',
+    iframes: 'Iframes',
+    thirdPartyOrigins: 'External domains',
+    thirdPartyScripts: 'External scripts',
+    titleLength: 'Title length',
+    metaDescriptionLength: 'Meta description length',
+    h1Count: 'H1 headings',
+    canonical: 'Canonical URL',
+    openGraphTags: 'Open Graph tags',
+    structuredData: 'Structured data',
+    lang: 'Language',
+    robotsTxt: 'robots.txt',
+    sitemap: 'Sitemap',
+    sitemapUrls: 'URLs in sitemap',
+    https: 'HTTPS',
+    httpUpgrade: 'HTTP to HTTPS',
+    hstsMaxAge: 'HSTS lifetime',
+    referrerPolicy: 'Referrer-Policy',
+    securityTxt: 'security.txt',
+    insecureSubresources: 'Resources over HTTP',
+    cookies: 'Cookies',
+    resourcesWithoutIntegrity: 'External files without integrity',
+    csp: 'Content-Security-Policy',
+    cspDirectives: 'CSP directives',
+    viewport: 'Viewport',
+    mediaQueries: 'Media queries',
+    responsiveImages: 'Images with srcset',
+    manifest: 'Web app manifest',
+    appleTouchIcon: 'Apple touch icon',
+    imagesWithoutAlt: 'Images without alt text',
+    landmarks: 'Landmarks',
+    headingSkips: 'Skipped heading levels',
+    formControls: 'Form fields',
+    formControlsWithoutLabel: 'Form fields without a label',
+    buttonsWithoutName: 'Buttons without a name',
+    linksWithoutName: 'Links without a name',
+    vagueLinks: 'Vague links',
+    skipLink: 'Skip to content link',
+    positiveTabindex: 'Positive tabindex'
+  },
+  headersTitle: 'Security headers',
+  headerColumn: 'Header',
+  valueColumn: 'Value',
+  headerMissing: 'Missing',
+  cookiesTitle: 'Cookies',
+  cookieColumns: ['Name', 'Attributes', 'Lifetime', 'Issues'],
+  sessionCookie: 'Session',
+  days: n => `${String(n)} days`,
+  cookieIssueLabels: {
+    'insecure': 'Missing Secure',
+    'httponly-missing': 'Missing HttpOnly',
+    'samesite-missing': 'Missing SameSite',
+    'domain-broad': 'Shared with subdomains',
+    'lifetime-long': 'Over a year'
+  },
+  thirdPartiesTitle: 'External resources',
+  thirdPartyColumns: ['Domain', 'Scripts', 'CSS', 'Iframes', 'Integrity'],
+  integrityMissing: n => `${String(n)} without integrity`,
+  crossOriginMissing: n => `${String(n)} without crossorigin`,
+
+  conformanceTitle: 'WCAG 2.1 criteria',
+  conformanceDescription: 'Automated test of the criteria supervised under EN 301 549. Most criteria also need manual testing.',
+  conformanceCounts: (passed, failed, notTested) =>
+    `${String(passed)} passed, ${String(failed)} failed, ${String(notTested)} not tested`,
+  conformanceColumns: ['Criterion', 'Name', 'Level', 'Result'],
+  conformanceStatus: {
+    'passed': 'Passed',
+    'failed': 'Failed',
+    'not-tested': 'Not tested'
+  },
+  yes: 'Yes',
+  no: 'No',
+  unknown: 'Unknown'
+};
+
+export const SCANNER_STRINGS: Record<Locale, ScannerStrings> = { nb, en };
+
+/**
+ * Scanner locale for a page language such as 'no', 'nb-NO' or 'en-GB'
+ * Norwegian unless the page is in English
+ */
+export function getScannerLocale(lang: string | null | undefined): Locale {
+  return lang?.toLowerCase().startsWith('en') ? 'en' : DEFAULT_LOCALE;
+}
@@ -0,0 +1,151 @@
+/**
+ * Website analyzer pipeline
+ * Registers the default checks and evaluates all categories for a page
+ */
+
+import type { AnalysisResult, CategoryKey } from '../../types/api';
+import { accessibilityChecks, collectAccessibilityMetrics } from './checks/accessibility';
+import { collectMobileMetrics, mobileChecks } from './checks/mobile';
+import { collectPerformanceMetrics, performanceChecks } from './checks/performance';
+import { collectSecurityMetrics, getSecurityHeaders, securityChecks } from './checks/security';
+import { collectSeoMetrics, seoChecks } from './checks/seo';
+import { getCookieInventory, getCookies } from './cookies';
+import { parseDocument, type ParsedDocument } from './document';
+import { HTML_CONTENT_TYPES, fetchPage } from './fetch';
+import { registerCheck, runCategoryChecks } from './registry';
+import { extractResources } from './resources';
+import { CATEGORY_KEYS, buildAnalysisResult, buildCategoryResult } from './result';
+import { fetchSiteFiles, type SiteFiles } from './site';
+import { getThirdPartyInventory } from './third-party';
+import type { AnalysisHooks, CategoryEvaluation, MetricCollector, PageContext } from './types';
+
+const defaultChecks = [
+  ...performanceChecks,
+  ...seoChecks,
+  ...securityChecks,
+  ...mobileChecks,
+  ...accessibilityChecks
+];
+
+defaultChecks.forEach(registerCheck);
+
+const metricCollectors: Record<CategoryKey, MetricCollector> = {
+  performance: collectPerformanceMetrics,
+  seo: collectSeoMetrics,
+  security: collectSecurityMetrics,
+  mobile: collectMobileMetrics,
+  accessibility: collectAccessibilityMetrics
+};
+
+/**
+ * A fetched and analyzed page
+ */
+export interface AnalyzedPage {
+  /** API result for the page */
+  result: AnalysisResult;
+  /** URL the page was served from after redirects */
+  finalUrl: URL;
+  /** HTTP status of the final response */
+  status: number;
+  /** Parsed document, for follow-up work such as link discovery */
+  document: ParsedDocument;
+  /** robots.txt and sitemap of the site, reusable for other pages on it */
+  site: SiteFiles;
+}
+
+/**
+ * Run every enabled check against a page
+ * @param ctx Shared page context
+ * @param onEvaluated Called after each category, in evaluation order
+ * @returns Score and findings per category
+ */
+export function analyzePage(
+  ctx: PageContext,
+  onEvaluated?: (category: CategoryKey, evaluation: CategoryEvaluation) => void
+): Record<CategoryKey, CategoryEvaluation> {
+  const results = {} as Record<CategoryKey, CategoryEvaluation>;
+  for (const category of CATEGORY_KEYS) {
+    results[category] = {
+      ...runCategoryChecks(category, ctx),
+      metrics: metricCollectors[category](ctx),
+      ...(category === 'security' && {
+        headers: getSecurityHeaders(ctx.headers),
+        cookies: getCookieInventory(ctx.cookies, ctx.finalUrl),
+        thirdParties: getThirdPartyInventory(ctx.resources, ctx.finalUrl)
+      })
+    };
+    onEvaluated?.(category, results[category]);
+  }
+  return results;
+}
+
+/**
+ * Fetch a URL, parse it once and run all checks
+ * @param url URL to analyze (must already be validated)
+ * @param site Site files already fetched for the same origin, fetched here when omitted
+ * @param hooks Progress events for the fetch, the resources and each category
+ * @throws BlockedUrlError if the page redirects to an internal address
+ * @throws RedirectLimitError if the page redirects too many times
+ * @throws ContentTypeError if the URL does not serve HTML
+ * @throws AbortError if the page does not respond in time or hooks.signal aborts
+ */
+export async function analyzeUrl(url: URL, site?: SiteFiles, hooks: AnalysisHooks = {}): Promise<AnalyzedPage> {
+  const { onProgress, signal } = hooks;
+
+  // Start on the site files while the page downloads
+  const pendingSite = site ? Promise.resolve(site) : fetchSiteFiles(url);
+
+  const page = await fetchPage(url, { contentTypes: HTML_CONTENT_TYPES, signal });
+  const finalUrl = page.finalUrl;
+  onProgress?.({
+    type: 'fetch',
+    finalUrl: finalUrl.href,
+    status: page.response.status,
+    responseTime: page.responseTime,
+    redirects: page.redirects.length
+  });
+
+  const document = parseDocument(page.body);
+  const resources = extractResources(document);
+  onProgress?.({
+    type: 'resources',
+    scripts: resources.scripts.length,
+    stylesheets: resources.stylesheets.length,
+    images: resources.images.length,
+    iframes: resources.iframes.length
+  });
+
+  // Redirected to another origin: its own robots.txt and sitemap apply
+  const siteFiles = !site && finalUrl.origin !== url.origin
+    ? await fetchSiteFiles(finalUrl)
+    : await pendingSite;
+
+  const evaluations = analyzePage({
+    url,
+    finalUrl,
+    redirects: page.redirects,
+    html: page.body,
+    transferSize: page.transferSize,
+    decodedSize: page.decodedSize,
+    document,
+    headers: page.response.headers,
+    cookies: getCookies(page.response.headers),
+    responseTime: page.responseTime,
+    resources,
+    site: siteFiles
+  }, onProgress && ((category, evaluation) => {
+    onProgress({ type: 'category', category, result: buildCategoryResult(category, evaluation) });
+  }));
+
+  return {
+    result: {
+      ...buildAnalysisResult(url.href, page.responseTime, evaluations),
+      truncated: page.truncated,
+      redirects: page.redirects
+    },
+    finalUrl,
+    status: page.response.status,
+    document,
+    site: siteFiles
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Batch analysis
+ * Analyzes a list of URLs with bounded concurrency and summarizes the scores
+ */
+
+import type {
+  AnalysisResponse,
+  BatchAnalysisResponse,
+  BatchEntry,
+  BatchSummary,
+  BatchSummaryRow,
+  CategoryKey,
+  ScoringProfileId
+} from '../../types/api';
+import { isAnalysisResult } from '../../types/api';
+import { mapWithConcurrency } from '../../utils/async';
+import { DEFAULT_SEGMENT } from '../benchmarks';
+import { normalizeUrl } from './cache';
+import { DEFAULT_CRAWL_PAGES } from './crawl';
+import { DEFAULT_SCORING_PROFILE } from './profiles';
+import { CATEGORY_KEYS } from './result';
+import { describeAnalysisError, parseTargetUrl, runAnalysis } from './run';
+
+export const MAX_BATCH_URLS = 50;
+
+const BATCH_CONCURRENCY = 4;
+
+// Stays below the function's maxDuration (astro.config.mjs) so the response is still sent
+const BATCH_TIME_LIMIT = 50000; // 50 seconds
+
+const BATCH_TIMEOUT_MESSAGE = 'Rakk ikke å analysere URLen innen tidsgrensen. Prøv den igjen i en ny forespørsel.';
+
+/**
+ * Validate and analyze one submitted URL, turning failures into error entries
+ * URLs still pending when the deadline passes are reported as timed out.
+ */
+async function analyzeEntry(
+  value: string,
+  force: boolean,
+  profile: ScoringProfileId,
+  deadline: AbortSignal
+): Promise<AnalysisResponse> {
+  try {
+    deadline.throwIfAborted();
+    const url = parseTargetUrl(value);
+    return await runAnalysis(url, {
+      crawl: false,
+      maxPages: DEFAULT_CRAWL_PAGES,
+      force,
+      profile,
+      segment: DEFAULT_SEGMENT
+    }, { signal: deadline });
+  } catch (error: unknown) {
+    if (deadline.aborted) return { error: BATCH_TIMEOUT_MESSAGE };
+
+    const failure = describeAnalysisError(error);
+    if (failure.status === 500) {
+      console.error('Batch analyze error:', value, error);
+    }
+    return { error: failure.message };
+  }
+}
+
+function toSummaryRow(entry: BatchEntry): BatchSummaryRow {
+  if (!isAnalysisResult(entry.result)) {
+    return { url: entry.url, totalScore: null, scores: null, error: entry.result.error };
+  }
+
+  const scores = {} as Record<CategoryKey, number>;
+  for (const key of CATEGORY_KEYS) {
+    scores[key] = entry.result.categories[key].score;
+  }
+  return { url: entry.url, totalScore: entry.result.totalScore, scores, error: null };
+}
+
+function summarize(entries: BatchEntry[]): BatchSummary {
+  const rows = entries.map(toSummaryRow);
+  const scores = rows
+    .map(row => row.totalScore)
+    .filter((score): score is number => score !== null);
+
+  return {
+    total: rows.length,
+    succeeded: scores.length,
+    failed: rows.length - scores.length,
+    averageScore: scores.length > 0
+      ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length)
+      : null,
+    rows
+  };
+}
+
+/**
+ * Analyze a list of URLs
+ * Each URL goes through the same validation, SSRF checks and cache as a
+ * single analysis. URLs that normalize to the same address are analyzed once.
+ * The batch ends after BATCH_TIME_LIMIT; URLs it did not finish get error entries.
+ *
+ * @param urls Submitted URLs (at most MAX_BATCH_URLS)
+ * @param force Skip the cache and analyze every URL again
+ * @param profile Weight profile for the total scores
+ */
+export async function runBatchAnalysis(
+  urls: string[],
+  force = false,
+  profile: ScoringProfileId = DEFAULT_SCORING_PROFILE
+): Promise<BatchAnalysisResponse> {
+  const deadline = AbortSignal.timeout(BATCH_TIME_LIMIT);
+  const pending = new Map<string, Promise<AnalysisResponse>>();
+  const keys = urls.map(value => {
+    try {
+      return normalizeUrl(new URL(value));
+    } catch {
+      return value;
+    }
+  });
+
+  const results = await mapWithConcurrency(urls, BATCH_CONCURRENCY, (value, index) => {
+    const key = keys[index];
+    let analysis = pending.get(key);
+    if (!analysis) {
+      analysis = analyzeEntry(value, force, profile, deadline);
+      pending.set(key, analysis);
+    }
+    return analysis;
+  });
+
+  const entries = urls.map((url, index): BatchEntry => ({ url, result: results[index] }));
+  return { results: entries, summary: summarize(entries) };
+}
@@ -0,0 +1,108 @@
+/**
+ * Analysis result cache
+ * Repeated scans of the same URL within the TTL are served from storage
+ */
+
+import type { AnalysisResult, CacheInfo } from '../../types/api';
+import { validateAnalysisResult } from '../../types/api';
+import { getStore } from '../storage';
+
+export const DEFAULT_CACHE_TTL = 10 * 60 * 1000; // 10 minutes
+
+// Query parameters that only track campaigns and never change the page
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|msclkid|mc_cid|mc_eid)$/i;
+
+interface CacheEntry {
+  result: AnalysisResult;
+  cachedAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Cache lifetime in milliseconds
+ * Set ANALYSIS_CACHE_TTL (seconds) to override the default; 0 disables caching.
+ */
+export function getCacheTtl(): number {
+  const seconds = parseInt(process.env.ANALYSIS_CACHE_TTL ?? '', 10);
+  return Number.isNaN(seconds) || seconds < 0 ? DEFAULT_CACHE_TTL : seconds * 1000;
+}
+
+/**
+ * Normalize a URL so trivially different spellings share a cache entry
+ * Drops the fragment and tracking parameters and sorts the query string.
+ * Scheme, host and default port are already normalized by the URL parser.
+ */
+export function normalizeUrl(url: URL): string {
+  const normalized = new URL(url.href);
+  normalized.hash = '';
+
+  for (const key of [...normalized.searchParams.keys()]) {
+    if (TRACKING_PARAMS.test(key)) normalized.searchParams.delete(key);
+  }
+  normalized.searchParams.sort();
+
+  return normalized.href;
+}
+
+/**
+ * Build the cache key for an analysis
+ * @param url URL to analyze
+ * @param variant Options that change the result, e.g. 'crawl:10'
+ */
+export function getCacheKey(url: URL, variant?: string): string {
+  const key = `analysis:${normalizeUrl(url)}`;
+  return variant ? `${key}|${variant}` : key;
+}
+
+function isCacheEntry(value: unknown): value is CacheEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return typeof entry.cachedAt === 'string' &&
+    typeof entry.expiresAt === 'string' &&
+    validateAnalysisResult(entry.result);
+}
+
+/**
+ * Look up a cached analysis
+ * Storage failures are treated as a miss so scans keep working without the cache.
+ *
+ * @returns The cached result with cache metadata, or null on a miss
+ */
+export async function getCachedAnalysis(key: string): Promise<AnalysisResult | null> {
+  if (getCacheTtl() === 0) return null;
+
+  try {
+    const entry = await getStore().get(key);
+    if (!isCacheEntry(entry)) return null;
+
+    return { ...entry.result, cache: { hit: true, cachedAt: entry.cachedAt, expiresAt: entry.expiresAt } };
+  } catch (error: unknown) {
+    console.error('Analysis cache read failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Store a fresh analysis
+ * @returns Cache metadata to include in the response
+ */
+export async function cacheAnalysis(key: string, result: AnalysisResult): Promise<CacheInfo> {
+  const ttl = getCacheTtl();
+  if (ttl === 0) return { hit: false, cachedAt: null, expiresAt: null };
+
+  const now = Date.now();
+  const entry: CacheEntry = {
+    result,
+    cachedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttl).toISOString()
+  };
+
+  try {
+    await getStore().set(key, entry, { ttl });
+  } catch (error: unknown) {
+    console.error('Analysis cache write failed:', error);
+    return { hit: false, cachedAt: null, expiresAt: null };
+  }
+
+  return { hit: false, cachedAt: entry.cachedAt, expiresAt: entry.expiresAt };
+}
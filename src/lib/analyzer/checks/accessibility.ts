@@ -0,0 +1,416 @@
+/**
+ * Accessibility checks
+ * Language, alternative text, landmarks, headings, form labels, accessible names
+ * of buttons and links, skip links, focus order and autoplaying media. Each
+ * check lists the WCAG 2.1 success criteria it tests.
+ */
+
+import type { HTMLElement } from 'node-html-parser';
+import { getAttr, getDocumentLang, type ParsedDocument } from '../document';
+import type { Check, MetricCollector } from '../types';
+
+// Main, navigation, banner and contentinfo regions
+const LANDMARK_SELECTORS = [
+  'main, [role="main" i]',
+  'nav, [role="navigation" i]',
+  'header, [role="banner" i]',
+  'footer, [role="contentinfo" i]'
+];
+
+function countLandmarks(document: ParsedDocument): number {
+  return LANDMARK_SELECTORS.filter(selector => document.querySelector(selector) !== null).length;
+}
+
+// Input types that are labelled by their value or alt text, or not shown at all
+const UNLABELLED_INPUT_TYPES = new Set(['hidden', 'submit', 'reset', 'button', 'image']);
+
+// Link texts that say nothing about the destination out of context, compared in lower case
+const VAGUE_LINK_TEXTS = new Set([
+  'her',
+  'klikk her',
+  'trykk her',
+  'les mer',
+  'les mer her',
+  'se mer',
+  'mer',
+  'mer info',
+  'mer informasjon',
+  'lenke',
+  'here',
+  'click here',
+  'read more',
+  'learn more',
+  'more',
+  'more info',
+  'link'
+]);
+
+// Elements hidden from assistive technology are not announced, so they are not graded
+function isHidden(el: HTMLElement): boolean {
+  return el.closest('[hidden], [aria-hidden="true" i]') !== null;
+}
+
+function queryVisible(document: ParsedDocument, selector: string): HTMLElement[] {
+  return document.querySelectorAll(selector).filter(el => !isHidden(el));
+}
+
+// Text content plus the alternative text of images inside the element
+function getContentText(el: HTMLElement): string {
+  const alts = el.querySelectorAll('img[alt], [role="img" i][aria-label]')
+    .map(img => getAttr(img, 'alt') ?? getAttr(img, 'aria-label') ?? '');
+  return [el.text, ...alts].join(' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Accessible name of an element, simplified from the W3C algorithm:
+ * aria-labelledby, aria-label, content, then title
+ */
+function getAccessibleName(el: HTMLElement, document: ParsedDocument): string {
+  const labelledBy = getAttr(el, 'aria-labelledby');
+  if (labelledBy !== null) {
+    const text = labelledBy.split(/\s+/)
+      .map(id => document.getElementById(id)?.text ?? '')
+      .join(' ')
+      .trim();
+    if (text !== '') return text;
+  }
+  return getAttr(el, 'aria-label') ?? (getContentText(el) || (getAttr(el, 'title') ?? ''));
+}
+
+// Inputs, selects and text areas a user fills in
+function getFormControls(document: ParsedDocument): HTMLElement[] {
+  return queryVisible(document, 'input, select, textarea')
+    .filter(el => !UNLABELLED_INPUT_TYPES.has((el.getAttribute('type') ?? 'text').toLowerCase()));
+}
+
+// Placeholders disappear while typing and are not a label
+function hasLabel(el: HTMLElement, labelTargets: Set<string>): boolean {
+  const id = getAttr(el, 'id');
+  return (id !== null && labelTargets.has(id))
+    || el.closest('label') !== null
+    || getAttr(el, 'aria-label') !== null
+    || getAttr(el, 'aria-labelledby') !== null
+    || getAttr(el, 'title') !== null;
+}
+
+function getUnlabelledControls(document: ParsedDocument): HTMLElement[] {
+  const labelTargets = new Set(document.querySelectorAll('label[for]').map(label => label.getAttribute('for') ?? ''));
+  return getFormControls(document).filter(el => !hasLabel(el, labelTargets));
+}
+
+function getButtons(document: ParsedDocument): HTMLElement[] {
+  return queryVisible(document, 'button, [role="button" i], input[type="button" i], input[type="image" i]');
+}
+
+function getButtonName(el: HTMLElement, document: ParsedDocument): string {
+  if (el.tagName === 'INPUT') {
+    const type = (el.getAttribute('type') ?? '').toLowerCase();
+    return getAttr(el, 'aria-label') ?? getAttr(el, type === 'image' ? 'alt' : 'value') ?? getAttr(el, 'title') ?? '';
+  }
+  return getAccessibleName(el, document);
+}
+
+function getLinks(document: ParsedDocument): HTMLElement[] {
+  return queryVisible(document, 'a[href]');
+}
+
+// Links without any content, usually leftovers from templates or empty anchors
+function isEmptyLink(el: HTMLElement): boolean {
+  return el.childNodes.every(node => node.rawText.trim() === '' && !('tagName' in node));
+}
+
+function getUnnamedLinks(document: ParsedDocument): HTMLElement[] {
+  return getLinks(document).filter(link => getAccessibleName(link, document) === '');
+}
+
+function getVagueLinks(document: ParsedDocument): string[] {
+  return getLinks(document)
+    .map(link => getAccessibleName(link, document))
+    .filter(name => VAGUE_LINK_TEXTS.has(name.toLowerCase().replace(/[.!:»›→…]+$/u, '').trim()));
+}
+
+/**
+ * Heading levels that skip one or more levels on the way down, e.g. h2 followed by h4
+ */
+function getHeadingSkips(document: ParsedDocument): { from: string; to: string }[] {
+  const levels = queryVisible(document, 'h1, h2, h3, h4, h5, h6').map(el => Number(el.tagName.slice(1)));
+  const skips: { from: string; to: string }[] = [];
+  for (let i = 1; i < levels.length; i++) {
+    if (levels[i] > levels[i - 1] + 1) {
+      skips.push({ from: `h${String(levels[i - 1])}`, to: `h${String(levels[i])}` });
+    }
+  }
+  return skips;
+}
+
+/**
+ * Whether one of the first links jumps to an element on the page, e.g. href="#main"
+ */
+function hasSkipLink(document: ParsedDocument): boolean {
+  return document.querySelectorAll('a[href]').slice(0, 3).some(link => {
+    const target = /^#(.+)$/.exec(link.getAttribute('href') ?? '')?.[1];
+    return target !== undefined && document.getElementById(target) !== null;
+  });
+}
+
+function countPositiveTabindex(document: ParsedDocument): number {
+  return document.querySelectorAll('[tabindex]').filter(el => parseInt(el.getAttribute('tabindex') ?? '', 10) > 0).length;
+}
+
+export const accessibilityChecks: Check[] = [
+  {
+    id: 'accessibility.lang-missing',
+    category: 'accessibility',
+    penalty: 8,
+    severity: 'warning',
+    fixMinutes: 2,
+    docsUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/language-of-page.html',
+    wcag: ['3.1.1'],
+    evaluate({ document }) {
+      const lang = getDocumentLang(document);
+      if (lang === null) {
+        return { passed: false };
+      }
+      return { passed: true, params: { lang } };
+    }
+  },
+  {
+    id: 'accessibility.image-alt-missing',
+    category: 'accessibility',
+    penalty: 15,
+    severity: 'warning',
+    fixMinutes: 10,
+    docsUrl: 'https://www.w3.org/WAI/tutorials/images/',
+    wcag: ['1.1.1'],
+    evaluate({ document }) {
+      const imgTags = document.querySelectorAll('img');
+      const imagesWithoutAlt = imgTags.filter(img => !img.hasAttribute('alt')).length;
+
+      if (imagesWithoutAlt > 0) {
+        // 3 points per image, capped at the full penalty
+        return { passed: false, params: { count: imagesWithoutAlt }, scale: imagesWithoutAlt / 5 };
+      }
+      if (imgTags.length > 0) {
+        return { passed: true };
+      }
+      return null;
+    }
+  },
+  {
+    id: 'accessibility.landmarks-missing',
+    category: 'accessibility',
+    penalty: 6,
+    severity: 'warning',
+    fixMinutes: 20,
+    docsUrl: 'https://www.w3.org/WAI/ARIA/apg/practices/landmark-regions/',
+    wcag: ['1.3.1'],
+    evaluate({ document }) {
+      const landmarks = countLandmarks(document);
+      if (landmarks < 2) {
+        return { passed: false };
+      }
+      if (landmarks === LANDMARK_SELECTORS.length) {
+        return { passed: true };
+      }
+      return null;
+    }
+  },
+  {
+    id: 'accessibility.h1-missing',
+    category: 'accessibility',
+    penalty: 5,
+    severity: 'warning',
+    fixMinutes: 5,
+    docsUrl: 'https://www.w3.org/WAI/tutorials/page-structure/headings/',
+    wcag: ['1.3.1'],
+    evaluate({ document }) {
+      if (document.querySelector('h1')) return null;
+      return { passed: false };
+    }
+  },
+  {
+    id: 'accessibility.heading-level-skipped',
+    category: 'accessibility',
+    penalty: 3,
+    severity: 'info',
+    fixMinutes: 15,
+    docsUrl: 'https://www.w3.org/WAI/tutorials/page-structure/headings/#heading-ranks',
+    wcag: ['1.3.1'],
+    evaluate({ document }) {
+      if (queryVisible(document, 'h1, h2, h3, h4, h5, h6').length < 2) return null;
+
+      const skips = getHeadingSkips(document);
+      if (skips.length > 0) {
+        return { passed: false, params: { count: skips.length, from: skips[0].from, to: skips[0].to } };
+      }
+      return { passed: true };
+    }
+  },
+  {
+    id: 'accessibility.form-label-missing',
+    category: 'accessibility',
+    penalty: 12,
+    severity: 'warning',
+    fixMinutes: 15,
+    docsUrl: 'https://www.w3.org/WAI/tutorials/forms/labels/',
+    wcag: ['1.3.1', '3.3.2', '4.1.2'],
+    evaluate({ document }) {
+      const controls = getFormControls(document);
+      if (controls.length === 0) return null;
+
+      const unlabelled = getUnlabelledControls(document).length;
+      if (unlabelled > 0) {
+        return { passed: false, params: { count: unlabelled }, scale: unlabelled / 3 };
+      }
+      return { passed: true, params: { count: controls.length } };
+    }
+  },
+  {
+    id: 'accessibility.button-name-missing',
+    category: 'accessibility',
+    penalty: 10,
+    severity: 'warning',
+    fixMinutes: 10,
+    docsUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/name-role-value.html',
+    wcag: ['4.1.2'],
+    evaluate({ document }) {
+      const buttons = getButtons(document);
+      if (buttons.length === 0) return null;
+
+      // Icon buttons are the usual culprits: an SVG or icon font and no text
+      const unnamed = buttons.filter(button => getButtonName(button, document) === '').length;
+      if (unnamed > 0) {
+        return { passed: false, params: { count: unnamed }, scale: unnamed / 3 };
+      }
+      return { passed: true, params: { count: buttons.length } };
+    }
+  },
+  {
+    id: 'accessibility.link-name-missing',
+    category: 'accessibility',
+    penalty: 8,
+    severity: 'warning',
+    fixMinutes: 10,
+    docsUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/link-purpose-in-context.html',
+    wcag: ['2.4.4', '4.1.2'],
+    evaluate({ document }) {
+      const links = getLinks(document);
+      if (links.length === 0) return null;
+
+      const unnamedLinks = getUnnamedLinks(document);
+      // Empty links are reported by accessibility.link-empty, and a pass here would contradict it
+      const unnamed = unnamedLinks.filter(link => !isEmptyLink(link)).length;
+      if (unnamed > 0) {
+        return { passed: false, params: { count: unnamed }, scale: unnamed / 3 };
+      }
+      if (unnamedLinks.length > 0) return null;
+      return { passed: true, params: { count: links.length } };
+    }
+  },
+  {
+    id: 'accessibility.link-empty',
+    category: 'accessibility',
+    penalty: 5,
+    severity: 'warning',
+    fixMinutes: 5,
+    docsUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/link-purpose-in-context.html',
+    wcag: ['2.4.4', '4.1.2'],
+    evaluate({ document }) {
+      const empty = getUnnamedLinks(document).filter(isEmptyLink).length;
+      if (empty === 0) return null;
+      return { passed: false, params: { count: empty }, scale: empty / 3 };
+    }
+  },
+  {
+    id: 'accessibility.link-text-vague',
+    category: 'accessibility',
+    penalty: 4,
+    severity: 'info',
+    fixMinutes: 15,
+    docsUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/link-purpose-in-context.html',
+    wcag: ['2.4.4'],
+    evaluate({ document }) {
+      const vague = getVagueLinks(document);
+      if (vague.length === 0) return null;
+      return { passed: false, params: { count: vague.length, text: vague[0] }, scale: vague.length / 5 };
+    }
+  },
+  {
+    id: 'accessibility.skip-link-missing',
+    category: 'accessibility',
+    penalty: 3,
+    severity: 'info',
+    fixMinutes: 15,
+    docsUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/bypass-blocks.html',
+    wcag: ['2.4.1'],
+    evaluate({ document }) {
+      // Without navigation there are no repeated blocks to skip
+      if (!document.querySelector('nav, [role="navigation" i]')) return null;
+      return { passed: hasSkipLink(document) };
+    }
+  },
+  {
+    id: 'accessibility.tabindex-positive',
+    category: 'accessibility',
+    penalty: 5,
+    severity: 'warning',
+    fixMinutes: 10,
+    docsUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/focus-order.html',
+    wcag: ['2.4.3'],
+    evaluate({ document }) {
+      const count = countPositiveTabindex(document);
+      if (count === 0) {
+        return { passed: true };
+      }
+      return { passed: false, params: { count } };
+    }
+  },
+  {
+    id: 'accessibility.media-autoplay',
+    category: 'accessibility',
+    penalty: 6,
+    severity: 'warning',
+    fixMinutes: 10,
+    docsUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/audio-control.html',
+    wcag: ['1.4.2', '2.2.2'],
+    evaluate({ document }) {
+      const media = queryVisible(document, 'video[autoplay], audio[autoplay]');
+      if (media.length === 0) return null;
+
+      // Sound that starts by itself drowns out screen readers
+      const audible = media.filter(el => !el.hasAttribute('muted')).length;
+      if (audible > 0) {
+        return { passed: false, params: { count: audible } };
+      }
+      // Muted video still moves, and needs a way to pause it
+      const uncontrolled = media.filter(el => !el.hasAttribute('controls')).length;
+      if (uncontrolled > 0) {
+        return { passed: false, variant: 'muted', params: { count: uncontrolled }, scale: 1 / 2 };
+      }
+      return null;
+    }
+  }
+];
+
+/**
+ * Raw accessibility measurements: language, alternative text, page structure,
+ * form labels, accessible names and focus order
+ */
+export const collectAccessibilityMetrics: MetricCollector = ({ document }) => {
+  const images = document.querySelectorAll('img');
+  return {
+    lang: getDocumentLang(document),
+    totalImages: images.length,
+    imagesWithoutAlt: images.filter(img => !img.hasAttribute('alt')).length,
+    landmarks: countLandmarks(document),
+    h1Count: document.querySelectorAll('h1').length,
+    headingSkips: getHeadingSkips(document).length,
+    formControls: getFormControls(document).length,
+    formControlsWithoutLabel: getUnlabelledControls(document).length,
+    buttonsWithoutName: getButtons(document).filter(button => getButtonName(button, document) === '').length,
+    linksWithoutName: getUnnamedLinks(document).length,
+    vagueLinks: getVagueLinks(document).length,
+    skipLink: hasSkipLink(document),
+    positiveTabindex: countPositiveTabindex(document)
+  };
+};
@@ -0,0 +1,148 @@
+/**
+ * Mobile checks
+ * Viewport, responsive images, media queries and app icons
+ */
+
+import { getAttr, getMetaContent, hasRel, type ParsedDocument } from '../document';
+import type { Check, MetricCollector } from '../types';
+
+function getViewport(document: ParsedDocument): string | null {
+  const viewport = getMetaContent(document, 'viewport');
+  return viewport !== null && viewport.trim() !== '' ? viewport.toLowerCase().replace(/\s+/g, '') : null;
+}
+
+/**
+ * Collect media queries from inline styles and media attributes on stylesheets
+ */
+function getMediaQueries(document: ParsedDocument): string[] {
+  const queries: string[] = [];
+
+  for (const style of document.querySelectorAll('style')) {
+    queries.push(...(style.rawText.match(/@media[^{]*\{/gi) ?? []));
+  }
+  for (const link of document.querySelectorAll('link[media]')) {
+    const media = getAttr(link, 'media');
+    if (hasRel(link, 'stylesheet') && media !== null) queries.push(media);
+  }
+
+  return queries;
+}
+
+export const mobileChecks: Check[] = [
+  {
+    id: 'mobile.viewport-missing',
+    category: 'mobile',
+    penalty: 25,
+    severity: 'critical',
+    fixMinutes: 2,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTML/Viewport_meta_tag',
+    evaluate({ document }) {
+      if (getViewport(document) !== null) return null;
+      return { passed: false };
+    }
+  },
+  {
+    id: 'mobile.viewport-width-missing',
+    category: 'mobile',
+    penalty: 10,
+    severity: 'warning',
+    fixMinutes: 2,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTML/Viewport_meta_tag',
+    evaluate({ document }) {
+      const viewport = getViewport(document);
+      if (viewport === null) return null;
+      if (!viewport.includes('width=device-width')) {
+        return { passed: false };
+      }
+      return { passed: true };
+    }
+  },
+  {
+    id: 'mobile.viewport-zoom-blocked',
+    category: 'mobile',
+    penalty: 5,
+    severity: 'warning',
+    fixMinutes: 2,
+    docsUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/resize-text.html',
+    wcag: ['1.4.4'],
+    evaluate({ document }) {
+      const viewport = getViewport(document);
+      if (viewport === null) return null;
+      if (!viewport.includes('maximum-scale=1') && !viewport.includes('user-scalable=no')) {
+        return { passed: true };
+      }
+      return { passed: false };
+    }
+  },
+  {
+    id: 'mobile.responsive-images-missing',
+    category: 'mobile',
+    penalty: 8,
+    severity: 'warning',
+    fixMinutes: 60,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Learn/HTML/Multimedia_and_embedding/Responsive_images',
+    evaluate({ resources }) {
+      const images = resources.images;
+      const responsiveImages = images.filter(i => i.hasSrcset === true).length;
+      if (images.length <= 5 || responsiveImages > 0) return null;
+      return { passed: false };
+    }
+  },
+  {
+    id: 'mobile.media-queries-missing',
+    category: 'mobile',
+    penalty: 10,
+    severity: 'warning',
+    fixMinutes: 240,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/CSS/CSS_media_queries/Using_media_queries',
+    evaluate({ document }) {
+      const mediaQueries = getMediaQueries(document);
+      const mobileQueries = mediaQueries.filter(mq => /max-width|min-width|screen/i.test(mq)).length;
+
+      if (mobileQueries === 0) {
+        return { passed: false };
+      }
+      if (mobileQueries >= 3) {
+        return { passed: true, params: { count: mobileQueries } };
+      }
+      return null;
+    }
+  },
+  {
+    id: 'mobile.manifest-missing',
+    category: 'mobile',
+    penalty: 5,
+    severity: 'info',
+    fixMinutes: 20,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/Manifest',
+    evaluate({ document }) {
+      if (!document.querySelector('link[rel~="manifest" i][href]')) {
+        return { passed: false };
+      }
+      return { passed: true };
+    }
+  },
+  {
+    id: 'mobile.apple-touch-icon-missing',
+    category: 'mobile',
+    penalty: 3,
+    severity: 'info',
+    fixMinutes: 10,
+    docsUrl: 'https://developer.apple.com/library/archive/documentation/AppleApplications/Reference/SafariWebContent/ConfiguringWebApplications/ConfiguringWebApplications.html',
+    evaluate({ document }) {
+      if (document.querySelector('link[rel~="apple-touch-icon" i], link[rel~="apple-touch-icon-precomposed" i]')) return null;
+      return { passed: false };
+    }
+  }
+];
+
+/**
+ * Raw mobile measurements: viewport, responsive images and app icons
+ */
+export const collectMobileMetrics: MetricCollector = ({ document, resources }) => ({
+  viewport: getViewport(document),
+  mediaQueries: getMediaQueries(document).length,
+  responsiveImages: resources.images.filter(i => i.hasSrcset === true).length,
+  manifest: document.querySelector('link[rel~="manifest" i][href]') !== null,
+  appleTouchIcon: document.querySelector('link[rel~="apple-touch-icon" i], link[rel~="apple-touch-icon-precomposed" i]') !== null
+});
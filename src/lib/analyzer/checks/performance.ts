@@ -0,0 +1,329 @@
+/**
+ * Performance checks
+ * Server response time, redirects, document size, compression, resource loading
+ * and third-party origins
+ */
+
+import type { Resource, Resources } from '../resources';
+import { getThirdPartyResources } from '../third-party';
+import type { Check, CheckFinding, MetricCollector } from '../types';
+
+export const performanceChecks: Check[] = [
+  {
+    id: 'performance.server-response-critical',
+    category: 'performance',
+    penalty: 25,
+    severity: 'critical',
+    fixMinutes: 240,
+    docsUrl: 'https://web.dev/articles/ttfb',
+    evaluate({ responseTime }) {
+      if (responseTime <= 3000) return null;
+      return { passed: false, params: { ms: responseTime } };
+    }
+  },
+  {
+    id: 'performance.server-response-slow',
+    category: 'performance',
+    penalty: 15,
+    severity: 'warning',
+    fixMinutes: 120,
+    docsUrl: 'https://web.dev/articles/ttfb',
+    evaluate({ responseTime }) {
+      if (responseTime <= 1500 || responseTime > 3000) return null;
+      return { passed: false, params: { ms: responseTime } };
+    }
+  },
+  {
+    id: 'performance.server-response-moderate',
+    category: 'performance',
+    penalty: 8,
+    severity: 'info',
+    fixMinutes: 60,
+    docsUrl: 'https://web.dev/articles/ttfb',
+    evaluate({ responseTime }) {
+      if (responseTime > 1500) return null;
+      if (responseTime > 600) {
+        return { passed: false, params: { ms: responseTime } };
+      }
+      return { passed: true, params: { ms: responseTime } };
+    }
+  },
+  {
+    id: 'performance.redirect-chain-long',
+    category: 'performance',
+    penalty: 10,
+    severity: 'warning',
+    fixMinutes: 30,
+    docsUrl: 'https://developer.chrome.com/docs/lighthouse/performance/redirects',
+    evaluate({ redirects }) {
+      if (redirects.length <= 1) return null;
+      // Every extra hop is a full round trip before the page starts loading
+      return {
+        passed: false,
+        params: { count: redirects.length },
+        scale: (redirects.length - 1) / 3
+      };
+    }
+  },
+  {
+    id: 'performance.html-size-critical',
+    category: 'performance',
+    penalty: 15,
+    severity: 'critical',
+    fixMinutes: 120,
+    docsUrl: 'https://developer.chrome.com/docs/lighthouse/performance/total-byte-weight',
+    evaluate({ decodedSize }) {
+      if (decodedSize <= 500000) return null;
+      return { passed: false, params: { size: Math.round(decodedSize / 1024) } };
+    }
+  },
+  {
+    id: 'performance.html-size-large',
+    category: 'performance',
+    penalty: 10,
+    severity: 'warning',
+    fixMinutes: 60,
+    docsUrl: 'https://developer.chrome.com/docs/lighthouse/performance/total-byte-weight',
+    evaluate({ decodedSize }) {
+      if (decodedSize <= 200000 || decodedSize > 500000) return null;
+      return { passed: false, params: { size: Math.round(decodedSize / 1024) } };
+    }
+  },
+  {
+    id: 'performance.html-size-moderate',
+    category: 'performance',
+    penalty: 5,
+    severity: 'info',
+    fixMinutes: 30,
+    docsUrl: 'https://developer.chrome.com/docs/lighthouse/performance/total-byte-weight',
+    evaluate({ decodedSize }) {
+      if (decodedSize <= 100000 || decodedSize > 200000) return null;
+      return { passed: false, params: { size: Math.round(decodedSize / 1024) } };
+    }
+  },
+  {
+    id: 'performance.compression-missing',
+    category: 'performance',
+    penalty: 8,
+    severity: 'warning',
+    fixMinutes: 15,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Compression',
+    evaluate({ headers, transferSize, decodedSize }): CheckFinding | null {
+      // Compression makes little difference for very small documents
+      if (decodedSize < 10240) return null;
+
+      const encoding = headers.get('content-encoding')?.trim().toLowerCase();
+      if (!encoding || encoding === 'identity') {
+        return { passed: false, params: { size: Math.round(decodedSize / 1024) } };
+      }
+      if (transferSize === null) {
+        return { passed: true, params: { encoding } };
+      }
+      return {
+        passed: true,
+        variant: 'sizes',
+        params: { encoding, transferred: Math.round(transferSize / 1024), size: Math.round(decodedSize / 1024) }
+      };
+    }
+  },
+  {
+    id: 'performance.blocking-scripts-many',
+    category: 'performance',
+    penalty: 12,
+    severity: 'critical',
+    fixMinutes: 30,
+    docsUrl: 'https://developer.chrome.com/docs/lighthouse/performance/render-blocking-resources',
+    evaluate({ resources }) {
+      const blockingScripts = countBlockingScripts(resources.scripts);
+      if (blockingScripts <= 5) return null;
+      return { passed: false, params: { count: blockingScripts } };
+    }
+  },
+  {
+    id: 'performance.blocking-scripts',
+    category: 'performance',
+    penalty: 6,
+    severity: 'warning',
+    fixMinutes: 10,
+    docsUrl: 'https://developer.chrome.com/docs/lighthouse/performance/render-blocking-resources',
+    evaluate({ resources }) {
+      const blockingScripts = countBlockingScripts(resources.scripts);
+      if (blockingScripts <= 2 || blockingScripts > 5) return null;
+      return { passed: false, params: { count: blockingScripts } };
+    }
+  },
+  {
+    id: 'performance.script-count-excessive',
+    category: 'performance',
+    penalty: 8,
+    severity: 'warning',
+    fixMinutes: 120,
+    docsUrl: 'https://developer.chrome.com/docs/lighthouse/performance/bootup-time',
+    evaluate({ resources }) {
+      const totalScripts = resources.scripts.length;
+      if (totalScripts <= 25) return null;
+      return { passed: false, params: { count: totalScripts } };
+    }
+  },
+  {
+    id: 'performance.script-count-high',
+    category: 'performance',
+    penalty: 4,
+    severity: 'info',
+    fixMinutes: 60,
+    docsUrl: 'https://developer.chrome.com/docs/lighthouse/performance/bootup-time',
+    evaluate({ resources }) {
+      const totalScripts = resources.scripts.length;
+      if (totalScripts <= 15 || totalScripts > 25) return null;
+      return { passed: false, params: { count: totalScripts } };
+    }
+  },
+  {
+    id: 'performance.stylesheet-count-excessive',
+    category: 'performance',
+    penalty: 8,
+    severity: 'warning',
+    fixMinutes: 60,
+    docsUrl: 'https://developer.chrome.com/docs/lighthouse/performance/render-blocking-resources',
+    evaluate({ resources }) {
+      const externalStylesheets = resources.stylesheets.length;
+      if (externalStylesheets <= 8) return null;
+      return { passed: false, params: { count: externalStylesheets } };
+    }
+  },
+  {
+    id: 'performance.stylesheet-count-high',
+    category: 'performance',
+    penalty: 4,
+    severity: 'info',
+    fixMinutes: 30,
+    docsUrl: 'https://developer.chrome.com/docs/lighthouse/performance/render-blocking-resources',
+    evaluate({ resources }) {
+      const externalStylesheets = resources.stylesheets.length;
+      if (externalStylesheets <= 4 || externalStylesheets > 8) return null;
+      return { passed: false, params: { count: externalStylesheets } };
+    }
+  },
+  {
+    id: 'performance.image-dimensions-missing',
+    category: 'performance',
+    penalty: 6,
+    severity: 'warning',
+    fixMinutes: 15,
+    docsUrl: 'https://web.dev/articles/optimize-cls',
+    evaluate({ resources }) {
+      const imagesWithoutDimensions = resources.images.filter(i => i.hasDimensions !== true).length;
+      if (imagesWithoutDimensions <= 3) return null;
+      return { passed: false, params: { count: imagesWithoutDimensions } };
+    }
+  },
+  {
+    id: 'performance.image-lazy-loading-missing',
+    category: 'performance',
+    penalty: 5,
+    severity: 'warning',
+    fixMinutes: 15,
+    docsUrl: 'https://web.dev/articles/browser-level-image-lazy-loading',
+    evaluate({ resources }) {
+      const imagesWithoutLazyLoad = resources.images.filter((i, idx) => i.hasLazyLoading !== true && idx > 2).length;
+      if (imagesWithoutLazyLoad <= 5) return null;
+      return { passed: false, params: { count: imagesWithoutLazyLoad } };
+    }
+  },
+  {
+    id: 'performance.image-legacy-format',
+    category: 'performance',
+    penalty: 5,
+    severity: 'info',
+    fixMinutes: 60,
+    docsUrl: 'https://developer.chrome.com/docs/lighthouse/performance/uses-webp-images',
+    evaluate({ resources }) {
+      const images = resources.images;
+      const imagesWithoutModernFormat = images.filter(i => i.src !== null && i.src !== undefined && i.isModernFormat !== true).length;
+      if (imagesWithoutModernFormat <= 5 || images.length <= 3) return null;
+      return { passed: false, params: { count: imagesWithoutModernFormat } };
+    }
+  },
+  {
+    id: 'performance.iframe-lazy-loading-missing',
+    category: 'performance',
+    penalty: 3,
+    severity: 'info',
+    fixMinutes: 5,
+    docsUrl: 'https://web.dev/articles/iframe-lazy-loading',
+    evaluate({ resources }) {
+      const iframesWithoutLazy = resources.iframes.filter(i => i.hasLazyLoading !== true).length;
+      if (iframesWithoutLazy === 0) return null;
+      return { passed: false, params: { count: iframesWithoutLazy } };
+    }
+  },
+  {
+    id: 'performance.third-party-origins-excessive',
+    category: 'performance',
+    penalty: 8,
+    severity: 'warning',
+    fixMinutes: 120,
+    docsUrl: 'https://web.dev/articles/optimizing-content-efficiency-loading-third-party-javascript',
+    evaluate({ resources, finalUrl }) {
+      const origins = countThirdPartyOrigins(resources, finalUrl);
+      if (origins <= 10) return null;
+      return { passed: false, params: { count: origins } };
+    }
+  },
+  {
+    id: 'performance.third-party-origins-high',
+    category: 'performance',
+    penalty: 4,
+    severity: 'info',
+    fixMinutes: 60,
+    docsUrl: 'https://web.dev/articles/optimizing-content-efficiency-loading-third-party-javascript',
+    evaluate({ resources, finalUrl }) {
+      const origins = countThirdPartyOrigins(resources, finalUrl);
+      if (origins > 10) return null;
+      // Every origin costs a DNS lookup, a connection and a TLS handshake
+      if (origins > 5) {
+        return { passed: false, params: { count: origins } };
+      }
+      return { passed: true, params: { count: origins } };
+    }
+  }
+];
+
+/**
+ * Raw performance measurements: timing, document size and resource counts
+ */
+export const collectPerformanceMetrics: MetricCollector = ({
+  responseTime,
+  redirects,
+  headers,
+  transferSize,
+  decodedSize,
+  resources,
+  finalUrl
+}) => ({
+  responseTime,
+  redirects: redirects.length,
+  htmlSize: decodedSize,
+  transferSize,
+  compression: headers.get('content-encoding')?.trim().toLowerCase() ?? null,
+  totalScripts: resources.scripts.length,
+  blockingScripts: countBlockingScripts(resources.scripts),
+  stylesheets: resources.stylesheets.length,
+  totalImages: resources.images.length,
+  imagesWithoutDimensions: resources.images.filter(i => i.hasDimensions !== true).length,
+  imagesWithLazyLoading: resources.images.filter(i => i.hasLazyLoading === true).length,
+  modernFormatImages: resources.images.filter(i => i.isModernFormat === true).length,
+  iframes: resources.iframes.length,
+  thirdPartyOrigins: countThirdPartyOrigins(resources, finalUrl),
+  thirdPartyScripts: getThirdPartyResources(resources, finalUrl).filter(item => item.kind === 'script').length
+});
+
+// Distinct external origins serving scripts, stylesheets or iframes
+function countThirdPartyOrigins(resources: Resources, pageUrl: URL): number {
+  return new Set(getThirdPartyResources(resources, pageUrl).map(item => item.url.origin)).size;
+}
+
+// Module scripts are deferred by default, so only classic external scripts block rendering
+function countBlockingScripts(scripts: Resource[]): number {
+  return scripts.filter(s => s.isInline !== true && s.isAsync !== true && s.isDefer !== true && s.isModule !== true).length;
+}
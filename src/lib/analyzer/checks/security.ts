@@ -0,0 +1,710 @@
+/**
+ * Security checks
+ * HTTPS, HTTP to HTTPS redirects, HSTS, CSP quality and other security headers,
+ * mixed content, cookies, Subresource Integrity for third-party resources and security.txt
+ */
+
+import type { CookieIssue, SecurityHeaderStatus } from '../../../types/api';
+import { auditCookie, isSessionCookie, type Cookie } from '../cookies';
+import { getEnforcedCsp, getScriptSources, getWildcardSources, hasKeyword, usesNonceOrHash } from '../csp';
+import { getAttr, parseSrcset, type ParsedDocument } from '../document';
+import {
+  HSTS_PRELOAD_MAX_AGE,
+  UNSAFE_REFERRER_POLICIES,
+  getHeaderToken,
+  getPreloadGaps,
+  getReferrerPolicy,
+  parseHsts,
+  parsePermissionsPolicy,
+  type HstsPolicy
+} from '../security-headers';
+import { getThirdPartyResources, lacksCrossOrigin, supportsIntegrity, type ThirdPartyResource } from '../third-party';
+import type { Check, CheckFinding, MetricCollector, PageContext } from '../types';
+
+// Response headers reported in the security header matrix
+const SECURITY_HEADERS = [
+  'Strict-Transport-Security',
+  'Content-Security-Policy',
+  'Content-Security-Policy-Report-Only',
+  'X-Frame-Options',
+  'X-Content-Type-Options',
+  'Referrer-Policy',
+  'Permissions-Policy',
+  'Cross-Origin-Opener-Policy',
+  'Cross-Origin-Embedder-Policy',
+  'Cross-Origin-Resource-Policy'
+];
+
+// Elements and attributes that make the browser load a subresource
+const SUBRESOURCE_ATTRIBUTES: [selector: string, attribute: string][] = [
+  ['script[src]', 'src'],
+  ['link[rel~="stylesheet" i][href]', 'href'],
+  ['img[src]', 'src'],
+  ['iframe[src]', 'src'],
+  ['video[src], audio[src], source[src], track[src], embed[src]', 'src'],
+  ['object[data]', 'data']
+];
+
+/**
+ * Find subresources loaded over plain HTTP
+ * Ordinary links to http:// pages are navigation, not mixed content, and are ignored
+ */
+function getInsecureSubresources(document: ParsedDocument): string[] {
+  const urls: string[] = [];
+
+  for (const [selector, attribute] of SUBRESOURCE_ATTRIBUTES) {
+    for (const el of document.querySelectorAll(selector)) {
+      const value = getAttr(el, attribute);
+      if (value !== null) urls.push(value);
+    }
+  }
+  for (const el of document.querySelectorAll('img[srcset], source[srcset]')) {
+    urls.push(...parseSrcset(getAttr(el, 'srcset')));
+  }
+
+  return urls.filter(url => /^http:\/\/(?!localhost)/i.test(url));
+}
+
+// Features that expose personal data or devices; allowing them for every origin defeats the policy
+const POWERFUL_FEATURES = ['camera', 'microphone', 'geolocation', 'payment', 'usb', 'serial', 'bluetooth', 'hid', 'display-capture'];
+
+// Expires further ahead than this makes a stale security.txt likely (RFC 9116 recommends under a year)
+const SECURITY_TXT_MAX_VALIDITY = 366 * 24 * 60 * 60 * 1000;
+
+const SECONDS_PER_DAY = 86400;
+
+/**
+ * The HSTS policy browsers apply, null when the header is missing, invalid or max-age=0
+ */
+function getActiveHsts(headers: Headers): HstsPolicy | null {
+  const header = headers.get('strict-transport-security');
+  if (!header) return null;
+  const policy = parseHsts(header);
+  return policy.maxAge !== null && policy.maxAge > 0 ? policy : null;
+}
+
+// Names of the first few cookies, for messages
+function listCookies(cookies: Cookie[]): string {
+  const names = cookies.slice(0, 3).map(cookie => cookie.name).join(', ');
+  return cookies.length > 3 ? `${names} …` : names;
+}
+
+// Hosts of the first few resources, for messages
+function listHosts(items: ThirdPartyResource[]): string {
+  const hosts = [...new Set(items.map(item => item.url.hostname))];
+  const names = hosts.slice(0, 3).join(', ');
+  return hosts.length > 3 ? `${names} …` : names;
+}
+
+/**
+ * Fail when any cookie has the issue
+ * @param passWhenClean Report a pass when the page sets cookies and none has the issue
+ */
+function evaluateCookies({ cookies, finalUrl }: PageContext, issue: CookieIssue, passWhenClean: boolean): CheckFinding | null {
+  const affected = cookies.filter(cookie => auditCookie(cookie, finalUrl).includes(issue));
+  if (affected.length > 0) {
+    return { passed: false, params: { count: affected.length, names: listCookies(affected) } };
+  }
+  return passWhenClean ? { passed: true, params: { count: cookies.length } } : null;
+}
+
+export const securityChecks: Check[] = [
+  {
+    id: 'security.https-missing',
+    category: 'security',
+    penalty: 30,
+    severity: 'critical',
+    fixMinutes: 30,
+    docsUrl: 'https://web.dev/articles/why-https-matters',
+    evaluate({ finalUrl }) {
+      if (finalUrl.protocol !== 'https:') {
+        return { passed: false };
+      }
+      return { passed: true };
+    }
+  },
+  {
+    id: 'security.https-redirect-missing',
+    category: 'security',
+    penalty: 10,
+    severity: 'warning',
+    fixMinutes: 15,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Redirections',
+    evaluate({ url, finalUrl, site }) {
+      if (finalUrl.protocol !== 'https:') return null;
+
+      // The requested HTTP URL itself ended up on HTTPS
+      if (url.protocol === 'http:' || site.https.status === 'upgraded') {
+        return { passed: true };
+      }
+      if (site.https.status === 'missing') {
+        return { passed: false };
+      }
+      return null;
+    }
+  },
+  {
+    id: 'security.hsts-missing',
+    category: 'security',
+    penalty: 12,
+    severity: 'warning',
+    fixMinutes: 10,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Strict-Transport-Security',
+    evaluate({ headers }) {
+      const header = headers.get('strict-transport-security');
+      if (!header) {
+        return { passed: false };
+      }
+      // Browsers ignore a policy without a valid max-age, and max-age=0 removes HSTS
+      const { maxAge } = parseHsts(header);
+      if (maxAge === null) {
+        return { passed: false, variant: 'invalid' };
+      }
+      if (maxAge === 0) {
+        return { passed: false, variant: 'disabled' };
+      }
+      return { passed: true };
+    }
+  },
+  {
+    id: 'security.hsts-max-age-short',
+    category: 'security',
+    penalty: 4,
+    severity: 'warning',
+    fixMinutes: 5,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Strict-Transport-Security#max-ageexpire-time',
+    evaluate({ headers }) {
+      const hsts = getActiveHsts(headers);
+      if (!hsts?.maxAge) return null;
+
+      const days = Math.floor(hsts.maxAge / SECONDS_PER_DAY);
+      if (hsts.maxAge < HSTS_PRELOAD_MAX_AGE) {
+        return { passed: false, params: { days } };
+      }
+      return { passed: true, params: { days } };
+    }
+  },
+  {
+    id: 'security.hsts-subdomains-missing',
+    category: 'security',
+    penalty: 2,
+    severity: 'info',
+    fixMinutes: 15,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Strict-Transport-Security#includesubdomains',
+    evaluate({ headers }) {
+      const hsts = getActiveHsts(headers);
+      if (!hsts) return null;
+      return { passed: hsts.includeSubDomains };
+    }
+  },
+  {
+    id: 'security.hsts-preload-ineligible',
+    category: 'security',
+    penalty: 2,
+    severity: 'info',
+    fixMinutes: 15,
+    docsUrl: 'https://hstspreload.org/',
+    evaluate({ headers }) {
+      const hsts = getActiveHsts(headers);
+      // Preloading is opt-in, so only sites asking for it are graded
+      if (!hsts?.preload) return null;
+
+      const gaps = getPreloadGaps(hsts);
+      if (gaps.length > 0) {
+        return { passed: false, params: { missing: gaps.join(', ') } };
+      }
+      return { passed: true };
+    }
+  },
+  {
+    id: 'security.csp-missing',
+    category: 'security',
+    penalty: 10,
+    severity: 'warning',
+    fixMinutes: 120,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/CSP',
+    evaluate({ headers }) {
+      if (headers.get('content-security-policy')) {
+        return { passed: true };
+      }
+      // A report-only policy is graded by security.csp-report-only
+      if (headers.get('content-security-policy-report-only')) return null;
+      return { passed: false };
+    }
+  },
+  {
+    id: 'security.csp-report-only',
+    category: 'security',
+    penalty: 7,
+    severity: 'warning',
+    fixMinutes: 60,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Content-Security-Policy-Report-Only',
+    evaluate({ headers }) {
+      if (headers.get('content-security-policy') || !headers.get('content-security-policy-report-only')) return null;
+      return { passed: false };
+    }
+  },
+  {
+    id: 'security.csp-default-src-missing',
+    category: 'security',
+    penalty: 6,
+    severity: 'warning',
+    fixMinutes: 30,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Content-Security-Policy/default-src',
+    evaluate({ headers }) {
+      const policy = getEnforcedCsp(headers);
+      if (!policy) return null;
+      if (policy.has('default-src')) {
+        return { passed: true };
+      }
+      // Without script-src either, the policy does not restrict scripts at all
+      if (!policy.has('script-src')) {
+        return { passed: false, variant: 'scripts' };
+      }
+      return { passed: false, scale: 1 / 3 };
+    }
+  },
+  {
+    id: 'security.csp-object-src-missing',
+    category: 'security',
+    penalty: 1,
+    severity: 'info',
+    fixMinutes: 5,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Content-Security-Policy/object-src',
+    evaluate({ headers }) {
+      const policy = getEnforcedCsp(headers);
+      if (!policy) return null;
+      const sources = policy.get('object-src') ?? policy.get('default-src') ?? [];
+      if (sources.length === 1 && hasKeyword(sources, "'none'")) return null;
+      return { passed: false };
+    }
+  },
+  {
+    id: 'security.csp-base-uri-missing',
+    category: 'security',
+    penalty: 1,
+    severity: 'info',
+    fixMinutes: 5,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Content-Security-Policy/base-uri',
+    evaluate({ headers }) {
+      const policy = getEnforcedCsp(headers);
+      // base-uri does not fall back to default-src
+      if (!policy || policy.has('base-uri')) return null;
+      return { passed: false };
+    }
+  },
+  {
+    id: 'security.csp-unsafe-inline',
+    category: 'security',
+    penalty: 3,
+    severity: 'warning',
+    fixMinutes: 240,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Content-Security-Policy/script-src#unsafe_inline_script',
+    evaluate({ headers }) {
+      const policy = getEnforcedCsp(headers);
+      const sources = policy && getScriptSources(policy);
+      if (!sources) return null;
+      // Browsers ignore 'unsafe-inline' when a nonce, hash or 'strict-dynamic' is present
+      if (!hasKeyword(sources, "'unsafe-inline'") || usesNonceOrHash(sources) || hasKeyword(sources, "'strict-dynamic'")) return null;
+      return { passed: false };
+    }
+  },
+  {
+    id: 'security.csp-unsafe-eval',
+    category: 'security',
+    penalty: 1,
+    severity: 'warning',
+    fixMinutes: 120,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Content-Security-Policy/script-src#unsafe_eval_expressions',
+    evaluate({ headers }) {
+      const policy = getEnforcedCsp(headers);
+      const sources = policy && getScriptSources(policy);
+      if (!sources || !hasKeyword(sources, "'unsafe-eval'")) return null;
+      return { passed: false };
+    }
+  },
+  {
+    id: 'security.csp-wildcard-source',
+    category: 'security',
+    penalty: 2,
+    severity: 'warning',
+    fixMinutes: 60,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Content-Security-Policy/Sources',
+    evaluate({ headers }) {
+      const policy = getEnforcedCsp(headers);
+      const sources = policy && getScriptSources(policy);
+      if (!sources) return null;
+      const wildcards = getWildcardSources(sources);
+      if (wildcards.length === 0) return null;
+      return { passed: false, params: { sources: wildcards.join(' ') } };
+    }
+  },
+  {
+    id: 'security.csp-nonce-missing',
+    category: 'security',
+    penalty: 1,
+    severity: 'info',
+    fixMinutes: 240,
+    docsUrl: 'https://web.dev/articles/strict-csp',
+    evaluate({ headers }) {
+      const policy = getEnforcedCsp(headers);
+      const sources = policy && getScriptSources(policy);
+      if (!sources) return null;
+      if (usesNonceOrHash(sources) || hasKeyword(sources, "'strict-dynamic'")) {
+        return { passed: true };
+      }
+      // A policy that blocks every script needs neither, and 'unsafe-inline' is reported on its own
+      if (hasKeyword(sources, "'none'") || hasKeyword(sources, "'unsafe-inline'")) return null;
+      return { passed: false };
+    }
+  },
+  {
+    id: 'security.clickjacking-unprotected',
+    category: 'security',
+    penalty: 8,
+    severity: 'warning',
+    fixMinutes: 10,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/X-Frame-Options',
+    evaluate({ headers }) {
+      const xfo = headers.get('x-frame-options');
+      const csp = getEnforcedCsp(headers);
+      if (!xfo && !csp?.has('frame-ancestors')) {
+        return { passed: false };
+      }
+      return { passed: true };
+    }
+  },
+  {
+    id: 'security.nosniff-missing',
+    category: 'security',
+    penalty: 6,
+    severity: 'warning',
+    fixMinutes: 5,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/X-Content-Type-Options',
+    evaluate({ headers }) {
+      if (headers.get('x-content-type-options')) return null;
+      return { passed: false };
+    }
+  },
+  {
+    id: 'security.referrer-policy-missing',
+    category: 'security',
+    penalty: 2,
+    severity: 'info',
+    fixMinutes: 5,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Referrer-Policy',
+    evaluate({ headers, document }) {
+      const policy = getReferrerPolicy(headers, document);
+      if (policy === null) {
+        return { passed: false };
+      }
+      return { passed: true, params: { policy } };
+    }
+  },
+  {
+    id: 'security.referrer-policy-unsafe',
+    category: 'security',
+    penalty: 4,
+    severity: 'warning',
+    fixMinutes: 5,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Referrer-Policy#directives',
+    evaluate({ headers, document }) {
+      const policy = getReferrerPolicy(headers, document);
+      if (policy === null || !UNSAFE_REFERRER_POLICIES.has(policy)) return null;
+      return { passed: false, params: { policy } };
+    }
+  },
+  {
+    id: 'security.permissions-policy-missing',
+    category: 'security',
+    penalty: 2,
+    severity: 'info',
+    fixMinutes: 15,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Permissions-Policy',
+    evaluate({ headers }) {
+      const header = headers.get('permissions-policy');
+      if (!header) {
+        return { passed: false };
+      }
+      return { passed: true, params: { count: parsePermissionsPolicy(header).size } };
+    }
+  },
+  {
+    id: 'security.permissions-policy-wildcard',
+    category: 'security',
+    penalty: 2,
+    severity: 'warning',
+    fixMinutes: 10,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Permissions-Policy#allowlists',
+    evaluate({ headers }) {
+      const header = headers.get('permissions-policy');
+      if (!header) return null;
+
+      const policy = parsePermissionsPolicy(header);
+      const features = POWERFUL_FEATURES.filter(feature => policy.get(feature)?.includes('*'));
+      if (features.length === 0) return null;
+      return { passed: false, params: { features: features.join(', ') } };
+    }
+  },
+  {
+    id: 'security.coop-missing',
+    category: 'security',
+    penalty: 2,
+    severity: 'info',
+    fixMinutes: 15,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Cross-Origin-Opener-Policy',
+    evaluate({ headers }) {
+      const value = getHeaderToken(headers, 'cross-origin-opener-policy');
+      if (value === 'same-origin' || value === 'same-origin-allow-popups' || value === 'noopener-allow-popups') {
+        return { passed: true, params: { value } };
+      }
+      // unsafe-none is the default, so sending it explicitly changes nothing
+      return value === 'unsafe-none' ? { passed: false, variant: 'unsafe-none' } : { passed: false };
+    }
+  },
+  {
+    id: 'security.coep-missing',
+    category: 'security',
+    penalty: 1,
+    severity: 'info',
+    fixMinutes: 60,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Cross-Origin-Embedder-Policy',
+    // Isolation is opt-in and breaks embeds, so only a header the browser ignores costs points
+    evaluate({ headers }) {
+      const value = getHeaderToken(headers, 'cross-origin-embedder-policy');
+      if (value === 'require-corp' || value === 'credentialless') {
+        return { passed: true, params: { value } };
+      }
+      if (value === null) return { passed: false, scale: 0 };
+      if (value === 'unsafe-none') return { passed: false, variant: 'unsafe-none', scale: 0 };
+      return { passed: false, variant: 'invalid', params: { value } };
+    }
+  },
+  {
+    id: 'security.corp-missing',
+    category: 'security',
+    penalty: 1,
+    severity: 'info',
+    fixMinutes: 10,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Cross-Origin-Resource-Policy',
+    // Only a header the browser ignores costs points; a missing one is just noted
+    evaluate({ headers }) {
+      const value = getHeaderToken(headers, 'cross-origin-resource-policy');
+      if (value === 'same-origin' || value === 'same-site' || value === 'cross-origin') {
+        return { passed: true, params: { value } };
+      }
+      if (value === null) return { passed: false, scale: 0 };
+      return { passed: false, variant: 'invalid', params: { value } };
+    }
+  },
+  {
+    id: 'security.mixed-content',
+    category: 'security',
+    penalty: 5,
+    severity: 'warning',
+    fixMinutes: 30,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/Security/Mixed_content',
+    evaluate({ finalUrl, document }) {
+      const httpResources = getInsecureSubresources(document);
+      if (httpResources.length === 0 || finalUrl.protocol !== 'https:') return null;
+      return { passed: false, params: { count: httpResources.length } };
+    }
+  },
+  {
+    id: 'security.cookie-insecure',
+    category: 'security',
+    penalty: 8,
+    severity: 'warning',
+    fixMinutes: 15,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Cookies#restrict_access_to_cookies',
+    evaluate(ctx) {
+      if (ctx.cookies.length === 0 || ctx.finalUrl.protocol !== 'https:') return null;
+      return evaluateCookies(ctx, 'insecure', true);
+    }
+  },
+  {
+    id: 'security.cookie-httponly-missing',
+    category: 'security',
+    penalty: 8,
+    severity: 'warning',
+    fixMinutes: 15,
+    docsUrl: 'https://owasp.org/www-community/HttpOnly',
+    evaluate(ctx) {
+      if (!ctx.cookies.some(cookie => isSessionCookie(cookie.name))) return null;
+      return evaluateCookies(ctx, 'httponly-missing', true);
+    }
+  },
+  {
+    id: 'security.cookie-samesite-missing',
+    category: 'security',
+    penalty: 4,
+    severity: 'warning',
+    fixMinutes: 10,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Set-Cookie#samesitesamesite-value',
+    evaluate(ctx) {
+      if (ctx.cookies.length === 0) return null;
+      return evaluateCookies(ctx, 'samesite-missing', true);
+    }
+  },
+  {
+    id: 'security.cookie-domain-broad',
+    category: 'security',
+    penalty: 3,
+    severity: 'info',
+    fixMinutes: 15,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Cookies#define_where_cookies_are_sent',
+    evaluate(ctx) {
+      return evaluateCookies(ctx, 'domain-broad', false);
+    }
+  },
+  {
+    id: 'security.cookie-lifetime-long',
+    category: 'security',
+    penalty: 2,
+    severity: 'info',
+    fixMinutes: 10,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTTP/Cookies#removal_defining_the_lifetime_of_a_cookie',
+    evaluate(ctx) {
+      return evaluateCookies(ctx, 'lifetime-long', false);
+    }
+  },
+  {
+    id: 'security.sri-missing',
+    category: 'security',
+    penalty: 6,
+    severity: 'warning',
+    fixMinutes: 30,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/Security/Subresource_Integrity',
+    evaluate({ resources, finalUrl }) {
+      const protectable = getThirdPartyResources(resources, finalUrl).filter(supportsIntegrity);
+      if (protectable.length === 0) return null;
+
+      // A compromised CDN can change unprotected files for every site that loads them
+      const unprotected = protectable.filter(item => item.resource.hasIntegrity !== true);
+      if (unprotected.length > 0) {
+        return { passed: false, params: { count: unprotected.length, hosts: listHosts(unprotected) } };
+      }
+      return { passed: true, params: { count: protectable.length } };
+    }
+  },
+  {
+    id: 'security.sri-crossorigin-missing',
+    category: 'security',
+    penalty: 3,
+    severity: 'warning',
+    fixMinutes: 5,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTML/Attributes/crossorigin',
+    evaluate({ resources, finalUrl }) {
+      const affected = getThirdPartyResources(resources, finalUrl).filter(lacksCrossOrigin);
+      if (affected.length === 0) return null;
+      return { passed: false, params: { count: affected.length, hosts: listHosts(affected) } };
+    }
+  },
+  {
+    id: 'security.security-txt-missing',
+    category: 'security',
+    penalty: 3,
+    severity: 'info',
+    fixMinutes: 15,
+    docsUrl: 'https://securitytxt.org/',
+    evaluate({ site }) {
+      if (site.securityTxt.status === 'error') return null;
+      return { passed: site.securityTxt.status === 'found' };
+    }
+  },
+  {
+    id: 'security.security-txt-contact-missing',
+    category: 'security',
+    penalty: 3,
+    severity: 'warning',
+    fixMinutes: 5,
+    docsUrl: 'https://www.rfc-editor.org/rfc/rfc9116#section-2.5.3',
+    evaluate({ site }) {
+      if (site.securityTxt.status !== 'found') return null;
+      const { contacts } = site.securityTxt.securityTxt;
+      if (contacts.length === 0) {
+        return { passed: false };
+      }
+      return { passed: true, params: { contact: contacts[0] } };
+    }
+  },
+  {
+    id: 'security.security-txt-expires',
+    category: 'security',
+    penalty: 2,
+    severity: 'warning',
+    fixMinutes: 5,
+    docsUrl: 'https://www.rfc-editor.org/rfc/rfc9116#section-2.5.5',
+    evaluate({ site }) {
+      if (site.securityTxt.status !== 'found') return null;
+      const { expires } = site.securityTxt.securityTxt;
+      if (expires === null) {
+        return { passed: false, variant: 'missing' };
+      }
+
+      const time = Date.parse(expires);
+      if (Number.isNaN(time)) {
+        return { passed: false, variant: 'invalid', params: { expires } };
+      }
+
+      // Researchers must not trust an expired file
+      const date = new Date(time).toISOString().slice(0, 10);
+      if (time < Date.now()) {
+        return { passed: false, variant: 'expired', params: { date } };
+      }
+      if (time - Date.now() > SECURITY_TXT_MAX_VALIDITY) {
+        return { passed: false, variant: 'distant', params: { date }, scale: 1 / 2 };
+      }
+      return { passed: true, params: { date } };
+    }
+  },
+  {
+    id: 'security.security-txt-unsigned',
+    category: 'security',
+    penalty: 1,
+    severity: 'info',
+    fixMinutes: 30,
+    docsUrl: 'https://www.rfc-editor.org/rfc/rfc9116#section-2.3',
+    evaluate({ site }) {
+      if (site.securityTxt.status !== 'found') return null;
+      return { passed: site.securityTxt.securityTxt.signed };
+    }
+  }
+];
+
+/**
+ * Raw security measurements: protocol, HTTP upgrade, HSTS lifetime, referrer policy,
+ * security.txt, insecure subresources, cookies and third-party resources without integrity
+ */
+export const collectSecurityMetrics: MetricCollector = ({ finalUrl, headers, document, site, cookies, resources }) => ({
+  https: finalUrl.protocol === 'https:',
+  csp: headers.get('content-security-policy')
+    ? 'enforced'
+    : headers.get('content-security-policy-report-only') ? 'report-only' : 'missing',
+  cspDirectives: getEnforcedCsp(headers)?.size ?? 0,
+  httpUpgrade: site.https.status,
+  insecureSubresources: getInsecureSubresources(document).length,
+  cookies: cookies.length,
+  hstsMaxAge: getHstsDays(headers),
+  referrerPolicy: getReferrerPolicy(headers, document),
+  securityTxt: site.securityTxt.status,
+  resourcesWithoutIntegrity: getThirdPartyResources(resources, finalUrl)
+    .filter(item => supportsIntegrity(item) && item.resource.hasIntegrity !== true).length
+});
+
+// Days of a valid HSTS max-age, null without one
+function getHstsDays(headers: Headers): number | null {
+  const header = headers.get('strict-transport-security');
+  const maxAge = header ? parseHsts(header).maxAge : null;
+  return maxAge === null ? null : Math.floor(maxAge / SECONDS_PER_DAY);
+}
+
+/**
+ * Presence and value of each security header in a response
+ */
+export function getSecurityHeaders(headers: Headers): SecurityHeaderStatus[] {
+  return SECURITY_HEADERS.map(header => {
+    const value = headers.get(header);
+    return { header, present: value !== null, value };
+  });
+}
@@ -0,0 +1,356 @@
+/**
+ * SEO checks
+ * Title, meta description, headings, canonical, Open Graph, structured data,
+ * robots.txt, sitemap and redirects
+ */
+
+import type { RedirectHop } from '../../../types/api';
+import { getDocumentLang, getMetaContent, type ParsedDocument } from '../document';
+import { isPathAllowed } from '../robots';
+import type { Check, MetricCollector } from '../types';
+
+function getTitle(document: ParsedDocument): string | null {
+  // <title> inside inline SVG describes the graphic, not the page
+  const title = document.querySelectorAll('title').find(el => el.closest('svg') === null);
+  return title ? title.text.trim() : null;
+}
+
+function normalizeForCanonical(url: URL): string {
+  const host = url.hostname.replace(/^www\./i, '');
+  const path = url.pathname.replace(/\/+$/, '');
+  return `${host}${path}${url.search}`;
+}
+
+/**
+ * Redirects that only canonicalise the URL (protocol, www or trailing slash)
+ * These are permanent by nature and should use 301/308
+ */
+function isCanonicalRedirect(hop: RedirectHop): boolean {
+  return normalizeForCanonical(new URL(hop.url)) === normalizeForCanonical(new URL(hop.location));
+}
+
+function countOpenGraphTags(document: ParsedDocument): number {
+  return ['og:title', 'og:description', 'og:image', 'og:url']
+    .filter(property => getMetaContent(document, property) !== null)
+    .length;
+}
+
+export const seoChecks: Check[] = [
+  {
+    id: 'seo.title-missing',
+    category: 'seo',
+    penalty: 15,
+    severity: 'critical',
+    fixMinutes: 5,
+    docsUrl: 'https://developers.google.com/search/docs/appearance/title-link',
+    evaluate({ document }) {
+      if (getTitle(document) !== null) return null;
+      return { passed: false };
+    }
+  },
+  {
+    id: 'seo.title-too-short',
+    category: 'seo',
+    penalty: 10,
+    severity: 'warning',
+    fixMinutes: 5,
+    docsUrl: 'https://developers.google.com/search/docs/appearance/title-link',
+    evaluate({ document }) {
+      const title = getTitle(document);
+      if (title === null || title.length >= 10) return null;
+      return { passed: false, params: { length: title.length } };
+    }
+  },
+  {
+    id: 'seo.title-too-long',
+    category: 'seo',
+    penalty: 5,
+    severity: 'warning',
+    fixMinutes: 5,
+    docsUrl: 'https://developers.google.com/search/docs/appearance/title-link',
+    evaluate({ document }) {
+      const title = getTitle(document);
+      if (title === null || title.length < 10) return null;
+      if (title.length > 70) {
+        return { passed: false, params: { length: title.length } };
+      }
+      if (title.length >= 50 && title.length <= 60) {
+        return { passed: true, params: { length: title.length } };
+      }
+      return null;
+    }
+  },
+  {
+    id: 'seo.meta-description-missing',
+    category: 'seo',
+    penalty: 12,
+    severity: 'critical',
+    fixMinutes: 5,
+    docsUrl: 'https://developers.google.com/search/docs/appearance/snippet',
+    evaluate({ document }) {
+      if (getMetaContent(document, 'description') !== null) return null;
+      return { passed: false };
+    }
+  },
+  {
+    id: 'seo.meta-description-too-short',
+    category: 'seo',
+    penalty: 6,
+    severity: 'warning',
+    fixMinutes: 5,
+    docsUrl: 'https://developers.google.com/search/docs/appearance/snippet',
+    evaluate({ document }) {
+      const desc = getMetaContent(document, 'description');
+      if (desc === null || desc.length >= 70) return null;
+      return { passed: false, params: { length: desc.length } };
+    }
+  },
+  {
+    id: 'seo.meta-description-too-long',
+    category: 'seo',
+    penalty: 3,
+    severity: 'info',
+    fixMinutes: 5,
+    docsUrl: 'https://developers.google.com/search/docs/appearance/snippet',
+    evaluate({ document }) {
+      const desc = getMetaContent(document, 'description');
+      if (desc === null || desc.length <= 160) return null;
+      return { passed: false, params: { length: desc.length } };
+    }
+  },
+  {
+    id: 'seo.h1-missing',
+    category: 'seo',
+    penalty: 10,
+    severity: 'critical',
+    fixMinutes: 5,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTML/Element/Heading_Elements',
+    evaluate({ document }) {
+      if (document.querySelectorAll('h1').length > 0) return null;
+      return { passed: false };
+    }
+  },
+  {
+    id: 'seo.h1-multiple',
+    category: 'seo',
+    penalty: 5,
+    severity: 'warning',
+    fixMinutes: 10,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTML/Element/Heading_Elements',
+    evaluate({ document }) {
+      const h1Count = document.querySelectorAll('h1').length;
+      if (h1Count === 0) return null;
+      if (h1Count > 1) {
+        return { passed: false, params: { count: h1Count } };
+      }
+      return { passed: true };
+    }
+  },
+  {
+    id: 'seo.canonical-missing',
+    category: 'seo',
+    penalty: 8,
+    severity: 'warning',
+    fixMinutes: 5,
+    docsUrl: 'https://developers.google.com/search/docs/crawling-indexing/consolidate-duplicate-urls',
+    evaluate({ document }) {
+      if (!document.querySelector('link[rel~="canonical" i][href]')) {
+        return { passed: false };
+      }
+      return { passed: true };
+    }
+  },
+  {
+    id: 'seo.open-graph-missing',
+    category: 'seo',
+    penalty: 8,
+    severity: 'warning',
+    fixMinutes: 15,
+    docsUrl: 'https://ogp.me/',
+    evaluate({ document }) {
+      if (countOpenGraphTags(document) > 0) return null;
+      return { passed: false };
+    }
+  },
+  {
+    id: 'seo.open-graph-incomplete',
+    category: 'seo',
+    penalty: 4,
+    severity: 'info',
+    fixMinutes: 10,
+    docsUrl: 'https://ogp.me/',
+    evaluate({ document }) {
+      const ogScore = countOpenGraphTags(document);
+      if (ogScore === 0) return null;
+      if (ogScore < 4) {
+        return { passed: false, params: { count: ogScore } };
+      }
+      return { passed: true };
+    }
+  },
+  {
+    id: 'seo.image-alt-missing',
+    category: 'seo',
+    penalty: 10,
+    severity: 'warning',
+    fixMinutes: 10,
+    docsUrl: 'https://developers.google.com/search/docs/appearance/google-images',
+    evaluate({ document }) {
+      const imagesWithoutAlt = document.querySelectorAll('img:not([alt])').length;
+      if (imagesWithoutAlt === 0) return null;
+      // 2 points per image, capped at the full penalty
+      return { passed: false, params: { count: imagesWithoutAlt }, scale: imagesWithoutAlt / 5 };
+    }
+  },
+  {
+    id: 'seo.structured-data-missing',
+    category: 'seo',
+    penalty: 5,
+    severity: 'info',
+    fixMinutes: 30,
+    docsUrl: 'https://developers.google.com/search/docs/appearance/structured-data/intro-structured-data',
+    evaluate({ document }) {
+      const hasJsonLd = document.querySelector('script[type="application/ld+json" i]') !== null;
+      const hasMicrodata = document.querySelector('[itemscope], [itemtype]') !== null;
+
+      if (!hasJsonLd && !hasMicrodata) {
+        return { passed: false };
+      }
+      return { passed: true };
+    }
+  },
+  {
+    id: 'seo.lang-missing',
+    category: 'seo',
+    penalty: 3,
+    severity: 'info',
+    fixMinutes: 2,
+    docsUrl: 'https://developer.mozilla.org/en-US/docs/Web/HTML/Global_attributes/lang',
+    evaluate({ document }) {
+      if (getDocumentLang(document) !== null) return null;
+      return { passed: false };
+    }
+  },
+  {
+    id: 'seo.robots-disallowed',
+    category: 'seo',
+    penalty: 30,
+    severity: 'critical',
+    fixMinutes: 10,
+    docsUrl: 'https://developers.google.com/search/docs/crawling-indexing/robots/intro',
+    evaluate({ finalUrl, site }) {
+      if (site.robots.status !== 'found') return null;
+
+      const robots = site.robots.robots;
+      if (isPathAllowed(robots, 'googlebot', finalUrl.pathname + finalUrl.search)) {
+        return { passed: true };
+      }
+      if (!isPathAllowed(robots, 'googlebot', '/')) {
+        return { passed: false, variant: 'site' };
+      }
+      return { passed: false };
+    }
+  },
+  {
+    id: 'seo.robots-missing',
+    category: 'seo',
+    penalty: 2,
+    severity: 'info',
+    fixMinutes: 10,
+    docsUrl: 'https://developers.google.com/search/docs/crawling-indexing/robots/intro',
+    evaluate({ site }) {
+      if (site.robots.status !== 'missing') return null;
+      return { passed: false };
+    }
+  },
+  {
+    id: 'seo.robots-unreachable',
+    category: 'seo',
+    penalty: 8,
+    severity: 'warning',
+    fixMinutes: 30,
+    docsUrl: 'https://developers.google.com/search/docs/crawling-indexing/robots/robots_txt',
+    evaluate({ site }) {
+      if (site.robots.status !== 'error') return null;
+      // Google stops crawling a site while robots.txt returns server errors
+      return { passed: false };
+    }
+  },
+  {
+    id: 'seo.sitemap-missing',
+    category: 'seo',
+    penalty: 5,
+    severity: 'warning',
+    fixMinutes: 15,
+    docsUrl: 'https://developers.google.com/search/docs/crawling-indexing/sitemaps/overview',
+    evaluate({ site }) {
+      if (site.sitemap.status === 'missing') {
+        return { passed: false };
+      }
+      if (site.sitemap.status === 'found') {
+        return { passed: true, params: { count: site.sitemap.urls.length } };
+      }
+      return null;
+    }
+  },
+  {
+    id: 'seo.sitemap-invalid',
+    category: 'seo',
+    penalty: 5,
+    severity: 'warning',
+    fixMinutes: 15,
+    docsUrl: 'https://developers.google.com/search/docs/crawling-indexing/sitemaps/build-sitemap',
+    evaluate({ site }) {
+      if (site.sitemap.status !== 'invalid') return null;
+      return { passed: false };
+    }
+  },
+  {
+    id: 'seo.sitemap-not-in-robots',
+    category: 'seo',
+    penalty: 2,
+    severity: 'info',
+    fixMinutes: 2,
+    docsUrl: 'https://developers.google.com/search/docs/crawling-indexing/sitemaps/build-sitemap',
+    evaluate({ site }) {
+      if (site.robots.status !== 'found' || site.sitemap.status !== 'found') return null;
+      if (site.sitemap.referencedInRobots) return null;
+      return { passed: false };
+    }
+  },
+  {
+    id: 'seo.redirect-temporary',
+    category: 'seo',
+    penalty: 5,
+    severity: 'warning',
+    fixMinutes: 10,
+    docsUrl: 'https://developers.google.com/search/docs/crawling-indexing/301-redirects',
+    evaluate({ redirects, site }) {
+      const temporary = [...redirects, ...site.https.redirects]
+        .filter(hop => (hop.status === 302 || hop.status === 307) && isCanonicalRedirect(hop));
+      if (temporary.length === 0) return null;
+
+      const hop = temporary[0];
+      return {
+        passed: false,
+        params: { status: hop.status, from: hop.url, to: hop.location }
+      };
+    }
+  }
+];
+
+/**
+ * Raw SEO measurements: head tags, headings and site files
+ */
+export const collectSeoMetrics: MetricCollector = ({ document, site }) => ({
+  titleLength: getTitle(document)?.length ?? null,
+  metaDescriptionLength: getMetaContent(document, 'description')?.length ?? null,
+  h1Count: document.querySelectorAll('h1').length,
+  canonical: document.querySelector('link[rel~="canonical" i][href]') !== null,
+  openGraphTags: countOpenGraphTags(document),
+  structuredData: document.querySelector('script[type="application/ld+json" i], [itemscope], [itemtype]') !== null,
+  lang: getDocumentLang(document),
+  robotsTxt: site.robots.status,
+  sitemap: site.sitemap.status,
+  sitemapUrls: site.sitemap.urls.length
+});
@@ -0,0 +1,103 @@
+/**
+ * Competitor comparison
+ * Analyzes the client's site next to two or three competitors and lists the
+ * checks where one side passes and the other fails
+ */
+
+import type {
+  AnalysisDetail,
+  AnalysisResult,
+  BatchEntry,
+  CategoryKey,
+  CategoryResult,
+  ComparisonDifference,
+  ComparisonResponse,
+  CompetitorDifferences,
+  ScoringProfileId,
+  Severity
+} from '../../types/api';
+import { isAnalysisResult } from '../../types/api';
+import { runBatchAnalysis } from './batch';
+import { DEFAULT_SCORING_PROFILE } from './profiles';
+
+export const MIN_COMPARE_URLS = 2;
+export const MAX_COMPARE_URLS = 4;
+
+const SEVERITY_ORDER: Record<Severity, number> = { critical: 0, warning: 1, info: 2 };
+
+interface RuleOutcome {
+  category: CategoryKey;
+  detail: AnalysisDetail;
+}
+
+/**
+ * Index the findings of an analysis by rule id
+ */
+function getOutcomes(result: AnalysisResult): Map<string, RuleOutcome> {
+  const outcomes = new Map<string, RuleOutcome>();
+  for (const [category, evaluation] of Object.entries(result.categories) as [CategoryKey, CategoryResult][]) {
+    for (const detail of evaluation.details) {
+      outcomes.set(detail.ruleId, { category, detail });
+    }
+  }
+  return outcomes;
+}
+
+/**
+ * Checks that `winner` passes and `loser` fails, most severe first
+ * Checks that did not apply to one of the sites are left out.
+ */
+function findAdvantages(
+  winner: Map<string, RuleOutcome>,
+  loser: Map<string, RuleOutcome>
+): ComparisonDifference[] {
+  const advantages: ComparisonDifference[] = [];
+
+  for (const [ruleId, outcome] of winner) {
+    const problem = loser.get(ruleId)?.detail.severity;
+    if (outcome.detail.type !== 'success' || !problem) continue;
+
+    const { message, code, params } = outcome.detail;
+    advantages.push({ ruleId, category: outcome.category, message, code, params, severity: problem });
+  }
+
+  return advantages.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+/**
+ * Compare the client's site (first entry) with each competitor
+ */
+export function compareResults(entries: BatchEntry[]): CompetitorDifferences[] {
+  const [site, ...competitors] = entries;
+  if (!isAnalysisResult(site.result)) return [];
+
+  const own = getOutcomes(site.result);
+  return competitors.flatMap(competitor => {
+    if (!isAnalysisResult(competitor.result)) return [];
+
+    const theirs = getOutcomes(competitor.result);
+    return [{
+      url: competitor.url,
+      theyHave: findAdvantages(theirs, own),
+      youHave: findAdvantages(own, theirs)
+    }];
+  });
+}
+
+/**
+ * Analyze the client's site and its competitors side by side
+ * Each URL goes through the same validation, SSRF checks and cache as a
+ * single analysis; a failed competitor does not fail the comparison.
+ *
+ * @param urls The client's site first, then one to three competitors
+ * @param force Skip the cache and analyze every URL again
+ * @param profile Weight profile for the total scores
+ */
+export async function runComparison(
+  urls: string[],
+  force = false,
+  profile: ScoringProfileId = DEFAULT_SCORING_PROFILE
+): Promise<ComparisonResponse> {
+  const { results, summary } = await runBatchAnalysis(urls, force, profile);
+  return { results, rows: summary.rows, differences: compareResults(results) };
+}
@@ -0,0 +1,124 @@
+/**
+ * Set-Cookie parsing and auditing
+ * Attributes are read as browsers do (RFC 6265bis). Cookie values are never
+ * kept, so results can be stored and shared without leaking sessions.
+ */
+
+import type { CookieInfo, CookieIssue } from '../../types/api';
+
+export interface Cookie {
+  name: string;
+  secure: boolean;
+  httpOnly: boolean;
+  /** SameSite in lower case, null when missing or not a valid value */
+  sameSite: 'strict' | 'lax' | 'none' | null;
+  /** Domain attribute without its leading dot, null for host-only cookies */
+  domain: string | null;
+  path: string | null;
+  /** Seconds until the cookie expires, null for session cookies */
+  maxAge: number | null;
+}
+
+// Longer lifetimes keep tracking identifiers and sessions around for more than a year
+const MAX_LIFETIME_SECONDS = 365 * 24 * 60 * 60;
+
+// Names that usually hold a session or credentials; CSRF tokens are often read by scripts on purpose
+const SESSION_NAME = /sess|auth|token|jwt|login|(^|[_.-])sid$/i;
+const SCRIPT_READABLE_NAME = /csrf|xsrf/i;
+
+/**
+ * Parse one Set-Cookie header
+ * @param header Header value, e.g. 'id=a3f; Secure; HttpOnly; SameSite=Lax'
+ * @param now Time the response was received, for Expires
+ * @returns The cookie, or null when the header has no name=value pair
+ */
+export function parseSetCookie(header: string, now: number = Date.now()): Cookie | null {
+  const [pair, ...attributes] = header.split(';');
+  const separator = pair.indexOf('=');
+  if (separator === -1) return null;
+
+  const name = pair.slice(0, separator).trim();
+  if (name === '') return null;
+
+  const cookie: Cookie = { name, secure: false, httpOnly: false, sameSite: null, domain: null, path: null, maxAge: null };
+  let expires: number | null = null;
+
+  for (const attribute of attributes) {
+    const [rawKey, ...rest] = attribute.split('=');
+    const key = rawKey.trim().toLowerCase();
+    const value = rest.join('=').trim();
+
+    if (key === 'secure') {
+      cookie.secure = true;
+    } else if (key === 'httponly') {
+      cookie.httpOnly = true;
+    } else if (key === 'samesite') {
+      const sameSite = value.toLowerCase();
+      cookie.sameSite = sameSite === 'strict' || sameSite === 'lax' || sameSite === 'none' ? sameSite : null;
+    } else if (key === 'domain' && value !== '') {
+      cookie.domain = value.replace(/^\./, '').toLowerCase();
+    } else if (key === 'path' && value !== '') {
+      cookie.path = value;
+    } else if (key === 'max-age' && /^-?\d+$/.test(value)) {
+      cookie.maxAge = parseInt(value, 10);
+    } else if (key === 'expires') {
+      const time = Date.parse(value);
+      if (!Number.isNaN(time)) expires = Math.round((time - now) / 1000);
+    }
+  }
+
+  // Max-Age takes precedence over Expires
+  cookie.maxAge ??= expires;
+  return cookie;
+}
+
+/**
+ * Parse every cookie a response sets
+ */
+export function getCookies(headers: Headers): Cookie[] {
+  return headers.getSetCookie()
+    .map(header => parseSetCookie(header))
+    .filter((cookie): cookie is Cookie => cookie !== null);
+}
+
+/**
+ * Whether a cookie name looks like it holds a session or credentials
+ */
+export function isSessionCookie(name: string): boolean {
+  return SESSION_NAME.test(name) && !SCRIPT_READABLE_NAME.test(name);
+}
+
+/**
+ * Weaknesses in how a cookie is set
+ * @param cookie Parsed cookie
+ * @param pageUrl URL of the page that set it
+ */
+export function auditCookie(cookie: Cookie, pageUrl: URL): CookieIssue[] {
+  const issues: CookieIssue[] = [];
+  const host = pageUrl.hostname.toLowerCase();
+
+  if (pageUrl.protocol === 'https:' && !cookie.secure) issues.push('insecure');
+  if (!cookie.httpOnly && isSessionCookie(cookie.name)) issues.push('httponly-missing');
+  if (cookie.sameSite === null || cookie.sameSite === 'none') issues.push('samesite-missing');
+  // A parent domain shares the cookie with every other subdomain
+  if (cookie.domain !== null && cookie.domain !== host && host.endsWith(`.${cookie.domain}`)) issues.push('domain-broad');
+  if (cookie.maxAge !== null && cookie.maxAge > MAX_LIFETIME_SECONDS) issues.push('lifetime-long');
+
+  return issues;
+}
+
+/**
+ * Cookie inventory for the API result, without cookie values
+ */
+export function getCookieInventory(cookies: Cookie[], pageUrl: URL): CookieInfo[] {
+  return cookies.map(cookie => ({
+    name: cookie.name,
+    secure: cookie.secure,
+    httpOnly: cookie.httpOnly,
+    sameSite: cookie.sameSite,
+    domain: cookie.domain,
+    path: cookie.path,
+    lifetimeDays: cookie.maxAge === null ? null : Math.max(0, Math.round(cookie.maxAge / 86400)),
+    issues: auditCookie(cookie, pageUrl)
+  }));
+}
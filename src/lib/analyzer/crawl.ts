@@ -0,0 +1,147 @@
+/**
+ * Multi-page crawl mode
+ * Finds subpages via the sitemap and same-origin links on the start page
+ */
+
+import type { AnalysisResult, CrawlFailure, CrawlSummary } from '../../types/api';
+import { mapWithConcurrency } from '../../utils/async';
+import { analyzeUrl, type AnalyzedPage } from './analyze';
+import { getAttr, type ParsedDocument } from './document';
+import { ContentTypeError } from './fetch';
+import type { AnalysisHooks } from './types';
+
+export const DEFAULT_CRAWL_PAGES = 10;
+export const MAX_CRAWL_PAGES = 20;
+
+const CRAWL_CONCURRENCY = 3;
+
+// Links to files rather than pages
+const NON_HTML_EXTENSIONS = /\.(pdf|jpe?g|png|gif|webp|avif|svg|ico|zip|gz|rar|mp4|mov|webm|mp3|wav|docx?|xlsx?|pptx?|css|js|json|xml|txt)$/i;
+
+/**
+ * Resolve a link and keep it only if it is a same-origin page
+ * @param href Link as written in the document
+ * @param base URL to resolve against
+ * @param origin Origin of the start page
+ */
+function toCrawlableUrl(href: string, base: URL, origin: string): URL | null {
+  let url: URL;
+  try {
+    url = new URL(href, base);
+  } catch {
+    return null;
+  }
+
+  if (url.origin !== origin) return null;
+  if (NON_HTML_EXTENSIONS.test(url.pathname)) return null;
+
+  url.hash = '';
+  return url;
+}
+
+function getLinkUrls(document: ParsedDocument, pageUrl: URL): URL[] {
+  const baseElement = document.querySelector('base[href]');
+  let base = pageUrl;
+  if (baseElement) {
+    try {
+      base = new URL(getAttr(baseElement, 'href') ?? '', pageUrl);
+    } catch {
+      // Ignore an invalid <base> and resolve against the page URL
+    }
+  }
+
+  return document.querySelectorAll('a[href]')
+    .filter(link => !link.hasAttribute('download'))
+    .map(link => getAttr(link, 'href'))
+    .filter((href): href is string => href !== null)
+    .map(href => toCrawlableUrl(href, base, pageUrl.origin))
+    .filter((url): url is URL => url !== null);
+}
+
+/**
+ * Find candidate subpages for a crawl
+ * Links on the start page come first, followed by sitemap entries
+ *
+ * @param startUrl Final URL of the start page
+ * @param document Parsed start page
+ * @param sitemapUrls Page URLs listed in the site's sitemap
+ * @returns Unique same-origin page URLs, excluding the start page
+ */
+export function discoverPages(startUrl: URL, document: ParsedDocument, sitemapUrls: string[]): URL[] {
+  const origin = startUrl.origin;
+  const start = new URL(startUrl.href);
+  start.hash = '';
+
+  const seen = new Set<string>([start.href]);
+  const pages: URL[] = [];
+
+  const candidates = [
+    ...getLinkUrls(document, startUrl),
+    ...sitemapUrls.map(href => toCrawlableUrl(href, startUrl, origin))
+  ];
+
+  for (const url of candidates) {
+    if (url && !seen.has(url.href)) {
+      seen.add(url.href);
+      pages.push(url);
+    }
+  }
+
+  return pages;
+}
+
+function describeFailure(error: unknown): string {
+  if (error instanceof Error && error.name === 'AbortError') {
+    return 'Siden tok for lang tid å svare';
+  }
+  if (error instanceof ContentTypeError) {
+    return `Ikke en HTML-side (${error.contentType})`;
+  }
+  return 'Kunne ikke hente siden';
+}
+
+/**
+ * Crawl a site starting from an already analyzed page
+ * @param start The analyzed start page
+ * @param maxPages Maximum number of pages to analyze, including the start page
+ * @param hooks Progress event per finished subpage; signal stops outstanding requests
+ * @throws AbortError if hooks.signal aborts
+ */
+export async function crawlSite(start: AnalyzedPage, maxPages: number, hooks: AnalysisHooks = {}): Promise<CrawlSummary> {
+  const { onProgress, signal } = hooks;
+  const candidates = discoverPages(start.finalUrl, start.document, start.site.sitemap.urls);
+  const subpages = candidates.slice(0, Math.max(0, maxPages - 1));
+  const failed: CrawlFailure[] = [];
+  let done = 0;
+
+  const analyzeSubpage = async (url: URL): Promise<AnalysisResult | null> => {
+    signal?.throwIfAborted();
+    try {
+      const page = await analyzeUrl(url, start.site, { signal });
+      if (page.status >= 400) {
+        failed.push({ url: url.href, error: `HTTP ${String(page.status)}` });
+        return null;
+      }
+      return page.result;
+    } catch (error: unknown) {
+      // A cancelled crawl stops instead of recording every page as failed
+      if (signal?.aborted) throw error;
+      failed.push({ url: url.href, error: describeFailure(error) });
+      return null;
+    }
+  };
+
+  const results = await mapWithConcurrency(subpages, CRAWL_CONCURRENCY, async (url): Promise<AnalysisResult | null> => {
+    const result = await analyzeSubpage(url);
+    done++;
+    onProgress?.({ type: 'page', url: url.href, done, total: subpages.length, score: result?.totalScore ?? null });
+    return result;
+  });
+
+  return {
+    maxPages,
+    discovered: candidates.length + 1,
+    pages: [start.result, ...results.filter((result): result is AnalysisResult => result !== null)],
+    failed
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Content-Security-Policy parsing
+ * Splits a policy into directives and reads the sources that govern scripts.
+ * Only the first policy of a header is used; sites rarely send more than one.
+ */
+
+/**
+ * Source lists keyed by lower-case directive name
+ */
+export type CspPolicy = Map<string, string[]>;
+
+// Scheme-only sources allow any host on that scheme
+const SCHEME_SOURCE = /^(https?|wss?|data|blob|filesystem):$/i;
+
+/**
+ * Parse a Content-Security-Policy header value
+ * Directive names are case-insensitive; a repeated directive is ignored, as browsers do
+ */
+export function parseCsp(header: string): CspPolicy {
+  const policy: CspPolicy = new Map();
+  const [first = ''] = header.split(',');
+
+  for (const directive of first.split(';')) {
+    const [name, ...sources] = directive.trim().split(/\s+/);
+    if (!name) continue;
+
+    const key = name.toLowerCase();
+    if (!policy.has(key)) policy.set(key, sources);
+  }
+
+  return policy;
+}
+
+/**
+ * Parse the enforced policy of a response, null when it sends none
+ */
+export function getEnforcedCsp(headers: Headers): CspPolicy | null {
+  const header = headers.get('content-security-policy');
+  return header ? parseCsp(header) : null;
+}
+
+/**
+ * Sources that decide which scripts may run
+ * @returns script-src, falling back to default-src, or null when scripts are unrestricted
+ */
+export function getScriptSources(policy: CspPolicy): string[] | null {
+  return policy.get('script-src') ?? policy.get('default-src') ?? null;
+}
+
+/**
+ * Whether a source list allows scripts by nonce or hash instead of by location
+ */
+export function usesNonceOrHash(sources: string[]): boolean {
+  return sources.some(source => /^'(nonce|sha256|sha384|sha512)-/i.test(source));
+}
+
+/**
+ * Whether a source list uses a keyword, e.g. "'unsafe-inline'"
+ */
+export function hasKeyword(sources: string[], keyword: string): boolean {
+  return sources.some(source => source.toLowerCase() === keyword);
+}
+
+/**
+ * Sources that match any host: '*' and scheme-only sources such as 'https:'
+ */
+export function getWildcardSources(sources: string[]): string[] {
+  return sources.filter(source => source === '*' || SCHEME_SOURCE.test(source));
+}
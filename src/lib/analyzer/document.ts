@@ -0,0 +1,102 @@
+/**
+ * HTML parsing for the website analyzer
+ * Every scan parses the page once and all checks query the same tree
+ */
+
+import { parse, type HTMLElement } from 'node-html-parser';
+
+/**
+ * Root of a parsed HTML document
+ */
+export type ParsedDocument = HTMLElement;
+
+/**
+ * Parse an HTML document
+ * Comments are dropped, and <script>, <style> and <noscript> bodies are kept as
+ * raw text, so markup inside them is never mistaken for page content
+ *
+ * @param html Raw HTML source
+ * @returns Root element of the parsed tree
+ */
+export function parseDocument(html: string): ParsedDocument {
+  return parse(html, {
+    comment: false,
+    blockTextElements: {
+      script: true,
+      style: true,
+      noscript: true
+    }
+  });
+}
+
+/**
+ * Get a trimmed attribute value, treating empty values as missing
+ * @param el Element to read from
+ * @param name Attribute name (case-insensitive)
+ */
+export function getAttr(el: HTMLElement, name: string): string | null {
+  const value = el.getAttribute(name)?.trim();
+  return value !== undefined && value !== '' ? value : null;
+}
+
+/**
+ * Check whether a space-separated rel attribute contains a token
+ * @param el Element with a rel attribute
+ * @param token Lower-case rel token, e.g. 'stylesheet'
+ */
+export function hasRel(el: HTMLElement, token: string): boolean {
+  const rel = el.getAttribute('rel') ?? '';
+  return rel.toLowerCase().split(/\s+/).includes(token);
+}
+
+/**
+ * Get the candidate URLs from a srcset attribute
+ * @param srcset Value like "a.jpg 1x, b.jpg 2x"
+ * @returns URLs without width/density descriptors
+ */
+export function parseSrcset(srcset: string | null): string[] {
+  if (srcset === null) return [];
+
+  // Follows the HTML candidate parsing rules, so commas inside URLs
+  // (common with image CDNs) don't split a candidate
+  const urls: string[] = [];
+  let position = 0;
+
+  while (position < srcset.length) {
+    while (position < srcset.length && /[\s,]/.test(srcset[position])) position++;
+
+    const start = position;
+    while (position < srcset.length && !/\s/.test(srcset[position])) position++;
+    let url = srcset.slice(start, position);
+
+    if (url.endsWith(',')) {
+      url = url.replace(/,+$/, '');
+    } else {
+      // Skip descriptors up to the next candidate
+      while (position < srcset.length && srcset[position] !== ',') position++;
+    }
+
+    if (url !== '') urls.push(url);
+  }
+
+  return urls;
+}
+
+/**
+ * Get the content of a <meta> tag by name or property
+ * @param document Parsed document
+ * @param key Value of the name or property attribute, e.g. 'description' or 'og:title'
+ */
+export function getMetaContent(document: ParsedDocument, key: string): string | null {
+  const meta = document.querySelector(`meta[name="${key}" i], meta[property="${key}" i]`);
+  return meta ? meta.getAttribute('content') ?? null : null;
+}
+
+/**
+ * Get the language declared on the <html> element
+ * @param document Parsed document
+ */
+export function getDocumentLang(document: ParsedDocument): string | null {
+  const html = document.querySelector('html');
+  return html ? getAttr(html, 'lang') : null;
+}
@@ -0,0 +1,231 @@
+/**
+ * Page fetching for the website analyzer
+ */
+
+import type { Dispatcher } from 'undici';
+import type { RedirectHop } from '../../types/api';
+import { assertFetchableUrl, getBlockedUrlError, safeDispatcher } from './ssrf';
+
+// Browser-like headers so sites serve the same markup visitors get
+const REQUEST_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Accept-Language': 'nb-NO,nb;q=0.9,no;q=0.8,nn;q=0.7,en;q=0.6',
+  'Accept-Encoding': 'gzip, deflate, br',
+  'Cache-Control': 'no-cache'
+};
+
+const HTML_ACCEPT = 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8';
+
+export const FETCH_TIMEOUT = 15000; // 15 seconds
+export const MAX_REDIRECTS = 10;
+export const MAX_BODY_BYTES = 5 * 1024 * 1024; // 5 MB
+
+/**
+ * Media types accepted as an analyzable page
+ */
+export const HTML_CONTENT_TYPES = ['text/html', 'application/xhtml+xml'];
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+/**
+ * Thrown when a redirect chain exceeds the hop limit
+ */
+export class RedirectLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedirectLimitError';
+  }
+}
+
+/**
+ * Thrown when a response is not of an accepted media type
+ */
+export class ContentTypeError extends Error {
+  /** Media type the server responded with */
+  contentType: string;
+
+  constructor(contentType: string) {
+    super(`Uventet innholdstype: ${contentType}`);
+    this.name = 'ContentTypeError';
+    this.contentType = contentType;
+  }
+}
+
+export interface FetchOptions {
+  /** Accept header, defaults to HTML */
+  accept?: string;
+  /** Timeout in milliseconds for the whole redirect chain */
+  timeout?: number;
+  /** Maximum number of redirects to follow */
+  maxRedirects?: number;
+  /** Maximum number of decoded body bytes to read, the rest is discarded */
+  maxBytes?: number;
+  /** Accepted media types for successful responses, any type when omitted */
+  contentTypes?: string[];
+  /** Aborts the request before the timeout, e.g. when the client disconnects */
+  signal?: AbortSignal;
+}
+
+export interface FetchedPage {
+  /** Requested URL */
+  url: URL;
+  /** URL the final response came from */
+  finalUrl: URL;
+  /** Redirects followed to reach the final URL, in order */
+  redirects: RedirectHop[];
+  /** Final response (body already consumed) */
+  response: Response;
+  /** Response body as text */
+  body: string;
+  /** Whether the body was cut off at the byte limit */
+  truncated: boolean;
+  /** Size of the response on the network (compressed), null when unknown */
+  transferSize: number | null;
+  /** Bytes of the decoded body that were read */
+  decodedSize: number;
+  /** Time until the final response headers arrived, including redirects, in milliseconds */
+  responseTime: number;
+}
+
+function getRedirectTarget(response: Response, base: URL): URL | null {
+  if (!REDIRECT_STATUSES.includes(response.status)) return null;
+
+  const location = response.headers.get('location');
+  if (!location) return null;
+
+  try {
+    return new URL(location, base);
+  } catch {
+    return null;
+  }
+}
+
+function getMediaType(response: Response): string {
+  return (response.headers.get('content-type') ?? '').split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Read a response body as UTF-8 text, stopping at a byte limit
+ * Counting decoded bytes also bounds compressed responses that expand on arrival.
+ */
+async function readBody(response: Response, maxBytes: number): Promise<{ body: string; size: number; truncated: boolean }> {
+  if (!response.body) return { body: '', size: 0, truncated: false };
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let body = '';
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    const remaining = maxBytes - size;
+    if (value.byteLength > remaining) {
+      body += decoder.decode(value.subarray(0, remaining), { stream: true }) + decoder.decode();
+      await reader.cancel();
+      return { body, size: maxBytes, truncated: true };
+    }
+
+    body += decoder.decode(value, { stream: true });
+    size += value.byteLength;
+  }
+
+  return { body: body + decoder.decode(), size, truncated: false };
+}
+
+/**
+ * Bytes sent over the network for a fully read body
+ * fetch() decompresses transparently, so for encoded responses only the
+ * Content-Length header tells the transfer size.
+ */
+function getTransferSize(response: Response, decodedSize: number, truncated: boolean): number | null {
+  const contentLength = parseInt(response.headers.get('content-length') ?? '', 10);
+  if (!Number.isNaN(contentLength)) return contentLength;
+
+  const encoding = response.headers.get('content-encoding');
+  const uncompressed = encoding === null || encoding.trim().toLowerCase() === 'identity';
+  return uncompressed && !truncated ? decodedSize : null;
+}
+
+/**
+ * Fetch a page with a timeout
+ * Redirects are followed manually so every hop passes the SSRF check and
+ * the chain can be reported. Connections go through the SSRF-safe dispatcher,
+ * which vets the resolved addresses.
+ *
+ * @throws BlockedUrlError if the URL or a redirect target points to or resolves to an internal address
+ * @throws RedirectLimitError if the chain is longer than the hop limit
+ * @throws ContentTypeError if a successful response has an unaccepted media type
+ * @throws AbortError if the request times out or options.signal aborts
+ */
+export async function fetchPage(url: URL, options: FetchOptions = {}): Promise<FetchedPage> {
+  const maxRedirects = options.maxRedirects ?? MAX_REDIRECTS;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => { controller.abort(); }, options.timeout ?? FETCH_TIMEOUT);
+
+  try {
+    const startTime = Date.now();
+    const redirects: RedirectHop[] = [];
+    let current = url;
+
+    for (;;) {
+      assertFetchableUrl(current);
+
+      // Node's fetch accepts an undici dispatcher, which the DOM RequestInit type does not declare
+      const init: RequestInit & { dispatcher: Dispatcher } = {
+        headers: { ...REQUEST_HEADERS, 'Accept': options.accept ?? HTML_ACCEPT },
+        redirect: 'manual',
+        signal: options.signal ? AbortSignal.any([controller.signal, options.signal]) : controller.signal,
+        dispatcher: safeDispatcher
+      };
+
+      const hopStart = Date.now();
+      const response = await fetch(current, init).catch((error: unknown) => {
+        throw getBlockedUrlError(error) ?? error;
+      });
+
+      const target = getRedirectTarget(response, current);
+      if (!target) {
+        const responseTime = Date.now() - startTime;
+
+        const mediaType = getMediaType(response);
+        if (options.contentTypes && response.ok && mediaType !== '' && !options.contentTypes.includes(mediaType)) {
+          await response.body?.cancel();
+          throw new ContentTypeError(mediaType);
+        }
+
+        const { body, size, truncated } = await readBody(response, options.maxBytes ?? MAX_BODY_BYTES);
+        return {
+          url,
+          finalUrl: current,
+          redirects,
+          response,
+          body,
+          truncated,
+          transferSize: getTransferSize(response, size, truncated),
+          decodedSize: size,
+          responseTime
+        };
+      }
+
+      // Release the connection; redirect bodies are not needed
+      await response.body?.cancel();
+
+      redirects.push({
+        url: current.href,
+        status: response.status,
+        location: target.href,
+        responseTime: Date.now() - hopStart
+      });
+
+      if (redirects.length > maxRedirects) {
+        throw new RedirectLimitError(`For mange videresendinger (over ${String(maxRedirects)})`);
+      }
+
+      current = target;
+    }
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
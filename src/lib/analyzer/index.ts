@@ -0,0 +1,101 @@
+/**
+ * Website analyzer
+ * Public entry point for API routes
+ */
+
+export { analyzePage, analyzeUrl } from './analyze';
+export type { AnalyzedPage } from './analyze';
+export { MAX_BATCH_URLS, runBatchAnalysis } from './batch';
+export { DEFAULT_CACHE_TTL, cacheAnalysis, getCacheKey, getCacheTtl, getCachedAnalysis, normalizeUrl } from './cache';
+export { MAX_COMPARE_URLS, MIN_COMPARE_URLS, compareResults, runComparison } from './compare';
+export { auditCookie, getCookieInventory, getCookies, isSessionCookie, parseSetCookie } from './cookies';
+export type { Cookie } from './cookies';
+export {
+  getEnforcedCsp,
+  getScriptSources,
+  getWildcardSources,
+  hasKeyword,
+  parseCsp,
+  usesNonceOrHash
+} from './csp';
+export type { CspPolicy } from './csp';
+export { DEFAULT_CRAWL_PAGES, MAX_CRAWL_PAGES, crawlSite, discoverPages } from './crawl';
+export { parseDocument } from './document';
+export type { ParsedDocument } from './document';
+export {
+  ContentTypeError,
+  FETCH_TIMEOUT,
+  HTML_CONTENT_TYPES,
+  MAX_BODY_BYTES,
+  MAX_REDIRECTS,
+  RedirectLimitError,
+  fetchPage
+} from './fetch';
+export type { FetchedPage, FetchOptions } from './fetch';
+export {
+  localizeBatch,
+  localizeComparison,
+  localizeHistory,
+  localizeProgress,
+  localizeResult,
+  negotiateLocale
+} from './localize';
+export { formatFinding, formatRedactedFinding, getExplanation, getFindingCode, interpolate } from './messages';
+export { configureCheck, getChecks, registerCheck, unregisterCheck } from './registry';
+export {
+  DEFAULT_SCORING_PROFILE,
+  SCORING_PROFILES,
+  applyScoringProfile,
+  getScoringProfile
+} from './profiles';
+export type { ScoringProfile } from './profiles';
+export { extractResources } from './resources';
+export type { Resource, Resources } from './resources';
+export {
+  CATEGORY_KEYS,
+  INDUSTRY_BENCHMARKS,
+  SCORE_WEIGHTS,
+  aggregateResults,
+  buildAnalysisResult,
+  calculateTotalScore
+} from './result';
+export { isPathAllowed, parseRobotsTxt } from './robots';
+export type { RobotsGroup, RobotsRule, RobotsTxt } from './robots';
+export {
+  InvalidUrlError,
+  describeAnalysisError,
+  parseAnalysisOptions,
+  parseTargetUrl,
+  runAnalysis
+} from './run';
+export type { AnalysisFailure, AnalysisOptions } from './run';
+export {
+  HSTS_PRELOAD_MAX_AGE,
+  UNSAFE_REFERRER_POLICIES,
+  getHeaderToken,
+  getPreloadGaps,
+  getReferrerPolicy,
+  parseHsts,
+  parsePermissionsPolicy
+} from './security-headers';
+export type { HstsPolicy, PermissionsPolicy } from './security-headers';
+export { parseSecurityTxt } from './security-txt';
+export type { SecurityTxt } from './security-txt';
+export { fetchSiteFiles } from './site';
+export type { HttpsUpgrade, RobotsStatus, SecurityTxtStatus, SiteFiles, SitemapStatus } from './site';
+export { parseSitemap } from './sitemap';
+export type { Sitemap } from './sitemap';
+export { BlockedUrlError, assertFetchableUrl, getBlockedUrlError, isPrivateUrl, safeDispatcher } from './ssrf';
+export { getSiteDomain, getThirdPartyInventory, getThirdPartyResources, isThirdParty } from './third-party';
+export type { ThirdPartyKind, ThirdPartyResource } from './third-party';
+export type {
+  AnalysisHooks,
+  CategoryEvaluation,
+  Check,
+  CheckFinding,
+  CheckMessages,
+  CheckOverride,
+  MetricCollector,
+  PageContext
+} from './types';
+export { WCAG_CRITERIA, getConformanceSummary, getCriterionName } from './wcag';
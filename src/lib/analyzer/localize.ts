@@ -0,0 +1,187 @@
+/**
+ * Localized analyzer output
+ * Results are cached, stored and recorded in the default locale and rendered
+ * in the requested language just before they are returned
+ */
+
+import {
+  DEFAULT_LOCALE,
+  isAnalysisResult,
+  type AnalysisCategories,
+  type AnalysisProgress,
+  type AnalysisResult,
+  type BatchEntry,
+  type CategoryResult,
+  type ComparisonResponse,
+  type HistoryFinding,
+  type Locale,
+  type MessageParams,
+  type ScanHistory
+} from '../../types/api';
+import { getSegment } from '../benchmarks';
+import { formatFinding, formatRedactedFinding, getExplanation } from './messages';
+import { getScoringProfile } from './profiles';
+import { CATEGORY_KEYS } from './result';
+import { getCriterionName } from './wcag';
+
+// Language subtags we answer in; Norwegian Bokmål also covers 'no' and Nynorsk readers
+const LANGUAGE_LOCALES: Record<string, Locale> = {
+  nb: 'nb',
+  no: 'nb',
+  nn: 'nb',
+  en: 'en'
+};
+
+interface LocalizableMessage {
+  message: string;
+  code?: string;
+  params?: MessageParams;
+}
+
+function toLocale(tag: string): Locale | null {
+  const language = tag.trim().toLowerCase().split('-')[0];
+  return LANGUAGE_LOCALES[language] ?? null;
+}
+
+/**
+ * Pick the response language
+ * An explicit ?lang= wins; otherwise the Accept-Language header is followed in
+ * order of preference. Anything unsupported falls back to Norwegian.
+ *
+ * @param lang Value of the lang query parameter
+ * @param acceptLanguage Value of the Accept-Language header
+ */
+export function negotiateLocale(lang: string | null, acceptLanguage: string | null): Locale {
+  const requested = lang ? toLocale(lang) : null;
+  if (requested) return requested;
+
+  const preferences = (acceptLanguage ?? '')
+    .split(',')
+    .map((part, index) => {
+      const [tag, ...options] = part.split(';');
+      const quality = options.map(option => /^\s*q=([\d.]+)\s*$/i.exec(option)?.[1]).find(Boolean);
+      return { tag, quality: quality === undefined ? 1 : Number(quality), index };
+    })
+    .filter(preference => preference.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  for (const { tag } of preferences) {
+    const locale = toLocale(tag);
+    if (locale) return locale;
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Render a message from its code, keeping the stored text for codes the catalog lacks
+ */
+function localizeMessage<T extends LocalizableMessage>(item: T, locale: Locale): T {
+  if (!item.code) return item;
+  const message = formatFinding(item.code, item.params, locale);
+  return message === null ? item : { ...item, message };
+}
+
+function localizeCategory(category: CategoryResult, locale: Locale): CategoryResult {
+  return {
+    ...category,
+    details: category.details.map(detail => ({
+      ...localizeMessage(detail, locale),
+      ...(detail.explanation && { explanation: getExplanation(detail.ruleId, locale) ?? detail.explanation })
+    }))
+  };
+}
+
+function localizeCategories(categories: AnalysisCategories, locale: Locale): AnalysisCategories {
+  const localized = { ...categories };
+  for (const key of CATEGORY_KEYS) {
+    localized[key] = localizeCategory(categories[key], locale);
+  }
+  return localized;
+}
+
+/**
+ * Render findings, profile and segment names of a result in a language
+ */
+export function localizeResult(result: AnalysisResult, locale: Locale): AnalysisResult {
+  const segment = result.segment && getSegment(result.segment.segment);
+
+  return {
+    ...result,
+    categories: localizeCategories(result.categories, locale),
+    ...(result.conformance && {
+      conformance: {
+        ...result.conformance,
+        criteria: result.conformance.criteria.map(item => ({ ...item, name: getCriterionName(item.criterion, locale) }))
+      }
+    }),
+    ...(result.crawl && {
+      crawl: {
+        ...result.crawl,
+        pages: result.crawl.pages.map(page => localizeResult(page, locale))
+      }
+    }),
+    ...(result.scoring && {
+      scoring: { ...result.scoring, label: getScoringProfile(result.scoring.profile).label[locale] }
+    }),
+    ...(result.segment && segment && {
+      segment: { ...result.segment, label: segment.label[locale], audience: segment.audience[locale] }
+    }),
+    lang: locale
+  };
+}
+
+/**
+ * Render the findings of a progress event in a language
+ */
+export function localizeProgress(event: AnalysisProgress, locale: Locale): AnalysisProgress {
+  return event.type === 'category' ? { ...event, result: localizeCategory(event.result, locale) } : event;
+}
+
+function localizeEntries(entries: BatchEntry[], locale: Locale): BatchEntry[] {
+  return entries.map(entry => isAnalysisResult(entry.result)
+    ? { ...entry, result: localizeResult(entry.result, locale) }
+    : entry);
+}
+
+/**
+ * Render the results and differences of a comparison in a language
+ */
+export function localizeComparison(response: ComparisonResponse, locale: Locale): ComparisonResponse {
+  return {
+    ...response,
+    results: localizeEntries(response.results, locale),
+    differences: response.differences.map(differences => ({
+      ...differences,
+      theyHave: differences.theyHave.map(item => localizeMessage(item, locale)),
+      youHave: differences.youHave.map(item => localizeMessage(item, locale))
+    }))
+  };
+}
+
+/**
+ * Render the results of a batch analysis in a language
+ */
+export function localizeBatch<T extends { results: BatchEntry[] }>(response: T, locale: Locale): T {
+  return { ...response, results: localizeEntries(response.results, locale) };
+}
+
+/**
+ * Render the recorded findings of a scan history in a language
+ * Text params are not recorded, so their placeholders stay redacted.
+ */
+export function localizeHistory(history: ScanHistory, locale: Locale): ScanHistory {
+  const localizeFinding = (finding: HistoryFinding): HistoryFinding => ({
+    ...finding,
+    message: formatRedactedFinding(finding.code, finding.params, locale) ?? finding.message
+  });
+
+  return {
+    ...history,
+    entries: history.entries.map(entry => ({ ...entry, findings: entry.findings.map(localizeFinding) })),
+    diff: history.diff && {
+      ...history.diff,
+      resolved: history.diff.resolved.map(localizeFinding),
+      introduced: history.diff.introduced.map(localizeFinding)
+    }
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * Accessibility messages
+ * Texts for the findings and help texts of the accessibility checks
+ */
+
+import type { CheckMessages } from '../types';
+
+export const accessibilityMessages: CheckMessages = {
+  findings: {
+    'accessibility.lang-missing': {
+      nb: 'Mangler lang-attributt på html-elementet',
+      en: 'Missing lang attribute on the html element'
+    },
+    'accessibility.lang-missing.passed': {
+      nb: 'Språk er definert: {lang}',
+      en: 'Language is declared: {lang}'
+    },
+    'accessibility.image-alt-missing': {
+      nb: '{count} bilder mangler alt-attributt',
+      en: '{count} images are missing an alt attribute'
+    },
+    'accessibility.image-alt-missing.passed': {
+      nb: 'Alle bilder har alt-attributt',
+      en: 'All images have an alt attribute'
+    },
+    'accessibility.landmarks-missing': {
+      nb: 'Få ARIA landmarks (main, nav, header, footer)',
+      en: 'Few ARIA landmarks (main, nav, header, footer)'
+    },
+    'accessibility.landmarks-missing.passed': {
+      nb: 'God bruk av semantiske landmarks',
+      en: 'Good use of semantic landmarks'
+    },
+    'accessibility.h1-missing': {
+      nb: 'Mangler H1-overskrift',
+      en: 'Missing H1 heading'
+    },
+    'accessibility.heading-level-skipped': {
+      nb: 'Overskriftsnivåer hoppes over {count} ganger (første: {from} til {to})',
+      en: 'Heading levels are skipped {count} times (first: {from} to {to})'
+    },
+    'accessibility.heading-level-skipped.passed': {
+      nb: 'Overskriftene følger en logisk rekkefølge',
+      en: 'Headings follow a logical order'
+    },
+    'accessibility.form-label-missing': {
+      nb: '{count} skjemafelt mangler ledetekst (label)',
+      en: '{count} form fields are missing a label'
+    },
+    'accessibility.form-label-missing.passed': {
+      nb: 'Alle {count} skjemafelt har ledetekst',
+      en: 'All {count} form fields have a label'
+    },
+    'accessibility.button-name-missing': {
+      nb: '{count} knapper mangler tilgjengelig navn',
+      en: '{count} buttons are missing an accessible name'
+    },
+    'accessibility.button-name-missing.passed': {
+      nb: 'Alle {count} knapper har tilgjengelig navn',
+      en: 'All {count} buttons have an accessible name'
+    },
+    'accessibility.link-name-missing': {
+      nb: '{count} lenker mangler tilgjengelig navn (f.eks. ikonlenker uten tekst)',
+      en: '{count} links are missing an accessible name (e.g. icon links without text)'
+    },
+    'accessibility.link-name-missing.passed': {
+      nb: 'Alle lenker har tilgjengelig navn',
+      en: 'All links have an accessible name'
+    },
+    'accessibility.link-empty': {
+      nb: '{count} tomme lenker uten innhold',
+      en: '{count} empty links without content'
+    },
+    'accessibility.link-text-vague': {
+      nb: '{count} lenker har lite beskrivende tekst, som «{text}»',
+      en: '{count} links have vague text, such as "{text}"'
+    },
+    'accessibility.skip-link-missing': {
+      nb: 'Mangler lenke for å hoppe til hovedinnholdet',
+      en: 'Missing a link to skip to the main content'
+    },
+    'accessibility.skip-link-missing.passed': {
+      nb: 'Har lenke for å hoppe til hovedinnholdet',
+      en: 'Has a link to skip to the main content'
+    },
+    'accessibility.tabindex-positive': {
+      nb: '{count} elementer har positiv tabindex og endrer tabulatorrekkefølgen',
+      en: '{count} elements have a positive tabindex and change the tab order'
+    },
+    'accessibility.tabindex-positive.passed': {
+      nb: 'Tabulatorrekkefølgen følger dokumentet (ingen positiv tabindex)',
+      en: 'The tab order follows the document (no positive tabindex)'
+    },
+    'accessibility.media-autoplay': {
+      nb: '{count} lyd- eller videoklipp spiller av med lyd automatisk',
+      en: '{count} audio or video clips play automatically with sound'
+    },
+    'accessibility.media-autoplay.muted': {
+      nb: '{count} videoer spiller av automatisk uten kontroller for å stoppe dem',
+      en: '{count} videos play automatically without controls to stop them'
+    }
+  },
+  explanations: {
+    'accessibility.lang-missing': {
+      nb: 'Språkattributtet forteller skjermlesere hvilket språk teksten skal leses opp på. Uten det kan norsk tekst bli lest med engelsk uttale.',
+      en: 'The lang attribute tells screen readers which language to read the text in. Without it, Norwegian text may be read with English pronunciation.'
+    },
+    'accessibility.image-alt-missing': {
+      nb: 'Alt-tekst beskriver bildene for synshemmede som bruker skjermleser, og vises når bildet ikke kan lastes.',
+      en: 'Alt text describes images to visually impaired people using screen readers, and is shown when the image cannot load.'
+    },
+    'accessibility.landmarks-missing': {
+      nb: 'Landmarks som main, nav, header og footer lar skjermleserbrukere hoppe rett til delene av siden de trenger.',
+      en: 'Landmarks such as main, nav, header and footer let screen reader users jump straight to the parts of the page they need.'
+    },
+    'accessibility.h1-missing': {
+      nb: 'En tydelig H1-overskrift gir skjermleserbrukere oversikt over hva siden handler om og hvor innholdet starter.',
+      en: 'A clear H1 heading tells screen reader users what the page is about and where the content starts.'
+    },
+    'accessibility.heading-level-skipped': {
+      nb: 'Skjermleserbrukere navigerer etter overskrifter. Hopp fra for eksempel H2 til H4 får det til å se ut som noe mangler.',
+      en: 'Screen reader users navigate by headings. Jumping from, say, H2 to H4 makes it look as if something is missing.'
+    },
+    'accessibility.form-label-missing': {
+      nb: 'Uten ledetekst vet ikke skjermlesere hva feltet er til. Placeholder-tekst forsvinner når man skriver og er ingen erstatning.',
+      en: 'Without a label, screen readers cannot tell what a field is for. Placeholder text disappears while typing and is no substitute.'
+    },
+    'accessibility.button-name-missing': {
+      nb: 'Knapper med bare et ikon leses opp som «knapp» uten mer. Gi dem tekst eller aria-label.',
+      en: 'Buttons with only an icon are announced as just "button". Give them text or an aria-label.'
+    },
+    'accessibility.link-name-missing': {
+      nb: 'Lenker uten navn leses opp som adressen eller bare «lenke». Gi ikonlenker tekst, aria-label eller alt-tekst på bildet.',
+      en: 'Links without a name are announced as their address or just "link". Give icon links text, an aria-label or alt text on the image.'
+    },
+    'accessibility.link-empty': {
+      nb: 'Tomme lenker får tastaturfokus uten å si hvor de går. Fjern dem eller gi dem innhold.',
+      en: 'Empty links receive keyboard focus without saying where they lead. Remove them or give them content.'
+    },
+    'accessibility.link-text-vague': {
+      nb: 'Skjermleserbrukere lister ofte opp alle lenkene på siden. «Les mer» og «klikk her» sier ingenting om hvor lenken går.',
+      en: 'Screen reader users often list all the links on a page. "Read more" and "click here" say nothing about where the link goes.'
+    },
+    'accessibility.skip-link-missing': {
+      nb: 'En hopp-til-innhold-lenke først på siden lar tastaturbrukere slippe å tabulere gjennom hele menyen på hver side.',
+      en: 'A skip-to-content link at the top of the page saves keyboard users from tabbing through the whole menu on every page.'
+    },
+    'accessibility.tabindex-positive': {
+      nb: 'Positiv tabindex flytter elementer foran alt annet i tabulatorrekkefølgen og gjør navigeringen uforutsigbar. Bruk 0 eller -1.',
+      en: 'A positive tabindex moves elements ahead of everything else in the tab order and makes navigation unpredictable. Use 0 or -1.'
+    },
+    'accessibility.media-autoplay': {
+      nb: 'Lyd som starter av seg selv overdøver skjermleseren. Start dempet, eller la brukeren starte avspillingen.',
+      en: 'Sound that starts by itself drowns out the screen reader. Start muted, or let the user start playback.'
+    }
+  }
+};
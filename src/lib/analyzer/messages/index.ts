@@ -0,0 +1,66 @@
+/**
+ * Message catalog for analyzer findings
+ * Every finding is stored with its code and params, so the same result can be
+ * rendered in any supported language after it has been cached
+ */
+
+import type { Locale, LocalizedText, MessageParams } from '../../../types/api';
+import type { CheckMessages } from '../types';
+import { accessibilityMessages } from './accessibility';
+import { mobileMessages } from './mobile';
+import { performanceMessages } from './performance';
+import { securityMessages } from './security';
+import { seoMessages } from './seo';
+
+const catalogs: CheckMessages[] = [
+  performanceMessages,
+  seoMessages,
+  securityMessages,
+  mobileMessages,
+  accessibilityMessages
+];
+
+const findings = new Map<string, LocalizedText>(catalogs.flatMap(catalog => Object.entries(catalog.findings)));
+const explanations = new Map<string, LocalizedText>(catalogs.flatMap(catalog => Object.entries(catalog.explanations)));
+
+/**
+ * Code of a finding in the catalog, e.g. 'seo.robots-disallowed.site'
+ */
+export function getFindingCode(ruleId: string, passed: boolean, variant?: string): string {
+  return [ruleId, passed ? 'passed' : null, variant ?? null].filter(Boolean).join('.');
+}
+
+/**
+ * Fill {name} placeholders with params; unknown placeholders are left as they are
+ */
+export function interpolate(template: string, params: MessageParams = {}): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder);
+}
+
+/**
+ * Render a finding message
+ * @returns The message, or null when the code is not in the catalog
+ */
+export function formatFinding(code: string, params: MessageParams | undefined, locale: Locale): string | null {
+  const text = findings.get(code);
+  return text ? interpolate(text[locale], params) : null;
+}
+
+/**
+ * Render a finding message with only some of its params, e.g. in the public scan history
+ * Placeholders without a param are shown as '…'
+ *
+ * @returns The message, or null when the code is not in the catalog
+ */
+export function formatRedactedFinding(code: string, params: MessageParams | undefined, locale: Locale): string | null {
+  const message = formatFinding(code, params, locale);
+  return message === null ? null : message.replace(/\{\w+\}/g, '…');
+}
+
+/**
+ * Help text for a rule, undefined when the catalog has none
+ */
+export function getExplanation(ruleId: string, locale: Locale): string | undefined {
+  return explanations.get(ruleId)?.[locale];
+}
@@ -0,0 +1,85 @@
+/**
+ * Mobile messages
+ * Texts for the findings and help texts of the mobile checks
+ */
+
+import type { CheckMessages } from '../types';
+
+export const mobileMessages: CheckMessages = {
+  findings: {
+    'mobile.viewport-missing': {
+      nb: 'Mangler viewport meta-tag',
+      en: 'Missing viewport meta tag'
+    },
+    'mobile.viewport-width-missing': {
+      nb: 'Viewport mangler width=device-width',
+      en: 'Viewport is missing width=device-width'
+    },
+    'mobile.viewport-width-missing.passed': {
+      nb: 'Viewport er korrekt konfigurert',
+      en: 'Viewport is configured correctly'
+    },
+    'mobile.viewport-zoom-blocked': {
+      nb: 'Viewport blokkerer zoom (dårlig for tilgjengelighet)',
+      en: 'Viewport blocks zooming (bad for accessibility)'
+    },
+    'mobile.viewport-zoom-blocked.passed': {
+      nb: 'Viewport tillater zoom',
+      en: 'Viewport allows zooming'
+    },
+    'mobile.responsive-images-missing': {
+      nb: 'Ingen responsive bilder (srcset/picture)',
+      en: 'No responsive images (srcset/picture)'
+    },
+    'mobile.media-queries-missing': {
+      nb: 'Ingen CSS media queries for responsivt design',
+      en: 'No CSS media queries for responsive design'
+    },
+    'mobile.media-queries-missing.passed': {
+      nb: '{count} responsive media queries',
+      en: '{count} responsive media queries'
+    },
+    'mobile.manifest-missing': {
+      nb: 'Mangler Web App Manifest (PWA-støtte)',
+      en: 'Missing Web App Manifest (PWA support)'
+    },
+    'mobile.manifest-missing.passed': {
+      nb: 'Web App Manifest er implementert',
+      en: 'Web App Manifest is in place'
+    },
+    'mobile.apple-touch-icon-missing': {
+      nb: 'Mangler Apple Touch Icon',
+      en: 'Missing Apple Touch Icon'
+    }
+  },
+  explanations: {
+    'mobile.viewport-missing': {
+      nb: 'Viewport-meta sikrer at siden vises korrekt på mobil. Uten den vil siden zoomes ut og være vanskelig å bruke.',
+      en: 'The viewport meta tag makes the page display correctly on mobile. Without it the page is zoomed out and hard to use.'
+    },
+    'mobile.viewport-width-missing': {
+      nb: 'width=device-width gjør at siden tilpasser seg skjermbredden i stedet for å vises som en nedskalert desktopversjon.',
+      en: 'width=device-width makes the page adapt to the screen width instead of showing a scaled-down desktop version.'
+    },
+    'mobile.viewport-zoom-blocked': {
+      nb: 'Når zoom er blokkert, kan svaksynte ikke forstørre teksten. Fjern user-scalable=no og maximum-scale fra viewport.',
+      en: 'When zooming is blocked, people with low vision cannot enlarge the text. Remove user-scalable=no and maximum-scale from the viewport.'
+    },
+    'mobile.responsive-images-missing': {
+      nb: 'Med srcset og picture får mobiler mindre bildefiler tilpasset skjermen, noe som sparer data og gir raskere lasting.',
+      en: 'With srcset and picture, phones get smaller image files suited to the screen, which saves data and loads faster.'
+    },
+    'mobile.media-queries-missing': {
+      nb: 'Media queries lar layouten tilpasse seg ulike skjermstørrelser. Uten dem blir siden vanskelig å bruke på mobil.',
+      en: 'Media queries let the layout adapt to different screen sizes. Without them the page is hard to use on mobile.'
+    },
+    'mobile.manifest-missing': {
+      nb: 'Et Web App Manifest lar besøkende legge siden til på hjemskjermen med eget ikon og navn.',
+      en: 'A Web App Manifest lets visitors add the site to their home screen with its own icon and name.'
+    },
+    'mobile.apple-touch-icon-missing': {
+      nb: 'Apple Touch Icon er ikonet som vises når siden legges til på hjemskjermen på iPhone og iPad.',
+      en: 'The Apple Touch Icon is the icon shown when the site is added to the home screen on iPhone and iPad.'
+    }
+  }
+};
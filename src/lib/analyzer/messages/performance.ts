@@ -0,0 +1,184 @@
+/**
+ * Performance messages
+ * Texts for the findings and help texts of the performance checks
+ */
+
+import type { LocalizedText } from '../../../types/api';
+import type { CheckMessages } from '../types';
+
+const serverResponse: LocalizedText = {
+  nb: 'Server-responstid påvirker både brukeropplevelse og Google-rangering. Trege sider mister besøkende.',
+  en: 'Server response time affects both user experience and Google ranking. Slow pages lose visitors.'
+};
+
+const htmlSize: LocalizedText = {
+  nb: 'Store HTML-dokumenter tar lengre tid å laste ned og tolke, særlig på mobilnett.',
+  en: 'Large HTML documents take longer to download and parse, especially on mobile networks.'
+};
+
+const blockingScripts: LocalizedText = {
+  nb: 'Render-blokkerende scripts stopper siden fra å vises til de er lastet. Async/defer løser dette.',
+  en: 'Render-blocking scripts keep the page from showing until they have loaded. Async/defer solves this.'
+};
+
+const scriptCount: LocalizedText = {
+  nb: 'Hvert script er en egen forespørsel og må tolkes av nettleseren. Fjern ubrukte scripts og slå sammen resten.',
+  en: 'Every script is a separate request and must be parsed by the browser. Remove unused scripts and combine the rest.'
+};
+
+const stylesheetCount: LocalizedText = {
+  nb: 'CSS-filer blokkerer visningen til alle er lastet. Færre filer betyr færre forespørsler før siden vises.',
+  en: 'CSS files block rendering until all of them have loaded. Fewer files mean fewer requests before the page shows.'
+};
+
+const thirdPartyOrigins: LocalizedText = {
+  nb: 'Hvert eksternt domene krever eget DNS-oppslag og egen tilkobling, og siden blir avhengig av at tjenesten svarer raskt.',
+  en: 'Every external domain needs its own DNS lookup and connection, and the page comes to depend on the service responding quickly.'
+};
+
+export const performanceMessages: CheckMessages = {
+  findings: {
+    'performance.server-response-critical': {
+      nb: 'Veldig treg server-respons: {ms}ms (bør være under 600ms)',
+      en: 'Very slow server response: {ms}ms (should be under 600ms)'
+    },
+    'performance.server-response-slow': {
+      nb: 'Treg server-respons: {ms}ms (bør være under 600ms)',
+      en: 'Slow server response: {ms}ms (should be under 600ms)'
+    },
+    'performance.server-response-moderate': {
+      nb: 'Server-respons kan forbedres: {ms}ms',
+      en: 'Server response could be faster: {ms}ms'
+    },
+    'performance.server-response-moderate.passed': {
+      nb: 'Rask server-respons: {ms}ms',
+      en: 'Fast server response: {ms}ms'
+    },
+    'performance.redirect-chain-long': {
+      nb: 'Lang videresendingskjede: {count} videresendinger før siden lastes (anbefalt maks 1)',
+      en: 'Long redirect chain: {count} redirects before the page loads (at most 1 recommended)'
+    },
+    'performance.html-size-critical': {
+      nb: 'HTML-dokumentet er for stort: {size}KB (bør være under 100KB)',
+      en: 'The HTML document is too large: {size}KB (should be under 100KB)'
+    },
+    'performance.html-size-large': {
+      nb: 'HTML-dokumentet er stort: {size}KB',
+      en: 'The HTML document is large: {size}KB'
+    },
+    'performance.html-size-moderate': {
+      nb: 'HTML-dokumentet er litt stort: {size}KB',
+      en: 'The HTML document is somewhat large: {size}KB'
+    },
+    'performance.compression-missing': {
+      nb: 'HTML sendes ukomprimert: {size}KB (aktiver gzip eller Brotli)',
+      en: 'HTML is sent uncompressed: {size}KB (enable gzip or Brotli)'
+    },
+    'performance.compression-missing.passed': {
+      nb: 'HTML er komprimert ({encoding})',
+      en: 'HTML is compressed ({encoding})'
+    },
+    'performance.compression-missing.passed.sizes': {
+      nb: 'HTML er komprimert ({encoding}): {transferred}KB overført, {size}KB utpakket',
+      en: 'HTML is compressed ({encoding}): {transferred}KB transferred, {size}KB uncompressed'
+    },
+    'performance.blocking-scripts-many': {
+      nb: '{count} render-blokkerende scripts (bruk async/defer)',
+      en: '{count} render-blocking scripts (use async/defer)'
+    },
+    'performance.blocking-scripts': {
+      nb: '{count} render-blokkerende scripts',
+      en: '{count} render-blocking scripts'
+    },
+    'performance.script-count-excessive': {
+      nb: 'For mange scripts: {count} (bør konsolideres)',
+      en: 'Too many scripts: {count} (should be consolidated)'
+    },
+    'performance.script-count-high': {
+      nb: 'Mange scripts: {count}',
+      en: 'Many scripts: {count}'
+    },
+    'performance.stylesheet-count-excessive': {
+      nb: 'For mange CSS-filer: {count} (bør kombineres)',
+      en: 'Too many CSS files: {count} (should be combined)'
+    },
+    'performance.stylesheet-count-high': {
+      nb: 'Flere CSS-filer: {count}',
+      en: 'Several CSS files: {count}'
+    },
+    'performance.image-dimensions-missing': {
+      nb: '{count} bilder mangler width/height (forårsaker layout shift)',
+      en: '{count} images are missing width/height (causes layout shift)'
+    },
+    'performance.image-lazy-loading-missing': {
+      nb: '{count} bilder under fold mangler lazy loading',
+      en: '{count} images below the fold are missing lazy loading'
+    },
+    'performance.image-legacy-format': {
+      nb: '{count} bilder bruker ikke moderne formater (WebP/AVIF)',
+      en: '{count} images do not use modern formats (WebP/AVIF)'
+    },
+    'performance.iframe-lazy-loading-missing': {
+      nb: '{count} iframes mangler lazy loading',
+      en: '{count} iframes are missing lazy loading'
+    },
+    'performance.third-party-origins-excessive': {
+      nb: 'Ressurser fra for mange eksterne domener: {count} (bør reduseres)',
+      en: 'Resources from too many external domains: {count} (should be reduced)'
+    },
+    'performance.third-party-origins-high': {
+      nb: 'Ressurser fra mange eksterne domener: {count}',
+      en: 'Resources from many external domains: {count}'
+    },
+    'performance.third-party-origins-high.passed': {
+      nb: 'Ressurser fra {count} eksterne domener',
+      en: 'Resources from {count} external domains'
+    }
+  },
+  explanations: {
+    'performance.server-response-critical': serverResponse,
+    'performance.server-response-slow': serverResponse,
+    'performance.server-response-moderate': {
+      nb: 'Server-responstid påvirker både brukeropplevelse og Google-rangering. Caching og raskere hosting gir ofte stor gevinst.',
+      en: 'Server response time affects both user experience and Google ranking. Caching and faster hosting often help a lot.'
+    },
+    'performance.redirect-chain-long': {
+      nb: 'Hver videresending er en ekstra rundtur til serveren før siden kan begynne å laste. Lenk direkte til endelig adresse.',
+      en: 'Every redirect is an extra round trip to the server before the page can start loading. Link straight to the final address.'
+    },
+    'performance.html-size-critical': htmlSize,
+    'performance.html-size-large': htmlSize,
+    'performance.html-size-moderate': {
+      nb: 'Mindre HTML gir raskere første visning. Flytt innebygd CSS og JavaScript til egne filer som kan caches.',
+      en: 'Smaller HTML gives a faster first render. Move inline CSS and JavaScript into separate files that can be cached.'
+    },
+    'performance.compression-missing': {
+      nb: 'Gzip- eller Brotli-komprimering gjør HTML-filen ofte 70-80 % mindre og kan som regel slås på i serveroppsettet.',
+      en: 'Gzip or Brotli compression often makes the HTML 70-80 % smaller and can usually be switched on in the server settings.'
+    },
+    'performance.blocking-scripts-many': blockingScripts,
+    'performance.blocking-scripts': blockingScripts,
+    'performance.script-count-excessive': scriptCount,
+    'performance.script-count-high': scriptCount,
+    'performance.stylesheet-count-excessive': stylesheetCount,
+    'performance.stylesheet-count-high': stylesheetCount,
+    'performance.image-dimensions-missing': {
+      nb: 'Med width og height kan nettleseren sette av plass til bildet før det lastes, slik at innholdet ikke hopper.',
+      en: 'With width and height the browser can reserve space for the image before it loads, so the content does not jump.'
+    },
+    'performance.image-lazy-loading-missing': {
+      nb: 'Lazy loading utsetter lasting av bilder til de trengs, noe som gjør siden mye raskere.',
+      en: 'Lazy loading defers loading images until they are needed, which makes the page much faster.'
+    },
+    'performance.image-legacy-format': {
+      nb: 'WebP og AVIF gir samme bildekvalitet med betydelig mindre filer enn JPEG og PNG.',
+      en: 'WebP and AVIF give the same image quality with much smaller files than JPEG and PNG.'
+    },
+    'performance.iframe-lazy-loading-missing': {
+      nb: 'Innebygde videoer og kart er tunge. loading="lazy" laster dem først når besøkende scroller dit.',
+      en: 'Embedded videos and maps are heavy. loading="lazy" only loads them when visitors scroll to them.'
+    },
+    'performance.third-party-origins-excessive': thirdPartyOrigins,
+    'performance.third-party-origins-high': thirdPartyOrigins
+  }
+};
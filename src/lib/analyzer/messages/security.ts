@@ -0,0 +1,433 @@
+/**
+ * Security messages
+ * Texts for the findings and help texts of the security checks
+ */
+
+import type { CheckMessages } from '../types';
+
+export const securityMessages: CheckMessages = {
+  findings: {
+    'security.https-missing': {
+      nb: 'Siden bruker ikke HTTPS',
+      en: 'The page does not use HTTPS'
+    },
+    'security.https-missing.passed': {
+      nb: 'HTTPS er aktivert',
+      en: 'HTTPS is enabled'
+    },
+    'security.https-redirect-missing': {
+      nb: 'HTTP-versjonen av siden videresendes ikke til HTTPS',
+      en: 'The HTTP version of the page does not redirect to HTTPS'
+    },
+    'security.https-redirect-missing.passed': {
+      nb: 'HTTP videresendes til HTTPS',
+      en: 'HTTP redirects to HTTPS'
+    },
+    'security.hsts-missing': {
+      nb: 'Mangler HSTS-header (Strict-Transport-Security)',
+      en: 'Missing HSTS header (Strict-Transport-Security)'
+    },
+    'security.hsts-missing.invalid': {
+      nb: 'HSTS-headeren mangler gyldig max-age og ignoreres av nettleseren',
+      en: 'The HSTS header has no valid max-age and is ignored by the browser'
+    },
+    'security.hsts-missing.disabled': {
+      nb: 'HSTS er slått av med max-age=0',
+      en: 'HSTS is turned off with max-age=0'
+    },
+    'security.hsts-missing.passed': {
+      nb: 'HSTS er korrekt konfigurert',
+      en: 'HSTS is configured correctly'
+    },
+    'security.hsts-max-age-short': {
+      nb: 'HSTS varer bare {days} dager (anbefalt minst ett år)',
+      en: 'HSTS only lasts {days} days (at least a year is recommended)'
+    },
+    'security.hsts-max-age-short.passed': {
+      nb: 'HSTS varer i {days} dager',
+      en: 'HSTS lasts {days} days'
+    },
+    'security.hsts-subdomains-missing': {
+      nb: 'HSTS gjelder ikke underdomener (mangler includeSubDomains)',
+      en: 'HSTS does not cover subdomains (missing includeSubDomains)'
+    },
+    'security.hsts-subdomains-missing.passed': {
+      nb: 'HSTS gjelder også underdomener',
+      en: 'HSTS also covers subdomains'
+    },
+    'security.hsts-preload-ineligible': {
+      nb: 'HSTS ber om preload, men oppfyller ikke kravene (mangler {missing})',
+      en: 'HSTS asks for preload but does not meet the requirements (missing {missing})'
+    },
+    'security.hsts-preload-ineligible.passed': {
+      nb: 'HSTS oppfyller kravene til preload-listen',
+      en: 'HSTS meets the preload list requirements'
+    },
+    'security.csp-missing': {
+      nb: 'Mangler Content-Security-Policy header',
+      en: 'Missing Content-Security-Policy header'
+    },
+    'security.csp-missing.passed': {
+      nb: 'CSP er implementert',
+      en: 'CSP is in place'
+    },
+    'security.csp-report-only': {
+      nb: 'CSP kjøres bare i rapporteringsmodus (Content-Security-Policy-Report-Only) og håndheves ikke',
+      en: 'CSP only runs in report-only mode (Content-Security-Policy-Report-Only) and is not enforced'
+    },
+    'security.csp-default-src-missing': {
+      nb: 'CSP mangler default-src (ressurser uten egen direktiv er ikke begrenset)',
+      en: 'CSP is missing default-src (resources without their own directive are not restricted)'
+    },
+    'security.csp-default-src-missing.scripts': {
+      nb: 'CSP mangler både default-src og script-src, så den begrenser ikke scripts',
+      en: 'CSP is missing both default-src and script-src, so it does not restrict scripts'
+    },
+    'security.csp-default-src-missing.passed': {
+      nb: 'CSP har default-src',
+      en: 'CSP has default-src'
+    },
+    'security.csp-object-src-missing': {
+      nb: "CSP blokkerer ikke plugins (mangler object-src 'none')",
+      en: "CSP does not block plugins (missing object-src 'none')"
+    },
+    'security.csp-base-uri-missing': {
+      nb: 'CSP mangler base-uri',
+      en: 'CSP is missing base-uri'
+    },
+    'security.csp-unsafe-inline': {
+      nb: "CSP tillater inline-scripts med 'unsafe-inline'",
+      en: "CSP allows inline scripts with 'unsafe-inline'"
+    },
+    'security.csp-unsafe-eval': {
+      nb: "CSP tillater eval() med 'unsafe-eval'",
+      en: "CSP allows eval() with 'unsafe-eval'"
+    },
+    'security.csp-wildcard-source': {
+      nb: 'CSP tillater scripts fra alle adresser: {sources}',
+      en: 'CSP allows scripts from any address: {sources}'
+    },
+    'security.csp-nonce-missing': {
+      nb: 'CSP godkjenner scripts etter adresse, ikke med nonce eller hash',
+      en: 'CSP allows scripts by address instead of by nonce or hash'
+    },
+    'security.csp-nonce-missing.passed': {
+      nb: 'CSP bruker nonce eller hash for scripts',
+      en: 'CSP uses nonces or hashes for scripts'
+    },
+    'security.clickjacking-unprotected': {
+      nb: 'Mangler clickjacking-beskyttelse (X-Frame-Options)',
+      en: 'Missing clickjacking protection (X-Frame-Options)'
+    },
+    'security.clickjacking-unprotected.passed': {
+      nb: 'Clickjacking-beskyttelse er aktiv',
+      en: 'Clickjacking protection is active'
+    },
+    'security.nosniff-missing': {
+      nb: 'Mangler X-Content-Type-Options: nosniff',
+      en: 'Missing X-Content-Type-Options: nosniff'
+    },
+    'security.referrer-policy-missing': {
+      nb: 'Mangler Referrer-Policy',
+      en: 'Missing Referrer-Policy'
+    },
+    'security.referrer-policy-missing.passed': {
+      nb: 'Referrer-Policy er satt ({policy})',
+      en: 'Referrer-Policy is set ({policy})'
+    },
+    'security.referrer-policy-unsafe': {
+      nb: 'Referrer-Policy {policy} sender hele adressen til andre nettsteder',
+      en: 'Referrer-Policy {policy} sends the full address to other sites'
+    },
+    'security.permissions-policy-missing': {
+      nb: 'Mangler Permissions-Policy',
+      en: 'Missing Permissions-Policy'
+    },
+    'security.permissions-policy-missing.passed': {
+      nb: 'Permissions-Policy styrer {count} funksjoner',
+      en: 'Permissions-Policy controls {count} features'
+    },
+    'security.permissions-policy-wildcard': {
+      nb: 'Permissions-Policy gir alle domener tilgang til {features}',
+      en: 'Permissions-Policy gives every domain access to {features}'
+    },
+    'security.coop-missing': {
+      nb: 'Mangler Cross-Origin-Opener-Policy',
+      en: 'Missing Cross-Origin-Opener-Policy'
+    },
+    'security.coop-missing.unsafe-none': {
+      nb: 'Cross-Origin-Opener-Policy er satt til unsafe-none og isolerer ikke siden',
+      en: 'Cross-Origin-Opener-Policy is set to unsafe-none and does not isolate the page'
+    },
+    'security.coop-missing.passed': {
+      nb: 'Cross-Origin-Opener-Policy er satt ({value})',
+      en: 'Cross-Origin-Opener-Policy is set ({value})'
+    },
+    'security.coep-missing': {
+      nb: 'Mangler Cross-Origin-Embedder-Policy',
+      en: 'Missing Cross-Origin-Embedder-Policy'
+    },
+    'security.coep-missing.unsafe-none': {
+      nb: 'Cross-Origin-Embedder-Policy er satt til unsafe-none og isolerer ikke siden',
+      en: 'Cross-Origin-Embedder-Policy is set to unsafe-none and does not isolate the page'
+    },
+    'security.coep-missing.invalid': {
+      nb: 'Cross-Origin-Embedder-Policy har en ugyldig verdi ({value}) og ignoreres av nettleseren',
+      en: 'Cross-Origin-Embedder-Policy has an invalid value ({value}) and is ignored by the browser'
+    },
+    'security.coep-missing.passed': {
+      nb: 'Cross-Origin-Embedder-Policy er satt ({value})',
+      en: 'Cross-Origin-Embedder-Policy is set ({value})'
+    },
+    'security.corp-missing': {
+      nb: 'Mangler Cross-Origin-Resource-Policy',
+      en: 'Missing Cross-Origin-Resource-Policy'
+    },
+    'security.corp-missing.invalid': {
+      nb: 'Cross-Origin-Resource-Policy har en ugyldig verdi ({value}) og ignoreres av nettleseren',
+      en: 'Cross-Origin-Resource-Policy has an invalid value ({value}) and is ignored by the browser'
+    },
+    'security.corp-missing.passed': {
+      nb: 'Cross-Origin-Resource-Policy er satt ({value})',
+      en: 'Cross-Origin-Resource-Policy is set ({value})'
+    },
+    'security.mixed-content': {
+      nb: '{count} ressurser lastes over HTTP (mixed content)',
+      en: '{count} resources are loaded over HTTP (mixed content)'
+    },
+    'security.cookie-insecure': {
+      nb: '{count} informasjonskapsler mangler Secure: {names}',
+      en: '{count} cookies are missing Secure: {names}'
+    },
+    'security.cookie-insecure.passed': {
+      nb: 'Alle informasjonskapsler har Secure',
+      en: 'All cookies have Secure'
+    },
+    'security.cookie-httponly-missing': {
+      nb: '{count} øktkapsler mangler HttpOnly: {names}',
+      en: '{count} session cookies are missing HttpOnly: {names}'
+    },
+    'security.cookie-httponly-missing.passed': {
+      nb: 'Øktkapsler er beskyttet med HttpOnly',
+      en: 'Session cookies are protected with HttpOnly'
+    },
+    'security.cookie-samesite-missing': {
+      nb: '{count} informasjonskapsler mangler SameSite eller bruker SameSite=None: {names}',
+      en: '{count} cookies are missing SameSite or use SameSite=None: {names}'
+    },
+    'security.cookie-samesite-missing.passed': {
+      nb: 'Alle informasjonskapsler har SameSite',
+      en: 'All cookies have SameSite'
+    },
+    'security.cookie-domain-broad': {
+      nb: '{count} informasjonskapsler deles med alle underdomener: {names}',
+      en: '{count} cookies are shared with every subdomain: {names}'
+    },
+    'security.cookie-lifetime-long': {
+      nb: '{count} informasjonskapsler varer lenger enn ett år: {names}',
+      en: '{count} cookies last longer than a year: {names}'
+    },
+    'security.sri-missing': {
+      nb: '{count} eksterne scripts og CSS-filer mangler integrity (SRI): {hosts}',
+      en: '{count} external scripts and CSS files are missing integrity (SRI): {hosts}'
+    },
+    'security.sri-missing.passed': {
+      nb: 'Alle {count} eksterne scripts og CSS-filer har integrity (SRI)',
+      en: 'All {count} external scripts and CSS files have integrity (SRI)'
+    },
+    'security.sri-crossorigin-missing': {
+      nb: '{count} eksterne ressurser har integrity uten crossorigin og blir blokkert: {hosts}',
+      en: '{count} external resources have integrity without crossorigin and are blocked: {hosts}'
+    },
+    'security.security-txt-missing': {
+      nb: 'Mangler security.txt (/.well-known/security.txt)',
+      en: 'Missing security.txt (/.well-known/security.txt)'
+    },
+    'security.security-txt-missing.passed': {
+      nb: 'security.txt er publisert',
+      en: 'security.txt is published'
+    },
+    'security.security-txt-contact-missing': {
+      nb: 'security.txt mangler Contact-felt',
+      en: 'security.txt is missing a Contact field'
+    },
+    'security.security-txt-contact-missing.passed': {
+      nb: 'security.txt oppgir kontakt: {contact}',
+      en: 'security.txt lists a contact: {contact}'
+    },
+    'security.security-txt-expires.missing': {
+      nb: 'security.txt mangler Expires-felt',
+      en: 'security.txt is missing an Expires field'
+    },
+    'security.security-txt-expires.invalid': {
+      nb: 'security.txt har ugyldig Expires-dato: {expires}',
+      en: 'security.txt has an invalid Expires date: {expires}'
+    },
+    'security.security-txt-expires.expired': {
+      nb: 'security.txt utløp {date}',
+      en: 'security.txt expired on {date}'
+    },
+    'security.security-txt-expires.distant': {
+      nb: 'security.txt utløper først {date} (anbefalt under ett år frem i tid)',
+      en: 'security.txt does not expire until {date} (less than a year ahead is recommended)'
+    },
+    'security.security-txt-expires.passed': {
+      nb: 'security.txt er gyldig til {date}',
+      en: 'security.txt is valid until {date}'
+    },
+    'security.security-txt-unsigned': {
+      nb: 'security.txt er ikke signert med OpenPGP',
+      en: 'security.txt is not signed with OpenPGP'
+    },
+    'security.security-txt-unsigned.passed': {
+      nb: 'security.txt er signert med OpenPGP',
+      en: 'security.txt is signed with OpenPGP'
+    }
+  },
+  explanations: {
+    'security.https-missing': {
+      nb: 'HTTPS beskytter brukerdata og er en rangeringsfaktor i Google. Uten HTTPS vises "Ikke sikker" i nettleseren.',
+      en: 'HTTPS protects user data and is a Google ranking factor. Without HTTPS the browser shows "Not secure".'
+    },
+    'security.https-redirect-missing': {
+      nb: 'Besøkende som skriver adressen uten https havner ellers på en ukryptert versjon av siden.',
+      en: 'Otherwise visitors who type the address without https end up on an unencrypted version of the page.'
+    },
+    'security.hsts-missing': {
+      nb: 'HSTS sørger for at nettleseren alltid bruker HTTPS, også når noen lenker til http-adressen.',
+      en: 'HSTS makes the browser always use HTTPS, even when someone links to the http address.'
+    },
+    'security.hsts-max-age-short': {
+      nb: 'max-age bestemmer hvor lenge nettleseren husker HSTS. Kort levetid gir et vindu der første besøk kan gå over HTTP igjen.',
+      en: 'max-age decides how long the browser remembers HSTS. A short lifetime leaves a window where the first visit can go over HTTP again.'
+    },
+    'security.hsts-subdomains-missing': {
+      nb: 'Uten includeSubDomains kan underdomener lastes over HTTP, og angripere kan sette informasjonskapsler for hele domenet derfra.',
+      en: 'Without includeSubDomains, subdomains can load over HTTP, and attackers can set cookies for the whole domain from there.'
+    },
+    'security.hsts-preload-ineligible': {
+      nb: 'Preload-listen er innebygd i nettleserne og beskytter også første besøk. Den krever max-age på minst ett år, includeSubDomains og preload.',
+      en: 'The preload list is built into browsers and protects the very first visit too. It requires a max-age of at least a year, includeSubDomains and preload.'
+    },
+    'security.csp-missing': {
+      nb: 'Content-Security-Policy begrenser hvilke scripts som får kjøre, og er et viktig vern mot XSS-angrep.',
+      en: 'Content-Security-Policy limits which scripts may run and is an important defence against XSS attacks.'
+    },
+    'security.csp-report-only': {
+      nb: 'I rapporteringsmodus melder nettleseren fra om brudd, men blokkerer ingenting. Bytt til Content-Security-Policy når rapportene er rene.',
+      en: 'In report-only mode the browser reports violations but blocks nothing. Switch to Content-Security-Policy once the reports are clean.'
+    },
+    'security.csp-default-src-missing': {
+      nb: 'default-src er reserven for alle ressurstyper uten eget direktiv. Uten den kan for eksempel fonter og iframes lastes fra hvor som helst.',
+      en: 'default-src is the fallback for every resource type without its own directive. Without it fonts and iframes, for example, can load from anywhere.'
+    },
+    'security.csp-object-src-missing': {
+      nb: "Plugins via <object> og <embed> kan kjøre kode utenom script-src. object-src 'none' stenger den døren.",
+      en: "Plugins through <object> and <embed> can run code outside script-src. object-src 'none' closes that door."
+    },
+    'security.csp-base-uri-missing': {
+      nb: 'Uten base-uri kan en injisert <base>-tag sende relative script-adresser til en annen server.',
+      en: 'Without base-uri an injected <base> tag can point relative script URLs at another server.'
+    },
+    'security.csp-unsafe-inline': {
+      nb: "Med 'unsafe-inline' kjører også scripts som en angriper klarer å sprøyte inn, og CSP gir nesten ikke vern mot XSS.",
+      en: "With 'unsafe-inline' scripts injected by an attacker run too, and CSP gives almost no protection against XSS."
+    },
+    'security.csp-unsafe-eval': {
+      nb: "'unsafe-eval' lar tekst bli kjørt som kode via eval() og lignende, noe som gjør XSS lettere å utnytte.",
+      en: "'unsafe-eval' lets text be run as code through eval() and similar, which makes XSS easier to exploit."
+    },
+    'security.csp-wildcard-source': {
+      nb: 'Kilder som * og https: tillater scripts fra alle servere, også angriperens. Oppgi konkrete domener eller bruk nonce.',
+      en: "Sources like * and https: allow scripts from every server, the attacker's included. List specific domains or use nonces."
+    },
+    'security.csp-nonce-missing': {
+      nb: "Lister over domener kan ofte omgås via tjenester på de samme domenene. Nonce eller hash med 'strict-dynamic' er tryggere.",
+      en: "Domain allowlists can often be bypassed through services on the same domains. Nonces or hashes with 'strict-dynamic' are safer."
+    },
+    'security.clickjacking-unprotected': {
+      nb: 'Uten X-Frame-Options eller frame-ancestors kan andre sider legge din side i en usynlig ramme og lure brukere til å klikke.',
+      en: 'Without X-Frame-Options or frame-ancestors, other sites can put your page in an invisible frame and trick users into clicking.'
+    },
+    'security.nosniff-missing': {
+      nb: 'X-Content-Type-Options: nosniff hindrer nettleseren i å tolke filer som noe annet enn serveren oppgir.',
+      en: 'X-Content-Type-Options: nosniff stops the browser from treating files as something other than what the server declares.'
+    },
+    'security.referrer-policy-missing': {
+      nb: 'Referrer-Policy bestemmer hvor mye av adressen som sendes videre når besøkende klikker seg ut. Uten den gjelder nettleserens standard, som varierer.',
+      en: 'Referrer-Policy decides how much of the address is passed on when visitors click away. Without it the browser default applies, which varies.'
+    },
+    'security.referrer-policy-unsafe': {
+      nb: 'Adresser kan inneholde søkeord, ID-er og tokens. Med strict-origin-when-cross-origin får andre nettsteder bare domenet.',
+      en: 'Addresses can contain search terms, IDs and tokens. With strict-origin-when-cross-origin other sites only get the domain.'
+    },
+    'security.permissions-policy-missing': {
+      nb: 'Permissions-Policy slår av kamera, mikrofon, posisjon og andre funksjoner siden ikke bruker, også for innebygde tredjeparter.',
+      en: 'Permissions-Policy turns off camera, microphone, location and other features the page does not use, for embedded third parties too.'
+    },
+    'security.permissions-policy-wildcard': {
+      nb: 'Med * kan alle innebygde sider be om tilgang. Oppgi bare domenene som trenger funksjonen.',
+      en: 'With * every embedded page can ask for access. List only the domains that need the feature.'
+    },
+    'security.coop-missing': {
+      nb: 'Cross-Origin-Opener-Policy skiller siden fra vinduer den åpner eller blir åpnet fra, og demper angrep som Spectre og tabnabbing.',
+      en: 'Cross-Origin-Opener-Policy separates the page from windows it opens or is opened from, and mitigates attacks such as Spectre and tabnabbing.'
+    },
+    'security.coep-missing': {
+      nb: 'Sammen med Cross-Origin-Opener-Policy gir Cross-Origin-Embedder-Policy full isolasjon fra andre nettsteder. Krever at alle innebygde ressurser tillater det.',
+      en: 'Together with Cross-Origin-Opener-Policy, Cross-Origin-Embedder-Policy gives full isolation from other sites. Requires every embedded resource to allow it.'
+    },
+    'security.corp-missing': {
+      nb: 'Cross-Origin-Resource-Policy hindrer andre nettsteder i å laste inn ressursene dine og lese dem gjennom sidekanaler.',
+      en: 'Cross-Origin-Resource-Policy stops other sites from loading your resources and reading them through side channels.'
+    },
+    'security.mixed-content': {
+      nb: 'Ressurser over HTTP på en HTTPS-side kan blokkeres av nettleseren eller endres underveis.',
+      en: 'Resources loaded over HTTP on an HTTPS page may be blocked by the browser or altered in transit.'
+    },
+    'security.cookie-insecure': {
+      nb: 'Uten Secure kan informasjonskapselen sendes over ukryptert HTTP og leses av andre på samme nettverk.',
+      en: 'Without Secure the cookie can be sent over unencrypted HTTP and read by others on the same network.'
+    },
+    'security.cookie-httponly-missing': {
+      nb: 'HttpOnly hindrer JavaScript i å lese øktkapselen, slik at et XSS-angrep ikke kan stjele innloggingen.',
+      en: 'HttpOnly stops JavaScript from reading the session cookie, so an XSS attack cannot steal the login.'
+    },
+    'security.cookie-samesite-missing': {
+      nb: 'SameSite=Lax eller Strict hindrer at informasjonskapselen sendes med forespørsler fra andre nettsteder (CSRF).',
+      en: 'SameSite=Lax or Strict stops the cookie from being sent with requests from other sites (CSRF).'
+    },
+    'security.cookie-domain-broad': {
+      nb: 'Med Domain satt til hoveddomenet sendes informasjonskapselen til alle underdomener. Utelat Domain for å holde den på denne adressen.',
+      en: 'With Domain set to the parent domain the cookie is sent to every subdomain. Leave out Domain to keep it on this host.'
+    },
+    'security.cookie-lifetime-long': {
+      nb: 'Informasjonskapsler som varer i årevis holder på økter og sporings-ID-er lenge etter at de trengs. Hold levetiden kort.',
+      en: 'Cookies that last for years keep sessions and tracking IDs around long after they are needed. Keep lifetimes short.'
+    },
+    'security.sri-missing': {
+      nb: 'Blir en CDN kompromittert, kan filene endres for alle nettsteder som laster dem. Med integrity-attributtet nekter nettleseren å kjøre filer som er endret.',
+      en: 'If a CDN is compromised, its files can be changed for every site that loads them. With the integrity attribute the browser refuses to run files that have been changed.'
+    },
+    'security.sri-crossorigin-missing': {
+      nb: 'Nettleseren kan bare kontrollere integrity for filer fra andre domener når de hentes med CORS. Legg til crossorigin="anonymous".',
+      en: 'The browser can only verify integrity for files from other domains when they are fetched with CORS. Add crossorigin="anonymous".'
+    },
+    'security.security-txt-missing': {
+      nb: 'security.txt forteller sikkerhetsforskere hvordan de melder fra om sårbarheter, så funn havner hos dere og ikke i offentligheten.',
+      en: 'security.txt tells security researchers how to report vulnerabilities, so findings reach you instead of the public.'
+    },
+    'security.security-txt-contact-missing': {
+      nb: 'Contact er det eneste feltet i security.txt som sier hvor funn skal sendes, og er påkrevd.',
+      en: 'Contact is the only security.txt field that says where to send findings, and it is required.'
+    },
+    'security.security-txt-expires': {
+      nb: 'Expires er påkrevd og hindrer at utdaterte kontaktopplysninger blir stående. Oppdater datoen minst én gang i året.',
+      en: 'Expires is required and keeps outdated contact details from lingering. Update the date at least once a year.'
+    },
+    'security.security-txt-unsigned': {
+      nb: 'En OpenPGP-signatur lar forskere bekrefte at filen kommer fra dere og ikke er endret.',
+      en: 'An OpenPGP signature lets researchers confirm that the file comes from you and has not been changed.'
+    }
+  }
+};
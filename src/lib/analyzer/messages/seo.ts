@@ -0,0 +1,211 @@
+/**
+ * SEO messages
+ * Texts for the findings and help texts of the SEO checks
+ */
+
+import type { LocalizedText } from '../../../types/api';
+import type { CheckMessages } from '../types';
+
+const title: LocalizedText = {
+  nb: 'Title-taggen vises i Google-søk og nettleser-faner. En god title øker klikk fra søkeresultater.',
+  en: 'The title tag is shown in Google search and browser tabs. A good title gets more clicks from search results.'
+};
+
+const metaDescription: LocalizedText = {
+  nb: 'Meta description vises under title i Google. En god beskrivelse øker klikkraten betydelig.',
+  en: 'The meta description is shown below the title in Google. A good description raises the click rate considerably.'
+};
+
+const openGraph: LocalizedText = {
+  nb: 'Open Graph-tags bestemmer hvordan siden ser ut når den deles på Facebook, LinkedIn og andre sosiale medier.',
+  en: 'Open Graph tags decide how the page looks when shared on Facebook, LinkedIn and other social media.'
+};
+
+export const seoMessages: CheckMessages = {
+  findings: {
+    'seo.title-missing': {
+      nb: 'Mangler title-tag',
+      en: 'Missing title tag'
+    },
+    'seo.title-too-short': {
+      nb: 'Title er for kort: {length} tegn (anbefalt 50-60)',
+      en: 'Title is too short: {length} characters (50-60 recommended)'
+    },
+    'seo.title-too-long': {
+      nb: 'Title er for lang: {length} tegn (anbefalt 50-60)',
+      en: 'Title is too long: {length} characters (50-60 recommended)'
+    },
+    'seo.title-too-long.passed': {
+      nb: 'Optimal title-lengde: {length} tegn',
+      en: 'Optimal title length: {length} characters'
+    },
+    'seo.meta-description-missing': {
+      nb: 'Mangler meta description',
+      en: 'Missing meta description'
+    },
+    'seo.meta-description-too-short': {
+      nb: 'Meta description er for kort: {length} tegn (anbefalt 150-160)',
+      en: 'Meta description is too short: {length} characters (150-160 recommended)'
+    },
+    'seo.meta-description-too-long': {
+      nb: 'Meta description er litt lang: {length} tegn (kan bli avkortet)',
+      en: 'Meta description is a bit long: {length} characters (may be truncated)'
+    },
+    'seo.h1-missing': {
+      nb: 'Mangler H1-overskrift',
+      en: 'Missing H1 heading'
+    },
+    'seo.h1-multiple': {
+      nb: 'Flere H1-overskrifter: {count} (bør kun ha én)',
+      en: 'Multiple H1 headings: {count} (should have only one)'
+    },
+    'seo.h1-multiple.passed': {
+      nb: 'Korrekt bruk av H1-overskrift',
+      en: 'Correct use of the H1 heading'
+    },
+    'seo.canonical-missing': {
+      nb: 'Mangler canonical URL',
+      en: 'Missing canonical URL'
+    },
+    'seo.canonical-missing.passed': {
+      nb: 'Canonical URL er definert',
+      en: 'Canonical URL is declared'
+    },
+    'seo.open-graph-missing': {
+      nb: 'Mangler Open Graph-tags (påvirker deling på sosiale medier)',
+      en: 'Missing Open Graph tags (affects sharing on social media)'
+    },
+    'seo.open-graph-incomplete': {
+      nb: 'Ufullstendige Open Graph-tags ({count}/4)',
+      en: 'Incomplete Open Graph tags ({count}/4)'
+    },
+    'seo.open-graph-incomplete.passed': {
+      nb: 'Komplett Open Graph-implementasjon',
+      en: 'Complete Open Graph implementation'
+    },
+    'seo.image-alt-missing': {
+      nb: '{count} bilder mangler alt-tekst',
+      en: '{count} images are missing alt text'
+    },
+    'seo.structured-data-missing': {
+      nb: 'Mangler strukturert data (Schema.org)',
+      en: 'Missing structured data (Schema.org)'
+    },
+    'seo.structured-data-missing.passed': {
+      nb: 'Strukturert data er implementert',
+      en: 'Structured data is in place'
+    },
+    'seo.lang-missing': {
+      nb: 'Mangler språkdeklarasjon (lang-attributt)',
+      en: 'Missing language declaration (lang attribute)'
+    },
+    'seo.robots-disallowed': {
+      nb: 'Siden er blokkert for Googlebot i robots.txt',
+      en: 'The page is blocked for Googlebot in robots.txt'
+    },
+    'seo.robots-disallowed.site': {
+      nb: 'robots.txt blokkerer hele nettstedet for Googlebot',
+      en: 'robots.txt blocks the whole site for Googlebot'
+    },
+    'seo.robots-disallowed.passed': {
+      nb: 'Siden er tilgjengelig for Googlebot i robots.txt',
+      en: 'The page is open to Googlebot in robots.txt'
+    },
+    'seo.robots-missing': {
+      nb: 'Mangler robots.txt',
+      en: 'Missing robots.txt'
+    },
+    'seo.robots-unreachable': {
+      nb: 'robots.txt kunne ikke hentes (kan stoppe indeksering hos Google)',
+      en: 'robots.txt could not be fetched (may stop indexing by Google)'
+    },
+    'seo.sitemap-missing': {
+      nb: 'Mangler sitemap.xml',
+      en: 'Missing sitemap.xml'
+    },
+    'seo.sitemap-missing.passed': {
+      nb: 'Sitemap funnet ({count} URLer)',
+      en: 'Sitemap found ({count} URLs)'
+    },
+    'seo.sitemap-invalid': {
+      nb: 'Sitemap er ikke gyldig XML (urlset eller sitemapindex)',
+      en: 'Sitemap is not valid XML (urlset or sitemapindex)'
+    },
+    'seo.sitemap-not-in-robots': {
+      nb: 'Sitemap er ikke oppgitt i robots.txt',
+      en: 'Sitemap is not listed in robots.txt'
+    },
+    'seo.redirect-temporary': {
+      nb: 'Midlertidig videresending ({status}) fra {from} til {to} (bruk 301 for permanente videresendinger)',
+      en: 'Temporary redirect ({status}) from {from} to {to} (use 301 for permanent redirects)'
+    }
+  },
+  explanations: {
+    'seo.title-missing': title,
+    'seo.title-too-short': title,
+    'seo.title-too-long': {
+      nb: 'Title-taggen vises i Google-søk og nettleser-faner. For lange titler blir avkortet i søkeresultatene.',
+      en: 'The title tag is shown in Google search and browser tabs. Titles that are too long get truncated in search results.'
+    },
+    'seo.meta-description-missing': metaDescription,
+    'seo.meta-description-too-short': metaDescription,
+    'seo.meta-description-too-long': {
+      nb: 'Meta description vises under title i Google. Lange beskrivelser blir avkortet i søkeresultatene.',
+      en: 'The meta description is shown below the title in Google. Long descriptions get truncated in search results.'
+    },
+    'seo.h1-missing': {
+      nb: 'H1-overskriften forteller Google hva siden handler om. Viktig for rangering på relevante søkeord.',
+      en: 'The H1 heading tells Google what the page is about. Important for ranking on relevant keywords.'
+    },
+    'seo.h1-multiple': {
+      nb: 'H1-overskriften forteller Google hva siden handler om. Én tydelig H1 per side gjør budskapet klarere.',
+      en: 'The H1 heading tells Google what the page is about. One clear H1 per page makes the message clearer.'
+    },
+    'seo.canonical-missing': {
+      nb: 'Canonical URL forteller Google hvilken versjon av siden som er "hovedversjonen" og unngår duplikatinnhold.',
+      en: 'The canonical URL tells Google which version of the page is the "main version" and avoids duplicate content.'
+    },
+    'seo.open-graph-missing': openGraph,
+    'seo.open-graph-incomplete': openGraph,
+    'seo.image-alt-missing': {
+      nb: 'Alt-tekst hjelper søkemotorer forstå bildene dine og er kritisk for synshemmede brukere.',
+      en: 'Alt text helps search engines understand your images and is essential for visually impaired users.'
+    },
+    'seo.structured-data-missing': {
+      nb: 'Strukturert data hjelper Google å forstå innholdet og kan gi rikere visning i søkeresultatene.',
+      en: 'Structured data helps Google understand the content and can give richer results in search.'
+    },
+    'seo.lang-missing': {
+      nb: 'Språkdeklarasjonen hjelper søkemotorer å vise siden til brukere som søker på riktig språk.',
+      en: 'The language declaration helps search engines show the page to people searching in that language.'
+    },
+    'seo.robots-disallowed': {
+      nb: 'Sider som er blokkert i robots.txt blir ikke gjennomsøkt av Google og kan forsvinne fra søkeresultatene.',
+      en: 'Pages blocked in robots.txt are not crawled by Google and may disappear from search results.'
+    },
+    'seo.robots-missing': {
+      nb: 'robots.txt forteller søkemotorer hva de kan gjennomsøke og hvor sitemapen ligger.',
+      en: 'robots.txt tells search engines what they may crawl and where the sitemap is.'
+    },
+    'seo.robots-unreachable': {
+      nb: 'Når robots.txt svarer med serverfeil, kan Google stoppe gjennomsøkingen av hele nettstedet.',
+      en: 'When robots.txt responds with a server error, Google may stop crawling the whole site.'
+    },
+    'seo.sitemap-missing': {
+      nb: 'En sitemap gir søkemotorer en liste over sidene dine, slik at nye sider blir funnet raskere.',
+      en: 'A sitemap gives search engines a list of your pages, so new pages are found sooner.'
+    },
+    'seo.sitemap-invalid': {
+      nb: 'Søkemotorer ignorerer sitemaps de ikke kan lese. Sjekk at filen er gyldig XML med urlset eller sitemapindex.',
+      en: 'Search engines ignore sitemaps they cannot read. Check that the file is valid XML with urlset or sitemapindex.'
+    },
+    'seo.sitemap-not-in-robots': {
+      nb: 'En Sitemap-linje i robots.txt gjør at alle søkemotorer finner sitemapen uten at du må melde den inn.',
+      en: 'A Sitemap line in robots.txt lets every search engine find the sitemap without you submitting it.'
+    },
+    'seo.redirect-temporary': {
+      nb: 'Midlertidige videresendinger (302/307) sier at den gamle adressen kommer tilbake. Bruk 301 når flyttingen er permanent.',
+      en: 'Temporary redirects (302/307) say the old address will come back. Use 301 when the move is permanent.'
+    }
+  }
+};
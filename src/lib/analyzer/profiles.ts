@@ -0,0 +1,97 @@
+/**
+ * Scoring profiles
+ * Named category weights so the total score reflects what a client segment cares about
+ */
+
+import {
+  DEFAULT_LOCALE,
+  type AnalysisResult,
+  type CategoryKey,
+  type LocalizedText,
+  type ScoringInfo,
+  type ScoringProfileId
+} from '../../types/api';
+import { CATEGORY_KEYS, SCORE_WEIGHTS, calculateTotalScore } from './result';
+
+export interface ScoringProfile {
+  id: ScoringProfileId;
+  /** Display name for the scanner and reports */
+  label: LocalizedText;
+  /** Short explanation of who the profile is for */
+  description: LocalizedText;
+  /** Weight of each category in the total score (sums to 1) */
+  weights: Record<CategoryKey, number>;
+}
+
+const STANDARD_PROFILE: ScoringProfile = {
+  id: 'standard',
+  label: { nb: 'Standard', en: 'Standard' },
+  description: {
+    nb: 'Balansert vekting for de fleste nettsider',
+    en: 'Balanced weighting for most websites'
+  },
+  weights: SCORE_WEIGHTS
+};
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfileId = STANDARD_PROFILE.id;
+
+/**
+ * Available profiles, in the order they are offered in the scanner
+ */
+export const SCORING_PROFILES: ScoringProfile[] = [
+  STANDARD_PROFILE,
+  {
+    id: 'e-commerce',
+    label: { nb: 'Netthandel', en: 'E-commerce' },
+    description: {
+      nb: 'Hastighet teller mest når hvert sekund koster salg',
+      en: 'Speed counts most when every second costs sales'
+    },
+    weights: { performance: 0.35, seo: 0.20, security: 0.20, mobile: 0.15, accessibility: 0.10 }
+  },
+  {
+    id: 'public-sector',
+    label: { nb: 'Offentlig sektor', en: 'Public sector' },
+    description: {
+      nb: 'Universell utforming og sikkerhet veier tyngst',
+      en: 'Accessibility and security weigh the most'
+    },
+    weights: { performance: 0.15, seo: 0.15, security: 0.20, mobile: 0.15, accessibility: 0.35 }
+  }
+];
+
+/**
+ * Look up a profile, falling back to the default for unknown ids
+ */
+export function getScoringProfile(id: string | null | undefined): ScoringProfile {
+  return SCORING_PROFILES.find(profile => profile.id === id) ?? STANDARD_PROFILE;
+}
+
+function scoreWith(result: AnalysisResult, weights: Record<CategoryKey, number>): number {
+  const scores = {} as Record<CategoryKey, number>;
+  for (const key of CATEGORY_KEYS) {
+    scores[key] = result.categories[key].score;
+  }
+  return calculateTotalScore(scores, weights);
+}
+
+/**
+ * Recompute the total score of a result with a profile's weights
+ * Category scores are unchanged; crawled pages are rescored as well.
+ */
+export function applyScoringProfile(result: AnalysisResult, id: ScoringProfileId): AnalysisResult {
+  const profile = getScoringProfile(id);
+  const scoring: ScoringInfo = { profile: profile.id, label: profile.label[DEFAULT_LOCALE], weights: profile.weights };
+
+  return {
+    ...result,
+    totalScore: scoreWith(result, profile.weights),
+    scoring,
+    ...(result.crawl && {
+      crawl: {
+        ...result.crawl,
+        pages: result.crawl.pages.map(page => ({ ...page, totalScore: scoreWith(page, profile.weights) }))
+      }
+    })
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Check registry for the website analyzer
+ * Checks are declared individually and can be added, disabled or re-weighted
+ * without touching the API route
+ */
+
+import { DEFAULT_LOCALE, type AnalysisDetail, type CategoryKey } from '../../types/api';
+import { formatFinding, getExplanation, getFindingCode } from './messages';
+import type { CategoryEvaluation, Check, CheckOverride, PageContext } from './types';
+
+const checks = new Map<string, Check>();
+const overrides = new Map<string, CheckOverride>();
+
+/**
+ * Register a check
+ * @param check Check to add to the registry
+ * @throws Error if a check with the same id is already registered
+ */
+export function registerCheck(check: Check): void {
+  if (checks.has(check.id)) {
+    throw new Error(`[Analyzer] Check already registered: ${check.id}`);
+  }
+  checks.set(check.id, check);
+}
+
+/**
+ * Remove a check from the registry
+ * @param id Rule id of the check
+ */
+export function unregisterCheck(id: string): void {
+  checks.delete(id);
+  overrides.delete(id);
+}
+
+/**
+ * Disable, re-weight or change the severity of a registered check
+ * Overrides are merged with any previous override for the same check
+ *
+ * @example
+ * ```typescript
+ * configureCheck('mobile.apple-touch-icon-missing', { enabled: false });
+ * configureCheck('security.hsts-missing', { penalty: 20, severity: 'critical' });
+ * ```
+ */
+export function configureCheck(id: string, override: CheckOverride): void {
+  if (!checks.has(id)) {
+    throw new Error(`[Analyzer] Unknown check: ${id}`);
+  }
+  overrides.set(id, { ...overrides.get(id), ...override });
+}
+
+/**
+ * Get enabled checks with overrides applied, in registration order
+ * @param category Only return checks for this category
+ */
+export function getChecks(category?: CategoryKey): Check[] {
+  const result: Check[] = [];
+
+  for (const check of checks.values()) {
+    if (category !== undefined && check.category !== category) continue;
+
+    const override = overrides.get(check.id);
+    if (override?.enabled === false) continue;
+
+    result.push({
+      ...check,
+      penalty: override?.penalty ?? check.penalty,
+      severity: override?.severity ?? check.severity
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Run all enabled checks for a category and compute its score
+ * Messages are rendered in the default locale; each detail keeps its code and
+ * params so it can be rendered in another language later.
+ * @param category Category to evaluate
+ * @param ctx Shared page context
+ */
+export function runCategoryChecks(category: CategoryKey, ctx: PageContext): CategoryEvaluation {
+  let score = 100;
+  const successes: AnalysisDetail[] = [];
+  const issues: AnalysisDetail[] = [];
+
+  for (const check of getChecks(category)) {
+    const finding = check.evaluate(ctx);
+    if (!finding) continue;
+
+    const code = getFindingCode(check.id, finding.passed, finding.variant);
+    const text = {
+      message: formatFinding(code, finding.params, DEFAULT_LOCALE) ?? code,
+      code,
+      ...(finding.params && { params: finding.params }),
+      explanation: getExplanation(check.id, DEFAULT_LOCALE),
+      docsUrl: check.docsUrl,
+      ...(check.wcag && { wcag: check.wcag })
+    };
+    if (finding.passed) {
+      successes.push({ ruleId: check.id, type: 'success', ...text });
+    } else {
+      const scale = Math.max(0, Math.min(1, finding.scale ?? 1));
+      score -= check.penalty * scale;
+      issues.push({
+        ruleId: check.id,
+        severity: check.severity,
+        ...text,
+        fixMinutes: check.fixMinutes,
+        impact: Math.round(check.penalty * scale)
+      });
+    }
+  }
+
+  return {
+    score: Math.max(0, Math.min(100, Math.round(score))),
+    details: [...successes, ...issues]
+  };
+}
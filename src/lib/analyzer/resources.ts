@@ -0,0 +1,159 @@
+/**
+ * Resource extraction for the website analyzer
+ * Collects scripts, stylesheets, images and iframes from the parsed document
+ */
+
+import type { HTMLElement } from 'node-html-parser';
+import { getAttr, hasRel, parseSrcset, type ParsedDocument } from './document';
+
+export interface Resource {
+  src?: string | null;
+  isInline?: boolean;
+  isAsync?: boolean;
+  isDefer?: boolean;
+  isModule?: boolean;
+  /** Whether an integrity attribute (Subresource Integrity) is present */
+  hasIntegrity?: boolean;
+  /** Value of the crossorigin attribute, null when missing */
+  crossOrigin?: string | null;
+  href?: string;
+  isPreload?: boolean;
+  hasAlt?: boolean;
+  altText?: string | null;
+  hasEmptyAlt?: boolean;
+  hasDimensions?: boolean;
+  width?: number | null;
+  height?: number | null;
+  hasLazyLoading?: boolean;
+  hasSrcset?: boolean;
+  isWebP?: boolean;
+  isAvif?: boolean;
+  isModernFormat?: boolean;
+}
+
+export interface Resources {
+  scripts: Resource[];
+  stylesheets: Resource[];
+  images: Resource[];
+  fonts: Resource[];
+  iframes: Resource[];
+}
+
+// Script types browsers execute; anything else (JSON-LD, templates) is a data block
+const EXECUTABLE_SCRIPT_TYPE = /^(|module|(text|application)\/(x-)?(java|ecma)script)$/i;
+
+// Lazy-loading libraries keep the real URL in data-* attributes until the image is in view
+const LAZY_SRC_ATTRIBUTES = ['data-src', 'data-lazy-src', 'data-original'];
+
+export function extractResources(document: ParsedDocument): Resources {
+  const resources: Resources = {
+    scripts: [],
+    stylesheets: [],
+    images: [],
+    fonts: [],
+    iframes: []
+  };
+
+  // Extract scripts
+  for (const script of document.querySelectorAll('script')) {
+    const type = (script.getAttribute('type') ?? '').trim();
+    if (!EXECUTABLE_SCRIPT_TYPE.test(type)) continue;
+
+    const src = getAttr(script, 'src');
+    resources.scripts.push({
+      src,
+      isInline: src === null,
+      isAsync: script.hasAttribute('async'),
+      isDefer: script.hasAttribute('defer'),
+      isModule: type.toLowerCase() === 'module',
+      ...describeIntegrity(script)
+    });
+  }
+
+  // Extract stylesheets, including <link rel="preload" as="style"> loaders
+  for (const link of document.querySelectorAll('link[href]')) {
+    const href = getAttr(link, 'href');
+    if (href === null) continue;
+
+    const isPreload = hasRel(link, 'preload') && link.getAttribute('as')?.toLowerCase() === 'style';
+    if (!isPreload && (!hasRel(link, 'stylesheet') || hasRel(link, 'alternate'))) continue;
+
+    resources.stylesheets.push({ href, isPreload, ...describeIntegrity(link) });
+  }
+
+  // Extract images with detailed info
+  for (const img of document.querySelectorAll('img')) {
+    resources.images.push(describeImage(img));
+  }
+
+  // Extract iframes
+  for (const iframe of document.querySelectorAll('iframe')) {
+    const lazySrc = getLazySrc(iframe);
+    resources.iframes.push({
+      src: lazySrc ?? getAttr(iframe, 'src'),
+      hasLazyLoading: iframe.getAttribute('loading')?.toLowerCase() === 'lazy' || lazySrc !== null
+    });
+  }
+
+  return resources;
+}
+
+function describeIntegrity(el: HTMLElement): Pick<Resource, 'hasIntegrity' | 'crossOrigin'> {
+  return {
+    hasIntegrity: getAttr(el, 'integrity') !== null,
+    crossOrigin: el.hasAttribute('crossorigin') ? (el.getAttribute('crossorigin') ?? '').trim().toLowerCase() : null
+  };
+}
+
+function getLazySrc(el: HTMLElement): string | null {
+  for (const attribute of LAZY_SRC_ATTRIBUTES) {
+    const value = getAttr(el, attribute);
+    if (value !== null) return value;
+  }
+  return null;
+}
+
+function describeImage(img: HTMLElement): Resource {
+  const lazySrc = getLazySrc(img);
+  const src = lazySrc ?? getAttr(img, 'src');
+  const srcset = getAttr(img, 'srcset') ?? getAttr(img, 'data-srcset');
+
+  // <source> siblings inside <picture> provide alternative formats and sizes
+  const picture = img.parentNode?.tagName === 'PICTURE' ? img.parentNode : null;
+  const sources = picture ? picture.querySelectorAll('source') : [];
+  const sourceTypes = sources.map(source => (source.getAttribute('type') ?? '').toLowerCase());
+
+  const candidates = [
+    ...(src !== null ? [src] : []),
+    ...parseSrcset(srcset),
+    ...sources.flatMap(source => parseSrcset(getAttr(source, 'srcset') ?? getAttr(source, 'data-srcset')))
+  ];
+
+  const isWebP = sourceTypes.includes('image/webp') || candidates.some(url => /\.webp\b/i.test(url));
+  const isAvif = sourceTypes.includes('image/avif') || candidates.some(url => /\.avif\b/i.test(url));
+
+  const alt = img.getAttribute('alt');
+  const width = parseDimension(img.getAttribute('width'));
+  const height = parseDimension(img.getAttribute('height'));
+
+  return {
+    src,
+    hasAlt: alt !== undefined,
+    altText: alt ?? null,
+    hasEmptyAlt: alt?.trim() === '',
+    hasDimensions: width !== null && height !== null,
+    width,
+    height,
+    hasLazyLoading: img.getAttribute('loading')?.toLowerCase() === 'lazy' || lazySrc !== null,
+    hasSrcset: srcset !== null || sources.length > 0,
+    isWebP,
+    isAvif,
+    isModernFormat: isWebP || isAvif
+  };
+}
+
+function parseDimension(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? null : parsed;
+}
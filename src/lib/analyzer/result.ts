@@ -0,0 +1,163 @@
+/**
+ * Building API results from category evaluations
+ */
+
+import type {
+  AnalysisCategories,
+  AnalysisDetail,
+  AnalysisResult,
+  Benchmarks,
+  CategoryKey,
+  CategoryResult
+} from '../../types/api';
+import { DEFAULT_LOCALE, getScoreColorClass } from '../../types/api';
+import type { CategoryEvaluation } from './types';
+import { getConformanceSummary } from './wcag';
+
+/**
+ * Categories in the order they are evaluated and reported
+ */
+export const CATEGORY_KEYS: CategoryKey[] = ['performance', 'seo', 'security', 'mobile', 'accessibility'];
+
+/**
+ * Weight of each category in the total score (the standard profile)
+ */
+export const SCORE_WEIGHTS: Record<CategoryKey, number> = {
+  performance: 0.25,
+  seo: 0.25,
+  security: 0.20,
+  mobile: 0.15,
+  accessibility: 0.15
+};
+
+/**
+ * Estimated Norwegian averages
+ * Used until a segment has enough stored scans, see lib/benchmarks
+ */
+export const INDUSTRY_BENCHMARKS: Benchmarks = {
+  performance: 68,
+  seo: 72,
+  security: 65,
+  mobile: 78,
+  accessibility: 62
+};
+
+/**
+ * Calculate the weighted total score
+ * @param weights Category weights, see SCORING_PROFILES
+ */
+export function calculateTotalScore(
+  scores: Record<CategoryKey, number>,
+  weights: Record<CategoryKey, number> = SCORE_WEIGHTS
+): number {
+  return Math.round(CATEGORY_KEYS.reduce((total, key) => total + scores[key] * weights[key], 0));
+}
+
+/**
+ * Build the API result for one category, benchmarked against the Norwegian estimate
+ */
+export function buildCategoryResult(key: CategoryKey, evaluation: CategoryEvaluation): CategoryResult {
+  return {
+    score: evaluation.score,
+    status: getScoreColorClass(evaluation.score),
+    details: evaluation.details,
+    benchmark: INDUSTRY_BENCHMARKS[key],
+    ...(evaluation.metrics && { metrics: evaluation.metrics }),
+    ...(evaluation.headers && { headers: evaluation.headers }),
+    ...(evaluation.cookies && { cookies: evaluation.cookies }),
+    ...(evaluation.thirdParties && { thirdParties: evaluation.thirdParties })
+  };
+}
+
+function buildCategories(evaluations: Record<CategoryKey, CategoryEvaluation>): AnalysisCategories {
+  const categories = {} as AnalysisCategories;
+  for (const key of CATEGORY_KEYS) {
+    categories[key] = buildCategoryResult(key, evaluations[key]);
+  }
+  return categories;
+}
+
+function getScores(evaluations: Record<CategoryKey, CategoryEvaluation>): Record<CategoryKey, number> {
+  const scores = {} as Record<CategoryKey, number>;
+  for (const key of CATEGORY_KEYS) {
+    scores[key] = evaluations[key].score;
+  }
+  return scores;
+}
+
+/**
+ * Build the API result for a single analyzed page
+ * @param url Analyzed URL
+ * @param responseTime Server response time in milliseconds
+ * @param evaluations Score and findings per category
+ */
+export function buildAnalysisResult(
+  url: string,
+  responseTime: number,
+  evaluations: Record<CategoryKey, CategoryEvaluation>
+): AnalysisResult {
+  return {
+    url,
+    analyzedAt: new Date().toISOString(),
+    responseTime,
+    totalScore: calculateTotalScore(getScores(evaluations)),
+    benchmarks: INDUSTRY_BENCHMARKS,
+    categories: buildCategories(evaluations),
+    conformance: getConformanceSummary(CATEGORY_KEYS.flatMap(key => evaluations[key].details), DEFAULT_LOCALE)
+  };
+}
+
+/**
+ * Merge the findings for one category across pages
+ * Problems are reported once per rule with the pages they occur on. A success
+ * is only kept when the rule did not fail on any page.
+ */
+function mergeDetails(pages: AnalysisResult[], category: CategoryKey): AnalysisDetail[] {
+  const issues = new Map<string, AnalysisDetail & { pages: string[] }>();
+  const successes = new Map<string, AnalysisDetail>();
+
+  for (const page of pages) {
+    for (const detail of page.categories[category].details) {
+      if (detail.type === 'success') {
+        if (!successes.has(detail.ruleId)) successes.set(detail.ruleId, detail);
+        continue;
+      }
+
+      const existing = issues.get(detail.ruleId);
+      if (existing) {
+        existing.pages.push(page.url);
+      } else {
+        issues.set(detail.ruleId, { ...detail, pages: [page.url] });
+      }
+    }
+  }
+
+  const passedEverywhere = [...successes.values()].filter(detail => !issues.has(detail.ruleId));
+  return [...passedEverywhere, ...issues.values()];
+}
+
+/**
+ * Combine per-page results into a site-level result
+ * Category scores and response time are averaged over all pages. Raw metrics,
+ * headers, cookies and third parties are those of the first page, each page keeps its own.
+ *
+ * @param url Start URL of the crawl
+ * @param pages Results for every analyzed page (at least one)
+ */
+export function aggregateResults(url: string, pages: AnalysisResult[]): AnalysisResult {
+  const evaluations = {} as Record<CategoryKey, CategoryEvaluation>;
+  for (const key of CATEGORY_KEYS) {
+    const total = pages.reduce((sum, page) => sum + page.categories[key].score, 0);
+    evaluations[key] = {
+      score: Math.round(total / pages.length),
+      details: mergeDetails(pages, key),
+      metrics: pages[0].categories[key].metrics,
+      headers: pages[0].categories[key].headers,
+      cookies: pages[0].categories[key].cookies,
+      thirdParties: pages[0].categories[key].thirdParties
+    };
+  }
+
+  const responseTime = Math.round(pages.reduce((sum, page) => sum + page.responseTime, 0) / pages.length);
+  return buildAnalysisResult(url, responseTime, evaluations);
+}
@@ -0,0 +1,109 @@
+/**
+ * robots.txt parsing and matching
+ * Follows RFC 9309 as implemented by Google: the most specific group for a
+ * crawler applies, and the longest matching rule wins (allow wins ties)
+ */
+
+export interface RobotsRule {
+  /** true for Allow, false for Disallow */
+  allow: boolean;
+  /** Path pattern, may contain * and a trailing $ */
+  path: string;
+}
+
+export interface RobotsGroup {
+  /** Lower-case user-agent tokens the group applies to */
+  userAgents: string[];
+  rules: RobotsRule[];
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+  /** Sitemap URLs declared with Sitemap: lines */
+  sitemaps: string[];
+}
+
+/**
+ * Parse a robots.txt file
+ * @param text Raw file contents
+ */
+export function parseRobotsTxt(text: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasUserAgent = false;
+
+  for (const rawLine of text.split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasUserAgent) {
+        current = { userAgents: [], rules: [] };
+        groups.push(current);
+      }
+      current.userAgents.push(value.toLowerCase());
+      lastWasUserAgent = true;
+      continue;
+    }
+
+    lastWasUserAgent = false;
+
+    if (key === 'sitemap') {
+      if (value !== '') sitemaps.push(value);
+    } else if ((key === 'allow' || key === 'disallow') && current) {
+      // An empty Disallow allows everything and adds no rule
+      if (value !== '') current.rules.push({ allow: key === 'allow', path: value });
+    }
+  }
+
+  return { groups, sitemaps };
+}
+
+function getRulesFor(robots: RobotsTxt, userAgent: string): RobotsRule[] {
+  const agent = userAgent.toLowerCase();
+  const specific = robots.groups.filter(group => group.userAgents.includes(agent));
+  const applicable = specific.length > 0
+    ? specific
+    : robots.groups.filter(group => group.userAgents.includes('*'));
+
+  return applicable.flatMap(group => group.rules);
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Check whether a crawler may fetch a path
+ * @param robots Parsed robots.txt
+ * @param userAgent Crawler token, e.g. 'googlebot'
+ * @param path Path and query of the URL, e.g. '/produkter?side=2'
+ */
+export function isPathAllowed(robots: RobotsTxt, userAgent: string, path: string): boolean {
+  let best: RobotsRule | null = null;
+
+  for (const rule of getRulesFor(robots, userAgent)) {
+    if (!patternToRegExp(rule.path).test(path)) continue;
+
+    if (
+      !best ||
+      rule.path.length > best.path.length ||
+      (rule.path.length === best.path.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  return best?.allow ?? true;
+}
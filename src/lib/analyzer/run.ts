@@ -0,0 +1,198 @@
+/**
+ * Analysis requests
+ * URL validation, options, caching and error mapping shared by the API routes
+ */
+
+import type { AnalysisResult, ScoringProfileId, SegmentId } from '../../types/api';
+import { DEFAULT_SEGMENT, applyBenchmarks, getSegment, recordBenchmarkSample } from '../benchmarks';
+import { recordScan } from '../history';
+import { createReport } from '../reports';
+import { analyzeUrl } from './analyze';
+import { cacheAnalysis, getCacheKey, getCachedAnalysis } from './cache';
+import { DEFAULT_CRAWL_PAGES, MAX_CRAWL_PAGES, crawlSite } from './crawl';
+import { ContentTypeError, RedirectLimitError } from './fetch';
+import { DEFAULT_SCORING_PROFILE, applyScoringProfile, getScoringProfile } from './profiles';
+import { aggregateResults } from './result';
+import { BlockedUrlError, assertFetchableUrl } from './ssrf';
+import type { AnalysisHooks } from './types';
+
+/**
+ * Thrown when a submitted URL is missing or malformed
+ */
+export class InvalidUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidUrlError';
+  }
+}
+
+export interface AnalysisOptions {
+  /** Crawl subpages and return a site-level result */
+  crawl: boolean;
+  /** Page limit for crawl mode, including the start page */
+  maxPages: number;
+  /** Skip the cache and analyze again */
+  force: boolean;
+  /** Weight profile for the total score */
+  profile: ScoringProfileId;
+  /** Industry segment to benchmark against */
+  segment: SegmentId;
+  /**
+   * Segment to count the scores in, set only by trusted callers such as monitors
+   * Other scans only count in the default segment.
+   */
+  sampleSegment?: SegmentId;
+}
+
+/**
+ * HTTP status and user-facing message for a failed analysis
+ */
+export interface AnalysisFailure {
+  status: number;
+  message: string;
+}
+
+const isTruthyParam = (value: string | null): boolean => value === '1' || value === 'true';
+
+/**
+ * Parse and validate a URL submitted for analysis
+ * @throws InvalidUrlError if the URL is missing or malformed
+ * @throws BlockedUrlError for non-HTTP(S) or internal addresses
+ */
+export function parseTargetUrl(value: string | null | undefined): URL {
+  if (!value) {
+    throw new InvalidUrlError('URL mangler');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new InvalidUrlError('Ugyldig URL-format');
+  }
+
+  // SSRF protection - only public HTTP/HTTPS URLs
+  assertFetchableUrl(url);
+  return url;
+}
+
+/**
+ * Read analysis options from query parameters
+ * Crawl mode: ?crawl=1&maxPages=10, bypass the cache: ?force=1,
+ * weight profile: ?profile=e-commerce, benchmark segment: ?segment=restaurant
+ * (unknown profiles and segments use the default)
+ */
+export function parseAnalysisOptions(params: URLSearchParams): AnalysisOptions {
+  const requestedPages = parseInt(params.get('maxPages') ?? '', 10);
+  return {
+    crawl: isTruthyParam(params.get('crawl')),
+    maxPages: Number.isNaN(requestedPages)
+      ? DEFAULT_CRAWL_PAGES
+      : Math.max(1, Math.min(MAX_CRAWL_PAGES, requestedPages)),
+    force: isTruthyParam(params.get('force')),
+    profile: getScoringProfile(params.get('profile')).id,
+    segment: getSegment(params.get('segment')).id
+  };
+}
+
+/**
+ * Analyze a validated URL, serving repeated scans from cache
+ * Fresh analyses are benchmarked against their segment, stored as shareable
+ * reports and added to the domain's scan history before they are cached.
+ * Single-page scans that are not forced also become benchmark samples.
+ *
+ * @param url URL from parseTargetUrl
+ * @param options Crawl, cache and scoring options
+ * @param hooks Progress events and cancellation; cached results report no progress
+ * @throws Errors from analyzeUrl; map them with describeAnalysisError
+ */
+export async function runAnalysis(url: URL, options: AnalysisOptions, hooks: AnalysisHooks = {}): Promise<AnalysisResult> {
+  // Reports keep the profile's total and the segment's benchmarks,
+  // so each profile and segment is cached separately
+  const variant = [
+    ...(options.crawl ? [`crawl:${String(options.maxPages)}`] : []),
+    ...(options.profile !== DEFAULT_SCORING_PROFILE ? [`profile:${options.profile}`] : []),
+    ...(options.segment !== DEFAULT_SEGMENT ? [`segment:${options.segment}`] : [])
+  ].join('|');
+  const cacheKey = getCacheKey(url, variant || undefined);
+
+  if (!options.force) {
+    const cached = await getCachedAnalysis(cacheKey);
+    if (cached) return cached;
+  }
+
+  const start = await analyzeUrl(url, undefined, hooks);
+
+  let result: AnalysisResult = start.result;
+  if (options.crawl) {
+    const summary = await crawlSite(start, options.maxPages, hooks);
+    result = {
+      ...aggregateResults(start.result.url, summary.pages),
+      truncated: summary.pages.some(page => page.truncated === true),
+      redirects: start.result.redirects,
+      crawl: summary
+    };
+  }
+
+  result = applyScoringProfile(result, options.profile);
+
+  // Without stored samples the result keeps the estimated averages
+  try {
+    result = await applyBenchmarks(result, options.segment);
+  } catch (error: unknown) {
+    console.error('Benchmark lookup failed:', error);
+  }
+
+  // A missing report link is not worth failing the analysis over
+  try {
+    result.report = await createReport(result);
+  } catch (error: unknown) {
+    console.error('Report storage failed:', error);
+  }
+
+  try {
+    await recordScan(result);
+  } catch (error: unknown) {
+    console.error('Scan history update failed:', error);
+  }
+
+  // Site-level crawl results are not comparable with single pages, and anyone
+  // can force repeat scans, so only plain scans and trusted callers are counted
+  if (!options.crawl && (!options.force || options.sampleSegment !== undefined)) {
+    try {
+      await recordBenchmarkSample(result, options.sampleSegment ?? DEFAULT_SEGMENT);
+    } catch (error: unknown) {
+      console.error('Benchmark sample update failed:', error);
+    }
+  }
+
+  result.cache = await cacheAnalysis(cacheKey, result);
+  return result;
+}
+
+/**
+ * Map an analysis error to an HTTP status and a message for the user
+ */
+export function describeAnalysisError(error: unknown): AnalysisFailure {
+  if (error instanceof InvalidUrlError || error instanceof BlockedUrlError) {
+    return { status: 400, message: error.message };
+  }
+
+  if (error instanceof ContentTypeError) {
+    return {
+      status: 422,
+      message: `URLen peker ikke til en nettside (${error.contentType}). Oppgi adressen til en HTML-side.`
+    };
+  }
+
+  if (error instanceof RedirectLimitError) {
+    return { status: 502, message: 'Nettsiden videresender for mange ganger.' };
+  }
+
+  // Handle timeout specifically
+  if (error instanceof Error && error.name === 'AbortError') {
+    return { status: 504, message: 'Nettsiden tok for lang tid å svare. Prøv igjen senere.' };
+  }
+
+  return { status: 500, message: 'Kunne ikke analysere URL. Sjekk at nettsiden er tilgjengelig.' };
+}
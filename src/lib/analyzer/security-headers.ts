@@ -0,0 +1,125 @@
+/**
+ * Security header parsing
+ * Strict-Transport-Security, Referrer-Policy, Permissions-Policy and the
+ * Cross-Origin-*-Policy headers, read the way browsers read them
+ */
+
+import type { ParsedDocument } from './document';
+
+/**
+ * max-age an HSTS policy needs for the preload list, one year
+ */
+export const HSTS_PRELOAD_MAX_AGE = 31536000;
+
+export interface HstsPolicy {
+  /** max-age in seconds, null when missing or not a number (the header is then ignored) */
+  maxAge: number | null;
+  includeSubDomains: boolean;
+  preload: boolean;
+}
+
+/**
+ * Parse a Strict-Transport-Security header
+ * Only the first policy is used when a response sends several, as browsers do
+ */
+export function parseHsts(header: string): HstsPolicy {
+  const policy: HstsPolicy = { maxAge: null, includeSubDomains: false, preload: false };
+  const [first = ''] = header.split(',');
+
+  for (const directive of first.split(';')) {
+    const [rawName, ...rest] = directive.split('=');
+    const name = rawName.trim().toLowerCase();
+    const value = rest.join('=').trim().replace(/^"(.*)"$/, '$1');
+
+    if (name === 'max-age') policy.maxAge = /^\d+$/.test(value) ? parseInt(value, 10) : null;
+    else if (name === 'includesubdomains') policy.includeSubDomains = true;
+    else if (name === 'preload') policy.preload = true;
+  }
+
+  return policy;
+}
+
+/**
+ * Requirements of the HSTS preload list the policy does not meet, empty when eligible
+ * The list also requires HTTPS on every subdomain, which a single page cannot show
+ */
+export function getPreloadGaps(policy: HstsPolicy): string[] {
+  const gaps: string[] = [];
+  if ((policy.maxAge ?? 0) < HSTS_PRELOAD_MAX_AGE) gaps.push(`max-age=${String(HSTS_PRELOAD_MAX_AGE)}`);
+  if (!policy.includeSubDomains) gaps.push('includeSubDomains');
+  if (!policy.preload) gaps.push('preload');
+  return gaps;
+}
+
+const REFERRER_POLICIES = new Set([
+  'no-referrer',
+  'no-referrer-when-downgrade',
+  'origin',
+  'origin-when-cross-origin',
+  'same-origin',
+  'strict-origin',
+  'strict-origin-when-cross-origin',
+  'unsafe-url'
+]);
+
+/**
+ * Referrer policies that send the full URL, path and query included, to other sites
+ */
+export const UNSAFE_REFERRER_POLICIES = new Set(['unsafe-url', 'no-referrer-when-downgrade']);
+
+// Last valid token of a policy list; browsers skip unknown values to allow fallbacks
+function lastReferrerPolicy(value: string): string | null {
+  const tokens = value.split(',').map(token => token.trim().toLowerCase());
+  return tokens.reverse().find(token => REFERRER_POLICIES.has(token)) ?? null;
+}
+
+/**
+ * Referrer policy in effect for the page
+ * A <meta name="referrer"> element overrides the header
+ *
+ * @returns Policy name in lower case, null when neither sets a valid policy
+ */
+export function getReferrerPolicy(headers: Headers, document: ParsedDocument): string | null {
+  const meta = document.querySelector('meta[name="referrer" i]')?.getAttribute('content');
+  const fromMeta = meta ? lastReferrerPolicy(meta) : null;
+  if (fromMeta) return fromMeta;
+
+  const header = headers.get('referrer-policy');
+  return header ? lastReferrerPolicy(header) : null;
+}
+
+/**
+ * Allowlists keyed by lower-case feature name, e.g. camera → ['self']
+ * An empty list disables the feature
+ */
+export type PermissionsPolicy = Map<string, string[]>;
+
+/**
+ * Parse a Permissions-Policy header (a structured field dictionary)
+ * @example parsePermissionsPolicy('camera=(), geolocation=(self "https://maps.example")')
+ */
+export function parsePermissionsPolicy(header: string): PermissionsPolicy {
+  const policy: PermissionsPolicy = new Map();
+
+  for (const member of header.split(',')) {
+    const separator = member.indexOf('=');
+    if (separator === -1) continue;
+
+    const feature = member.slice(0, separator).trim().toLowerCase();
+    const allowlist = member.slice(separator + 1).replace(/;.*$/, '').trim().replace(/^\((.*)\)$/, '$1');
+    if (feature === '') continue;
+
+    policy.set(feature, allowlist.split(/\s+/).filter(Boolean).map(origin => origin.replace(/^"(.*)"$/, '$1')));
+  }
+
+  return policy;
+}
+
+/**
+ * First token of a header in lower case, without parameters such as report-to
+ * @returns null when the header is missing or empty
+ */
+export function getHeaderToken(headers: Headers, name: string): string | null {
+  const token = headers.get(name)?.split(/[;,]/)[0].trim().toLowerCase();
+  return token !== undefined && token !== '' ? token : null;
+}
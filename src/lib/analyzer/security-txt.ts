@@ -0,0 +1,72 @@
+/**
+ * security.txt parsing (RFC 9116)
+ * Reads the fields that tell researchers how to report vulnerabilities.
+ * Signed files are unwrapped, but the signature itself is not verified.
+ */
+
+export interface SecurityTxt {
+  /** Contact URIs in file order, e.g. 'mailto:security@example.no' */
+  contacts: string[];
+  /** Expires value as written, null when missing (only the first one counts) */
+  expires: string | null;
+  /** Whether the file is wrapped in an OpenPGP cleartext signature */
+  signed: boolean;
+  /** Number of recognized fields, zero for files that are not security.txt at all */
+  fieldCount: number;
+}
+
+// Fields defined by RFC 9116; others are ignored
+const FIELDS = new Set([
+  'acknowledgments',
+  'canonical',
+  'contact',
+  'encryption',
+  'expires',
+  'hiring',
+  'policy',
+  'preferred-languages'
+]);
+
+const SIGNED_MESSAGE = '-----BEGIN PGP SIGNED MESSAGE-----';
+const SIGNATURE = '-----BEGIN PGP SIGNATURE-----';
+
+// Lines of the signed message, without the armor headers, dash escapes and signature block
+function unwrapSignedMessage(lines: string[]): string[] {
+  const start = lines.findIndex(line => line.trim() === SIGNED_MESSAGE);
+  const end = lines.findIndex(line => line.trim() === SIGNATURE);
+  const body = lines.slice(start + 1, end === -1 ? undefined : end);
+
+  // Armor headers such as 'Hash: SHA512' end at the first empty line
+  const blank = body.findIndex(line => line.trim() === '');
+  return body.slice(blank + 1).map(line => line.replace(/^- /, ''));
+}
+
+/**
+ * Parse a security.txt file
+ * @param text Raw file contents
+ */
+export function parseSecurityTxt(text: string): SecurityTxt {
+  let lines = text.split(/\r\n|\r|\n/);
+  const signed = lines.some(line => line.trim() === SIGNED_MESSAGE);
+  if (signed) lines = unwrapSignedMessage(lines);
+
+  const securityTxt: SecurityTxt = { contacts: [], expires: null, signed, fieldCount: 0 };
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (line === '' || line.startsWith('#')) continue;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+    if (!FIELDS.has(key) || value === '') continue;
+
+    securityTxt.fieldCount++;
+    if (key === 'contact') securityTxt.contacts.push(value);
+    else if (key === 'expires') securityTxt.expires ??= value;
+  }
+
+  return securityTxt;
+}
@@ -0,0 +1,190 @@
+/**
+ * Site-level files: robots.txt, sitemap.xml and security.txt, plus the HTTP to HTTPS upgrade
+ * Fetched once per origin and shared by every page analyzed on that origin
+ */
+
+import type { RedirectHop } from '../../types/api';
+import { ContentTypeError, fetchPage } from './fetch';
+import { parseRobotsTxt, type RobotsTxt } from './robots';
+import { parseSecurityTxt, type SecurityTxt } from './security-txt';
+import { parseSitemap } from './sitemap';
+
+const SITE_FILE_TIMEOUT = 5000; // 5 seconds
+const HTTPS_PROBE_REDIRECTS = 5;
+const MAX_CHILD_SITEMAPS = 3;
+const SITEMAP_ACCEPT = 'application/xml,text/xml;q=0.9,*/*;q=0.8';
+const SECURITY_TXT_MAX_BYTES = 32 * 1024; // 32 KB
+
+/**
+ * robots.txt lookup result
+ * 'missing' covers 4xx responses (crawlers treat the site as unrestricted),
+ * 'error' covers 5xx and network failures (Google pauses crawling)
+ */
+export type RobotsStatus =
+  | { status: 'found'; robots: RobotsTxt }
+  | { status: 'missing' }
+  | { status: 'error' };
+
+export interface SitemapStatus {
+  /** Sitemap location that was checked */
+  url: string;
+  /** Whether the sitemap exists and is a valid urlset or sitemap index */
+  status: 'found' | 'invalid' | 'missing';
+  /** Whether robots.txt declares the sitemap */
+  referencedInRobots: boolean;
+  /** Page URLs listed in the sitemap (following an index one level down) */
+  urls: string[];
+}
+
+/**
+ * Whether plain HTTP requests to an HTTPS site are upgraded
+ * 'unreachable' also covers sites that do not listen on port 80
+ */
+export interface HttpsUpgrade {
+  status: 'upgraded' | 'missing' | 'unreachable' | 'not-applicable';
+  /** Redirects followed from the HTTP version of the site */
+  redirects: RedirectHop[];
+}
+
+/**
+ * security.txt lookup result
+ * Responses that are not text/plain, such as HTML error pages served with
+ * status 200, and files without any security.txt fields count as 'missing'
+ */
+export type SecurityTxtStatus =
+  | { status: 'found'; url: string; securityTxt: SecurityTxt }
+  | { status: 'missing' }
+  | { status: 'error' };
+
+export interface SiteFiles {
+  robots: RobotsStatus;
+  sitemap: SitemapStatus;
+  https: HttpsUpgrade;
+  securityTxt: SecurityTxtStatus;
+}
+
+async function fetchRobots(origin: string): Promise<RobotsStatus> {
+  try {
+    const page = await fetchPage(new URL('/robots.txt', origin), { accept: 'text/plain,*/*;q=0.8', timeout: SITE_FILE_TIMEOUT });
+    if (page.response.status >= 500) return { status: 'error' };
+    if (!page.response.ok) return { status: 'missing' };
+    return { status: 'found', robots: parseRobotsTxt(page.body) };
+  } catch {
+    return { status: 'error' };
+  }
+}
+
+async function fetchSecurityTxt(origin: string): Promise<SecurityTxtStatus> {
+  try {
+    const page = await fetchPage(new URL('/.well-known/security.txt', origin), {
+      accept: 'text/plain',
+      timeout: SITE_FILE_TIMEOUT,
+      maxBytes: SECURITY_TXT_MAX_BYTES,
+      contentTypes: ['text/plain']
+    });
+    if (page.response.status >= 500) return { status: 'error' };
+    if (!page.response.ok) return { status: 'missing' };
+
+    const securityTxt = parseSecurityTxt(page.body);
+    if (securityTxt.fieldCount === 0) return { status: 'missing' };
+    return { status: 'found', url: page.finalUrl.href, securityTxt };
+  } catch (error: unknown) {
+    return { status: error instanceof ContentTypeError ? 'missing' : 'error' };
+  }
+}
+
+async function fetchSitemapXml(url: URL): Promise<string | null> {
+  const page = await fetchPage(url, { accept: SITEMAP_ACCEPT, timeout: SITE_FILE_TIMEOUT });
+  return page.response.ok ? page.body : null;
+}
+
+async function fetchSitemap(sitemapUrl: URL, referencedInRobots: boolean): Promise<SitemapStatus> {
+  const status: SitemapStatus = { url: sitemapUrl.href, status: 'missing', referencedInRobots, urls: [] };
+
+  try {
+    const xml = await fetchSitemapXml(sitemapUrl);
+    if (xml === null) return status;
+
+    const sitemap = parseSitemap(xml);
+    if (!sitemap) return { ...status, status: 'invalid' };
+
+    const urls = [...sitemap.urls];
+
+    // Follow a sitemap index one level down, staying on the same origin
+    const children = sitemap.sitemaps
+      .map(loc => toSameOriginUrl(loc, sitemapUrl.origin))
+      .filter((url): url is URL => url !== null)
+      .slice(0, MAX_CHILD_SITEMAPS);
+
+    for (const child of children) {
+      const childXml = await fetchSitemapXml(child).catch(() => null);
+      if (childXml !== null) urls.push(...(parseSitemap(childXml)?.urls ?? []));
+    }
+
+    return { ...status, status: 'found', urls };
+  } catch {
+    return status;
+  }
+}
+
+async function probeHttpsUpgrade(url: URL): Promise<HttpsUpgrade> {
+  if (url.protocol !== 'https:') return { status: 'not-applicable', redirects: [] };
+
+  try {
+    const page = await fetchPage(new URL(`http://${url.hostname}/`), {
+      timeout: SITE_FILE_TIMEOUT,
+      maxRedirects: HTTPS_PROBE_REDIRECTS
+    });
+    return {
+      status: page.finalUrl.protocol === 'https:' ? 'upgraded' : 'missing',
+      redirects: page.redirects
+    };
+  } catch {
+    return { status: 'unreachable', redirects: [] };
+  }
+}
+
+function toSameOriginUrl(value: string, origin: string): URL | null {
+  try {
+    const url = new URL(value, origin);
+    return url.origin === origin ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetch robots.txt, the sitemap and security.txt for an origin and probe its HTTP version
+ * The sitemap declared in robots.txt is preferred, with /sitemap.xml as fallback.
+ * Never throws; unreachable files are reported through their status.
+ *
+ * @param url Any URL on the site
+ */
+export async function fetchSiteFiles(url: URL): Promise<SiteFiles> {
+  const origin = url.origin;
+  const defaultSitemapUrl = new URL('/sitemap.xml', origin);
+
+  // Fetch in parallel; most sites keep their sitemap at the default location
+  const [robots, defaultSitemap, https, securityTxt] = await Promise.all([
+    fetchRobots(origin),
+    fetchSitemap(defaultSitemapUrl, false),
+    probeHttpsUpgrade(url),
+    fetchSecurityTxt(origin)
+  ]);
+
+  const declared = robots.status === 'found'
+    ? robots.robots.sitemaps
+      .map(value => toSameOriginUrl(value, origin))
+      .filter((sitemapUrl): sitemapUrl is URL => sitemapUrl !== null)
+    : [];
+
+  if (declared.length === 0) {
+    return { robots, sitemap: defaultSitemap, https, securityTxt };
+  }
+
+  const declaredSitemap = declared.some(sitemapUrl => sitemapUrl.href === defaultSitemapUrl.href)
+    ? { ...defaultSitemap, referencedInRobots: true }
+    : await fetchSitemap(declared[0], true);
+
+  return { robots, sitemap: declaredSitemap, https, securityTxt };
+}
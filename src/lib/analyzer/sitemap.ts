@@ -0,0 +1,59 @@
+/**
+ * sitemap.xml parsing
+ */
+
+export interface Sitemap {
+  /** Page URLs listed in a <urlset> */
+  urls: string[];
+  /** Child sitemaps listed in a <sitemapindex> */
+  sitemaps: string[];
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'"
+};
+
+function decodeXmlText(value: string): string {
+  return value
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, '$1')
+    .replace(/&(amp|lt|gt|quot|apos);/g, entity => XML_ENTITIES[entity] ?? entity)
+    .trim();
+}
+
+function getLocations(xml: string, parentTag: string): string[] {
+  const locations: string[] = [];
+  const entries = xml.matchAll(new RegExp(`<(?:\\w+:)?${parentTag}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${parentTag}>`, 'gi'));
+
+  for (const entry of entries) {
+    const loc = /<(?:\w+:)?loc\b[^>]*>([\s\S]*?)<\/(?:\w+:)?loc>/i.exec(entry[1]);
+    if (loc) {
+      const value = decodeXmlText(loc[1].trim());
+      if (value !== '') locations.push(value);
+    }
+  }
+
+  return locations;
+}
+
+/**
+ * Parse a sitemap or sitemap index
+ * @param xml Raw XML
+ * @returns Listed URLs, or null if the document is not a sitemap
+ */
+export function parseSitemap(xml: string): Sitemap | null {
+  // Drop comments so commented-out entries are not picked up
+  const source = xml.replace(/<!--[\s\S]*?-->/g, '');
+
+  const isUrlset = /<(?:\w+:)?urlset\b/i.test(source);
+  const isIndex = /<(?:\w+:)?sitemapindex\b/i.test(source);
+  if (!isUrlset && !isIndex) return null;
+
+  return {
+    urls: isUrlset ? getLocations(source, 'url') : [],
+    sitemaps: isIndex ? getLocations(source, 'sitemap') : []
+  };
+}
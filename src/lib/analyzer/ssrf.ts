@@ -0,0 +1,146 @@
+/**
+ * SSRF protection for analyzer requests
+ * Every URL the analyzer fetches goes through assertFetchableUrl, and every
+ * connection is made through safeDispatcher, which resolves the hostname,
+ * rejects internal addresses and connects to exactly the addresses it vetted.
+ */
+
+import { lookup as dnsLookup, type LookupAddress } from 'node:dns';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import { Agent } from 'undici';
+
+/**
+ * Thrown when a URL must not be fetched from the server
+ */
+export class BlockedUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BlockedUrlError';
+  }
+}
+
+const BLOCKED_MESSAGE = 'Kan ikke analysere interne nettverksadresser.';
+
+// Hostnames that only resolve inside private networks
+const PRIVATE_HOSTNAMES = [
+  /^localhost$/i,
+  /\.localhost$/i,
+  /\.local$/i,
+  /\.internal$/i
+];
+
+// Private, loopback, link-local and reserved ranges (RFC 6890 special-purpose registries)
+const BLOCKED_RANGES: [address: string, prefix: number, type: 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'], // "This network"
+  ['10.0.0.0', 8, 'ipv4'], // Private
+  ['100.64.0.0', 10, 'ipv4'], // Carrier-grade NAT
+  ['127.0.0.0', 8, 'ipv4'], // Loopback
+  ['169.254.0.0', 16, 'ipv4'], // Link-local, cloud metadata
+  ['172.16.0.0', 12, 'ipv4'], // Private
+  ['192.0.0.0', 24, 'ipv4'], // IETF protocol assignments
+  ['192.0.2.0', 24, 'ipv4'], // Documentation
+  ['192.88.99.0', 24, 'ipv4'], // 6to4 relay anycast
+  ['192.168.0.0', 16, 'ipv4'], // Private
+  ['198.18.0.0', 15, 'ipv4'], // Benchmarking
+  ['198.51.100.0', 24, 'ipv4'], // Documentation
+  ['203.0.113.0', 24, 'ipv4'], // Documentation
+  ['224.0.0.0', 4, 'ipv4'], // Multicast
+  ['240.0.0.0', 4, 'ipv4'], // Reserved, broadcast
+  ['::', 128, 'ipv6'], // Unspecified
+  ['::1', 128, 'ipv6'], // Loopback
+  ['64:ff9b::', 96, 'ipv6'], // NAT64, may embed a private IPv4 address
+  ['64:ff9b:1::', 48, 'ipv6'], // Local-use NAT64
+  ['100::', 64, 'ipv6'], // Discard-only
+  ['2001::', 23, 'ipv6'], // IETF protocol assignments, Teredo
+  ['2001:db8::', 32, 'ipv6'], // Documentation
+  ['2002::', 16, 'ipv6'], // 6to4, may embed a private IPv4 address
+  ['fc00::', 7, 'ipv6'], // Unique local
+  ['fe80::', 10, 'ipv6'], // Link-local
+  ['fec0::', 10, 'ipv6'], // Site-local (deprecated)
+  ['ff00::', 8, 'ipv6'] // Multicast
+];
+
+const blockedAddresses = new BlockList();
+for (const [address, prefix, type] of BLOCKED_RANGES) {
+  blockedAddresses.addSubnet(address, prefix, type);
+}
+
+/**
+ * Check whether an IP address is private, loopback, link-local or reserved
+ * IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked as IPv4.
+ *
+ * @param address IPv4 or IPv6 address without brackets
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return blockedAddresses.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Check a URL hostname for internal names and addresses
+ * Does not resolve DNS; names are vetted when the connection is made.
+ *
+ * @param hostname URL hostname, e.g. 'example.no' or '[::1]'
+ */
+export function isPrivateUrl(hostname: string): boolean {
+  // The URL parser has already normalised decimal, octal and hex IPv4 literals
+  const host = hostname.replace(/^\[(.*)\]$/, '$1').replace(/\.$/, '');
+
+  if (isIP(host) !== 0) return isPrivateAddress(host);
+  return PRIVATE_HOSTNAMES.some(pattern => pattern.test(host));
+}
+
+/**
+ * Ensure a URL is safe to fetch
+ * @throws BlockedUrlError for non-HTTP(S) or internal addresses
+ */
+export function assertFetchableUrl(url: URL): void {
+  if (!['http:', 'https:'].includes(url.protocol)) {
+    throw new BlockedUrlError('Kun HTTP/HTTPS URLer støttes.');
+  }
+  if (isPrivateUrl(url.hostname)) {
+    throw new BlockedUrlError(BLOCKED_MESSAGE);
+  }
+}
+
+/**
+ * DNS lookup that refuses hostnames resolving to an internal address
+ * Every resolved address must be public, so a name with one private record
+ * cannot be used to reach the internal network.
+ */
+const safeLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      callback(new BlockedUrlError(BLOCKED_MESSAGE), '', 0);
+      return;
+    }
+
+    // The socket connects to the addresses returned here, never to a fresh lookup
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * Connection pool used for every analyzer request
+ */
+export const safeDispatcher = new Agent({ connect: { lookup: safeLookup } });
+
+/**
+ * Unwrap a BlockedUrlError raised while connecting
+ * fetch() reports connection failures as a generic TypeError with the cause attached.
+ */
+export function getBlockedUrlError(error: unknown): BlockedUrlError | null {
+  if (error instanceof BlockedUrlError) return error;
+  if (error instanceof Error && error.cause instanceof BlockedUrlError) return error.cause;
+  return null;
+}
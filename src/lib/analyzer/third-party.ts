@@ -0,0 +1,121 @@
+/**
+ * Third-party resource inventory
+ * Groups scripts, stylesheets and iframes by the external origin serving them
+ * and records whether they are protected by Subresource Integrity.
+ */
+
+import type { ThirdPartyOrigin } from '../../types/api';
+import type { Resource, Resources } from './resources';
+
+export type ThirdPartyKind = 'script' | 'stylesheet' | 'iframe';
+
+/**
+ * A resource loaded from another site
+ */
+export interface ThirdPartyResource {
+  kind: ThirdPartyKind;
+  url: URL;
+  resource: Resource;
+}
+
+// Second-level labels under country TLDs where the registrable domain has three labels, e.g. example.co.uk
+const SECOND_LEVEL_LABELS = new Set(['ac', 'co', 'com', 'edu', 'gov', 'net', 'org']);
+
+/**
+ * Approximate registrable domain of a hostname, e.g. 'cdn.example.no' → 'example.no'
+ * Without the Public Suffix List; good enough to tell a site's own subdomains from other sites
+ */
+export function getSiteDomain(hostname: string): string {
+  const labels = hostname.toLowerCase().replace(/\.$/, '').split('.');
+  // IP addresses and single-label hosts are their own site
+  if (labels.length <= 2 || /^\d+$/.test(labels[labels.length - 1]) || hostname.includes(':')) {
+    return labels.join('.');
+  }
+
+  const tld = labels[labels.length - 1];
+  const second = labels[labels.length - 2];
+  const size = tld.length === 2 && SECOND_LEVEL_LABELS.has(second) ? 3 : 2;
+  return labels.slice(-size).join('.');
+}
+
+/**
+ * Whether a URL belongs to another site than the page
+ * Subdomains of the page's own domain count as first party
+ */
+export function isThirdParty(url: URL, pageUrl: URL): boolean {
+  return getSiteDomain(url.hostname) !== getSiteDomain(pageUrl.hostname);
+}
+
+/**
+ * Scripts, stylesheets and iframes loaded from other sites
+ * Inline scripts and data:, blob: and other non-http URLs are skipped
+ */
+export function getThirdPartyResources(resources: Resources, pageUrl: URL): ThirdPartyResource[] {
+  const candidates = [
+    ...resources.scripts.map(resource => ({ kind: 'script' as const, resource, address: resource.src })),
+    ...resources.stylesheets.map(resource => ({ kind: 'stylesheet' as const, resource, address: resource.href })),
+    ...resources.iframes.map(resource => ({ kind: 'iframe' as const, resource, address: resource.src }))
+  ];
+
+  const thirdParties: ThirdPartyResource[] = [];
+  for (const { kind, resource, address } of candidates) {
+    if (!address) continue;
+
+    let url: URL;
+    try {
+      url = new URL(address, pageUrl);
+    } catch {
+      continue;
+    }
+
+    if ((url.protocol === 'https:' || url.protocol === 'http:') && isThirdParty(url, pageUrl)) {
+      thirdParties.push({ kind, url, resource });
+    }
+  }
+  return thirdParties;
+}
+
+/**
+ * Whether a third-party resource can be protected by integrity (scripts and stylesheets)
+ */
+export function supportsIntegrity(item: ThirdPartyResource): boolean {
+  return item.kind !== 'iframe';
+}
+
+/**
+ * Integrity without crossorigin makes the browser block a cross-origin resource,
+ * since the response it would hash is opaque
+ */
+export function lacksCrossOrigin(item: ThirdPartyResource): boolean {
+  return supportsIntegrity(item) && item.resource.hasIntegrity === true && (item.resource.crossOrigin ?? null) === null;
+}
+
+/**
+ * Per-origin inventory for the API result, most used origins first
+ */
+export function getThirdPartyInventory(resources: Resources, pageUrl: URL): ThirdPartyOrigin[] {
+  const origins = new Map<string, ThirdPartyOrigin>();
+
+  for (const item of getThirdPartyResources(resources, pageUrl)) {
+    const origin = origins.get(item.url.origin) ?? {
+      origin: item.url.origin,
+      scripts: 0,
+      stylesheets: 0,
+      iframes: 0,
+      missingIntegrity: 0,
+      missingCrossOrigin: 0
+    };
+
+    if (item.kind === 'script') origin.scripts++;
+    else if (item.kind === 'stylesheet') origin.stylesheets++;
+    else origin.iframes++;
+
+    if (supportsIntegrity(item) && item.resource.hasIntegrity !== true) origin.missingIntegrity++;
+    if (lacksCrossOrigin(item)) origin.missingCrossOrigin++;
+
+    origins.set(origin.origin, origin);
+  }
+
+  const total = (entry: ThirdPartyOrigin): number => entry.scripts + entry.stylesheets + entry.iframes;
+  return [...origins.values()].sort((a, b) => total(b) - total(a) || a.origin.localeCompare(b.origin));
+}
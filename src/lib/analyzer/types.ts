@@ -0,0 +1,148 @@
+/**
+ * Internal types for the website analyzer
+ * Shared by the check registry and the individual checks
+ */
+
+import type {
+  AnalysisDetail,
+  AnalysisProgress,
+  CategoryKey,
+  CategoryMetrics,
+  CookieInfo,
+  LocalizedText,
+  MessageParams,
+  RedirectHop,
+  SecurityHeaderStatus,
+  Severity,
+  ThirdPartyOrigin
+} from '../../types/api';
+import type { Cookie } from './cookies';
+import type { ParsedDocument } from './document';
+import type { Resources } from './resources';
+import type { SiteFiles } from './site';
+
+/**
+ * Everything a check may inspect about the analyzed page
+ */
+export interface PageContext {
+  /** URL that was requested for analysis */
+  url: URL;
+  /** URL the page was served from after redirects */
+  finalUrl: URL;
+  /** Redirects followed from the requested URL to the final URL */
+  redirects: RedirectHop[];
+  /** Raw HTML document */
+  html: string;
+  /** HTML size on the network in bytes (compressed), null when unknown */
+  transferSize: number | null;
+  /** Decoded HTML size in bytes */
+  decodedSize: number;
+  /** Parsed HTML document, shared by all checks */
+  document: ParsedDocument;
+  /** Response headers from the page request */
+  headers: Headers;
+  /** Cookies set by the page response */
+  cookies: Cookie[];
+  /** Server response time in milliseconds */
+  responseTime: number;
+  /** Scripts, stylesheets, images and iframes found in the document */
+  resources: Resources;
+  /** robots.txt and sitemap of the page's origin */
+  site: SiteFiles;
+}
+
+/**
+ * Outcome of a single check evaluation
+ */
+export interface CheckFinding {
+  /** Whether the page passed the check */
+  passed: boolean;
+  /** Which of several messages for the same outcome to use, e.g. 'site' */
+  variant?: string;
+  /** Values interpolated into the message, e.g. { length: 72 } */
+  params?: MessageParams;
+  /** Share of the check penalty to apply (0-1), defaults to the full penalty */
+  scale?: number;
+}
+
+/**
+ * A single, individually declared analyzer check
+ */
+export interface Check {
+  /** Stable rule id, e.g. 'seo.title-missing' */
+  id: string;
+  /** Category the check contributes to */
+  category: CategoryKey;
+  /** Points deducted from the category score when the check fails */
+  penalty: number;
+  /** Severity reported when the check fails */
+  severity: Severity;
+  /** Estimated minutes to fix a failure */
+  fixMinutes: number;
+  /** Documentation on the topic and how to fix it */
+  docsUrl: string;
+  /** WCAG 2.1 success criteria the check tests, e.g. ['1.1.1'] */
+  wcag?: string[];
+  /**
+   * Evaluate the check against a page
+   * @returns A finding, or null when the check does not apply to the page
+   */
+  evaluate(ctx: PageContext): CheckFinding | null;
+}
+
+/**
+ * Progress reporting and cancellation for a running analysis
+ */
+export interface AnalysisHooks {
+  /** Called as each phase of the analysis finishes */
+  onProgress?: (event: AnalysisProgress) => void;
+  /** Aborts outstanding page requests, e.g. when the client disconnects */
+  signal?: AbortSignal;
+}
+
+/**
+ * Collects the raw measurements of one category for a page
+ */
+export type MetricCollector = (ctx: PageContext) => CategoryMetrics;
+
+/**
+ * Catalog entries for the checks of one category
+ * Finding codes are the rule id, with '.passed' for passes and a '.<variant>'
+ * suffix when a check has more than one message for the same outcome.
+ */
+export interface CheckMessages {
+  /** Message per finding code, with {name} placeholders for params */
+  findings: Record<string, LocalizedText>;
+  /** Help text per rule id */
+  explanations: Record<string, LocalizedText>;
+}
+
+/**
+ * Per-check configuration applied on top of the declared defaults
+ */
+export interface CheckOverride {
+  /** Set to false to skip the check entirely */
+  enabled?: boolean;
+  /** Replacement penalty */
+  penalty?: number;
+  /** Replacement severity */
+  severity?: Severity;
+}
+
+/**
+ * Score and findings for one category
+ */
+export interface CategoryEvaluation {
+  /** Score from 0-100 */
+  score: number;
+  /** Successes first, then problems, in registration order */
+  details: AnalysisDetail[];
+  /** Raw measurements, see MetricCollector */
+  metrics?: CategoryMetrics;
+  /** Security response headers (security category only) */
+  headers?: SecurityHeaderStatus[];
+  /** Cookie inventory (security category only) */
+  cookies?: CookieInfo[];
+  /** Third-party inventory (security category only) */
+  thirdParties?: ThirdPartyOrigin[];
+}
@@ -0,0 +1,76 @@
+/**
+ * WCAG 2.1 conformance summary
+ * Groups the findings of checks that declare WCAG success criteria. The
+ * criteria are the ones uu-tilsynet supervises through EN 301 549, where
+ * clause 9.x.y.z of the standard is WCAG criterion x.y.z for web pages.
+ */
+
+import type {
+  AnalysisDetail,
+  ConformanceStatus,
+  ConformanceSummary,
+  Locale,
+  LocalizedText,
+  WcagCriterionResult
+} from '../../types/api';
+
+interface WcagCriterion {
+  level: 'A' | 'AA';
+  name: LocalizedText;
+}
+
+/**
+ * Success criteria the analyzer has checks for, with their official names
+ * (Norwegian names as translated by uu-tilsynet)
+ */
+export const WCAG_CRITERIA: Record<string, WcagCriterion> = {
+  '1.1.1': { level: 'A', name: { nb: 'Ikke-tekstlig innhold', en: 'Non-text Content' } },
+  '1.3.1': { level: 'A', name: { nb: 'Informasjon og relasjoner', en: 'Info and Relationships' } },
+  '1.4.2': { level: 'A', name: { nb: 'Styring av lyd', en: 'Audio Control' } },
+  '1.4.4': { level: 'AA', name: { nb: 'Endring av tekststørrelse', en: 'Resize Text' } },
+  '2.2.2': { level: 'A', name: { nb: 'Pause, stopp, skjul', en: 'Pause, Stop, Hide' } },
+  '2.4.1': { level: 'A', name: { nb: 'Hoppe over blokker', en: 'Bypass Blocks' } },
+  '2.4.3': { level: 'A', name: { nb: 'Fokusrekkefølge', en: 'Focus Order' } },
+  '2.4.4': { level: 'A', name: { nb: 'Formål med lenke (i kontekst)', en: 'Link Purpose (In Context)' } },
+  '3.1.1': { level: 'A', name: { nb: 'Språk på siden', en: 'Language of Page' } },
+  '3.3.2': { level: 'A', name: { nb: 'Ledetekster eller instruksjoner', en: 'Labels or Instructions' } },
+  '4.1.2': { level: 'A', name: { nb: 'Navn, rolle, verdi', en: 'Name, Role, Value' } }
+};
+
+/**
+ * Name of a success criterion, the number itself for criteria outside the catalog
+ */
+export function getCriterionName(criterion: string, locale: Locale): string {
+  return criterion in WCAG_CRITERIA ? WCAG_CRITERIA[criterion].name[locale] : criterion;
+}
+
+/**
+ * Summarize the WCAG criteria referenced by a result's findings
+ * @param details Findings of every category
+ * @param locale Language of the criterion names
+ */
+export function getConformanceSummary(details: AnalysisDetail[], locale: Locale): ConformanceSummary {
+  const criteria: WcagCriterionResult[] = Object.entries(WCAG_CRITERIA).map(([criterion, { level, name }]) => {
+    const related = details.filter(detail => detail.wcag?.includes(criterion));
+    const status: ConformanceStatus = related.length === 0
+      ? 'not-tested'
+      : related.some(detail => detail.type !== 'success') ? 'failed' : 'passed';
+
+    return {
+      criterion,
+      en301549: `9.${criterion}`,
+      level,
+      name: name[locale],
+      status,
+      ruleIds: [...new Set(related.map(detail => detail.ruleId))]
+    };
+  });
+
+  return {
+    standard: 'WCAG 2.1',
+    passed: criteria.filter(item => item.status === 'passed').length,
+    failed: criteria.filter(item => item.status === 'failed').length,
+    notTested: criteria.filter(item => item.status === 'not-tested').length,
+    criteria
+  };
+}
@@ -0,0 +1,20 @@
+/**
+ * Token checks for admin and cron routes
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+
+/**
+ * Check the request's `Authorization: Bearer <token>` header
+ * @param expected Configured token; when unset the route is closed
+ */
+export function hasBearerToken(request: Request, expected: string | undefined): boolean {
+  if (!expected) return false;
+
+  const match = /^Bearer (.+)$/i.exec(request.headers.get('authorization') ?? '');
+  if (!match) return false;
+
+  const given = Buffer.from(match[1]);
+  const wanted = Buffer.from(expected);
+  return given.length === wanted.length && timingSafeEqual(given, wanted);
+}
@@ -0,0 +1,186 @@
+/**
+ * Segment benchmarks
+ * Category averages and percentile positions computed from the stored scores
+ * of earlier scans. Visitors pick the segment they are compared against, but
+ * only trusted callers such as monitors add samples to a segment.
+ */
+
+import { createHash } from 'node:crypto';
+import {
+  DEFAULT_LOCALE,
+  type AnalysisCategories,
+  type AnalysisResult,
+  type CategoryKey,
+  type LocalizedText,
+  type SegmentBenchmark,
+  type SegmentId
+} from '../types/api';
+import { CATEGORY_KEYS, INDUSTRY_BENCHMARKS, SCORE_WEIGHTS, calculateTotalScore } from './analyzer/result';
+import { getHistoryDomain } from './history';
+import { getStore } from './storage';
+
+export interface Segment {
+  id: SegmentId;
+  /** Display name for the scanner */
+  label: LocalizedText;
+  /** Who the sample consists of, used in sentences like 'bedre enn 64 % av ...' */
+  audience: LocalizedText;
+}
+
+/**
+ * Anonymized scores of one site
+ * The site is a hash of its domain, so repeat scans replace the earlier sample
+ * without storing which site it was.
+ */
+interface BenchmarkSample {
+  site: string;
+  scores: Record<CategoryKey, number>;
+  recordedAt: string;
+}
+
+// Every sample is also counted here, whatever its segment
+export const DEFAULT_SEGMENT: SegmentId = 'general';
+
+// Below this many other sites, percentiles would say more than the data does
+export const MIN_BENCHMARK_SAMPLES = 20;
+
+// Oldest samples are dropped beyond this, so benchmarks follow the current web
+export const MAX_BENCHMARK_SAMPLES = 1000;
+
+/**
+ * Available segments, in the order they are offered in the scanner
+ */
+export const SEGMENTS: Segment[] = [
+  {
+    id: 'general',
+    label: { nb: 'Alle bransjer', en: 'All industries' },
+    audience: { nb: 'norske nettsider', en: 'Norwegian websites' }
+  },
+  {
+    id: 'restaurant',
+    label: { nb: 'Restaurant og servering', en: 'Restaurants and catering' },
+    audience: { nb: 'norske restaurantnettsider', en: 'Norwegian restaurant websites' }
+  },
+  {
+    id: 'retail',
+    label: { nb: 'Butikk og netthandel', en: 'Retail and e-commerce' },
+    audience: { nb: 'norske nettbutikker', en: 'Norwegian online stores' }
+  },
+  {
+    id: 'services',
+    label: { nb: 'Rådgivning og tjenester', en: 'Consulting and services' },
+    audience: { nb: 'norske tjenesteytere', en: 'Norwegian service providers' }
+  },
+  {
+    id: 'health',
+    label: { nb: 'Helse og velvære', en: 'Health and wellness' },
+    audience: { nb: 'norske helsenettsider', en: 'Norwegian health websites' }
+  },
+  {
+    id: 'construction',
+    label: { nb: 'Bygg og håndverk', en: 'Construction and trades' },
+    audience: { nb: 'norske håndverkernettsider', en: 'Norwegian tradesperson websites' }
+  },
+  {
+    id: 'public',
+    label: { nb: 'Offentlig sektor', en: 'Public sector' },
+    audience: { nb: 'norske offentlige nettsider', en: 'Norwegian public sector websites' }
+  }
+];
+
+/**
+ * Look up a segment, falling back to the default for unknown ids
+ */
+export function getSegment(id: string | null | undefined): Segment {
+  return SEGMENTS.find(segment => segment.id === id) ?? SEGMENTS[0];
+}
+
+function getBenchmarkKey(segment: SegmentId): string {
+  return `benchmarks:${segment}`;
+}
+
+function getSiteHash(url: string): string {
+  return createHash('sha256').update(getHistoryDomain(new URL(url))).digest('base64url').slice(0, 16);
+}
+
+function getScores(categories: AnalysisCategories): Record<CategoryKey, number> {
+  const scores = {} as Record<CategoryKey, number>;
+  for (const key of CATEGORY_KEYS) {
+    scores[key] = categories[key].score;
+  }
+  return scores;
+}
+
+async function loadSamples(segment: SegmentId): Promise<BenchmarkSample[]> {
+  const stored = await getStore().get(getBenchmarkKey(segment));
+  return Array.isArray(stored) ? stored as BenchmarkSample[] : [];
+}
+
+/**
+ * Share of values strictly below the score, as a whole percentage
+ */
+function percentileOf(score: number, values: number[]): number {
+  return Math.round(values.filter(value => value < score).length / values.length * 100);
+}
+
+/**
+ * Replace the fixed benchmarks of a result with those of its segment
+ * The analyzed site itself is left out of the sample. With fewer than
+ * MIN_BENCHMARK_SAMPLES other sites the Norwegian estimates are kept and no
+ * percentiles are given, but the sample size is still reported.
+ */
+export async function applyBenchmarks(result: AnalysisResult, segmentId: SegmentId): Promise<AnalysisResult> {
+  const segment = getSegment(segmentId);
+  const site = getSiteHash(result.url);
+  const samples = (await loadSamples(segment.id)).filter(sample => sample.site !== site);
+  const sufficient = samples.length >= MIN_BENCHMARK_SAMPLES;
+
+  const benchmarks = { ...INDUSTRY_BENCHMARKS };
+  const categories = { ...result.categories };
+  for (const key of CATEGORY_KEYS) {
+    const values = samples.map(sample => sample.scores[key]);
+    if (sufficient) {
+      benchmarks[key] = Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+    }
+    categories[key] = {
+      ...categories[key],
+      benchmark: benchmarks[key],
+      percentile: sufficient ? percentileOf(categories[key].score, values) : null
+    };
+  }
+
+  // Totals are recomputed with the result's weights so profiles compare like for like
+  const weights = result.scoring?.weights ?? SCORE_WEIGHTS;
+  const totals = samples.map(sample => calculateTotalScore(sample.scores, weights));
+
+  const info: SegmentBenchmark = {
+    segment: segment.id,
+    label: segment.label[DEFAULT_LOCALE],
+    audience: segment.audience[DEFAULT_LOCALE],
+    sampleSize: samples.length,
+    percentile: sufficient ? percentileOf(result.totalScore, totals) : null
+  };
+
+  return { ...result, benchmarks, categories, segment: info };
+}
+
+/**
+ * Add the scores of a fresh single-page analysis to the benchmark samples
+ * Counted in the default segment and, if one is given, in that segment; pass
+ * only segments from a trusted source. Concurrent scans may overwrite each
+ * other's sample; last write wins.
+ */
+export async function recordBenchmarkSample(result: AnalysisResult, segmentId: SegmentId): Promise<void> {
+  const sample: BenchmarkSample = {
+    site: getSiteHash(result.url),
+    scores: getScores(result.categories),
+    recordedAt: result.analyzedAt
+  };
+
+  const segments = new Set<SegmentId>([DEFAULT_SEGMENT, getSegment(segmentId).id]);
+  for (const segment of segments) {
+    const samples = (await loadSamples(segment)).filter(existing => existing.site !== sample.site);
+    samples.push(sample);
+    await getStore().set(getBenchmarkKey(segment), samples.slice(-MAX_BENCHMARK_SAMPLES));
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Standalone HTML report
+ * A single self-contained file with inline styles and no external assets,
+ * readable offline and printable from any browser
+ */
+
+import type { AnalysisResult, Locale, StatusColor } from '../../types/api';
+import { DEFAULT_LOCALE } from '../../types/api';
+import { escapeHtml, sanitizeUrl } from '../../utils/sanitize';
+import type { ReportStrings } from './strings';
+import { REPORT_STRINGS } from './strings';
+import type { CategorySummary, FindingGroup, FindingSection, ReportSummary } from './summary';
+import { summarizeReport } from './summary';
+
+export const STATUS_COLORS: Record<StatusColor, string> = {
+  green: '#10b981',
+  yellow: '#fbbf24',
+  orange: '#f97316',
+  red: '#ef4444'
+};
+
+export const FINDING_GROUP_COLORS: Record<FindingGroup, string> = {
+  critical: '#ef4444',
+  warning: '#f59e0b',
+  info: '#3b82f6',
+  success: '#10b981'
+};
+
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Inter, Roboto, sans-serif; color: #1f2937; background: #f3f4f6; line-height: 1.5; }
+  .report { max-width: 860px; margin: 0 auto; background: #fff; }
+  .report-header { background: #121218; color: #fff; padding: 32px 40px; }
+  .brand { font-size: 1.5rem; font-weight: 800; letter-spacing: 0.08em; color: #ef4444; }
+  .report-header h1 { margin: 8px 0 4px; font-size: 1.75rem; }
+  .report-header p { margin: 0; color: #9ca3af; }
+  .report-header a { color: #d1d5db; }
+  main { padding: 32px 40px; }
+  section { margin-bottom: 32px; }
+  h2 { font-size: 1.2rem; border-bottom: 2px solid #e5e7eb; padding-bottom: 6px; }
+  .total { display: flex; align-items: center; gap: 24px; }
+  .total-score { width: 112px; height: 112px; border-radius: 50%; border: 8px solid; display: flex; align-items: center; justify-content: center; font-size: 2.25rem; font-weight: 700; flex-shrink: 0; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 8px 6px; border-bottom: 1px solid #e5e7eb; vertical-align: middle; }
+  th { font-size: 0.8rem; text-transform: uppercase; color: #6b7280; }
+  .muted { color: #6b7280; font-size: 0.85rem; }
+  .score { font-weight: 700; }
+  .bars { width: 45%; }
+  .bar { height: 8px; border-radius: 4px; margin: 3px 0; }
+  .bar.average { background: #d1d5db; }
+  ol.quick-wins { padding-left: 20px; }
+  ol.quick-wins li { margin-bottom: 8px; }
+  ul.findings { list-style: none; padding: 0; margin: 0; }
+  ul.findings li { padding: 8px 12px; border-left: 4px solid; margin-bottom: 6px; background: #f9fafb; page-break-inside: avoid; }
+  .tag { display: inline-block; font-size: 0.75rem; font-weight: 600; color: #4b5563; background: #e5e7eb; border-radius: 4px; padding: 1px 6px; margin-right: 6px; }
+  footer { padding: 20px 40px; border-top: 1px solid #e5e7eb; font-size: 0.85rem; color: #6b7280; }
+  @page { size: A4; margin: 14mm; }
+  @media print {
+    body { background: #fff; }
+    .report-header, .total-score, .bar, .tag, ul.findings li { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  }
+`;
+
+function renderCategoryRow(category: CategorySummary, t: ReportStrings): string {
+  const color = STATUS_COLORS[category.status];
+  return `
+        <tr>
+          <td><strong>${escapeHtml(category.label)}</strong><br><span class="muted">${escapeHtml(category.description)}</span></td>
+          <td class="score" style="color: ${color}">${category.score}</td>
+          <td>${category.benchmark}${category.percentile === null ? '' : `<br><span class="muted">${escapeHtml(t.betterThan(category.percentile))}</span>`}</td>
+          <td class="bars">
+            <div class="bar" style="width: ${category.score}%; background: ${color}"></div>
+            <div class="bar average" style="width: ${category.benchmark}%"></div>
+          </td>
+        </tr>`;
+}
+
+function renderFindingSection(section: FindingSection, t: ReportStrings): string {
+  const color = FINDING_GROUP_COLORS[section.group];
+  const items = section.findings.map(finding => {
+    const pages = finding.pageCount === null ? '' : ` <span class="muted">(${escapeHtml(t.pageCount(finding.pageCount))})</span>`;
+    return `
+        <li style="border-color: ${color}"><span class="tag">${escapeHtml(finding.categoryLabel)}</span>${escapeHtml(finding.message)}${pages}</li>`;
+  }).join('');
+
+  return `
+    <section>
+      <h2 style="color: ${color}">${escapeHtml(section.title)} (${section.findings.length})</h2>
+      <ul class="findings">${items}
+      </ul>
+    </section>`;
+}
+
+function renderQuickWins(summary: ReportSummary, t: ReportStrings): string {
+  if (summary.quickWins.length === 0) return '';
+
+  const items = summary.quickWins.map(win => `
+        <li><strong>${escapeHtml(win.message)}</strong><br><span class="muted">${escapeHtml(win.fixTime)} · ${escapeHtml(t.impact(t.impactLabels[win.impact]))}</span></li>`).join('');
+
+  return `
+    <section>
+      <h2>${escapeHtml(t.quickWinsTitle)}</h2>
+      <p class="muted">${escapeHtml(t.quickWinsSubtitle)}</p>
+      <ol class="quick-wins">${items}
+      </ol>
+    </section>`;
+}
+
+/**
+ * Render an analysis as a standalone HTML document
+ * @param result Analysis, already passed through localizeResult for other languages
+ * @param locale Language of the report texts
+ */
+export function renderReportHtml(result: AnalysisResult, locale: Locale = DEFAULT_LOCALE): string {
+  const summary = summarizeReport(result, locale);
+  const t = REPORT_STRINGS[locale];
+  const totalColor = STATUS_COLORS[summary.totalStatus];
+  const scope = (summary.pageCount === null ? '' : ` · ${escapeHtml(t.pagesAnalyzed(summary.pageCount))}`) +
+    (summary.profileLabel === null ? '' : ` · ${escapeHtml(t.profile(summary.profileLabel))}`);
+
+  return `<!DOCTYPE html>
+<html lang="${t.languageTag}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="robots" content="noindex, nofollow">
+  <title>${escapeHtml(t.title(summary.hostname))} | EFFFEKT</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <div class="report">
+    <header class="report-header">
+      <div class="brand">EFFFEKT</div>
+      <h1>${escapeHtml(t.title(summary.hostname))}</h1>
+      <p><a href="${sanitizeUrl(summary.url)}">${escapeHtml(summary.url)}</a> · ${escapeHtml(t.analyzed(summary.analyzedAt))}${scope}</p>
+    </header>
+    <main>
+    <section class="total">
+      <div class="total-score" style="border-color: ${totalColor}; color: ${totalColor}">${summary.totalScore}</div>
+      <div>
+        <h2>${escapeHtml(t.totalScore(summary.totalScore))}</h2>
+        <p class="muted">${escapeHtml(t.totalDescription)}</p>
+      </div>
+    </section>
+
+    <section>
+      <h2>${escapeHtml(t.categoryHeading)}</h2>
+      <table>
+        <thead>
+          <tr><th>${escapeHtml(t.categoryColumn)}</th><th>${escapeHtml(t.scoreColumn)}</th><th>${escapeHtml(t.averageColumn)}</th><th>${escapeHtml(t.comparisonColumn)}</th></tr>
+        </thead>
+        <tbody>${summary.categories.map(category => renderCategoryRow(category, t)).join('')}
+        </tbody>
+      </table>
+      <p class="muted">${escapeHtml(t.barsNote(summary.benchmarkSource))}</p>${summary.benchmarkNote === null ? '' : `
+      <p>${escapeHtml(summary.benchmarkNote)}</p>`}
+    </section>
+${renderQuickWins(summary, t)}
+${summary.sections.map(section => renderFindingSection(section, t)).join('\n')}
+    </main>
+    <footer>
+      ${escapeHtml(t.footer)}
+    </footer>
+  </div>
+</body>
+</html>
+`;
+}
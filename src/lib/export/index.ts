@@ -0,0 +1,17 @@
+/**
+ * Report export
+ * Standalone HTML and PDF versions of an analysis
+ */
+
+export { renderReportHtml } from './html';
+export { renderReportPdf } from './pdf';
+export { REPORT_STRINGS } from './strings';
+export type { ReportStrings } from './strings';
+export { formatReportDate, getExportFilename, summarizeReport } from './summary';
+export type {
+  CategorySummary,
+  FindingGroup,
+  FindingSection,
+  FindingSummary,
+  ReportSummary
+} from './summary';
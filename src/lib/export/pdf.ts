@@ -0,0 +1,285 @@
+/**
+ * PDF report
+ * Lays out the report summary on A4 pages with the standard PDF fonts,
+ * so no font files have to be bundled with the serverless function
+ */
+
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import type { Color, PDFFont, PDFPage } from 'pdf-lib';
+import type { AnalysisResult, Locale } from '../../types/api';
+import { DEFAULT_LOCALE } from '../../types/api';
+import { FINDING_GROUP_COLORS, STATUS_COLORS } from './html';
+import type { ReportStrings } from './strings';
+import { REPORT_STRINGS } from './strings';
+import type { CategorySummary, FindingSection, ReportSummary } from './summary';
+import { summarizeReport } from './summary';
+
+const PAGE_WIDTH = 595.28; // A4 in points
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const FOOTER_HEIGHT = 30;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const BRAND = hexColor('#ef4444');
+const DARK = hexColor('#121218');
+const TEXT = hexColor('#1f2937');
+const MUTED = hexColor('#6b7280');
+const TRACK = hexColor('#e5e7eb');
+const AVERAGE = hexColor('#9ca3af');
+const WHITE = rgb(1, 1, 1);
+
+// Characters outside Latin-1 that the WinAnsi encoding of the standard fonts still covers
+const WIN_ANSI_EXTRA = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+
+const REPLACEMENTS: Record<string, string> = {
+  '→': '->',
+  '←': '<-',
+  '≥': '>=',
+  '≤': '<=',
+  '\n': ' ',
+  '\t': ' '
+};
+
+interface Layout {
+  doc: PDFDocument;
+  page: PDFPage;
+  /** Baseline of the next line, measured from the bottom of the page */
+  y: number;
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+interface TextOptions {
+  font?: PDFFont;
+  size?: number;
+  color?: Color;
+  indent?: number;
+}
+
+function hexColor(hex: string): Color {
+  const value = parseInt(hex.slice(1), 16);
+  return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255);
+}
+
+/**
+ * Replace characters the standard fonts cannot encode
+ * Finding messages can quote page content, which may contain any Unicode text.
+ */
+function toWinAnsi(text: string): string {
+  return text.replace(/[^\x20-\x7e\xa0-\xff]/gu, char =>
+    REPLACEMENTS[char] ?? (WIN_ANSI_EXTRA.includes(char) ? char : '?'));
+}
+
+/**
+ * Split text into lines that fit the given width
+ * Words wider than a full line are broken between characters.
+ */
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+
+    if (line) lines.push(line);
+    line = word;
+    while (font.widthOfTextAtSize(line, size) > maxWidth) {
+      let cut = line.length - 1;
+      while (cut > 1 && font.widthOfTextAtSize(line.slice(0, cut), size) > maxWidth) cut--;
+      lines.push(line.slice(0, cut));
+      line = line.slice(cut);
+    }
+  }
+
+  if (line) lines.push(line);
+  return lines;
+}
+
+function addPage(layout: Layout): void {
+  layout.page = layout.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  layout.y = PAGE_HEIGHT - MARGIN;
+}
+
+/**
+ * Start a new page if fewer than `height` points are left above the footer
+ */
+function ensureSpace(layout: Layout, height: number): void {
+  if (layout.y - height < MARGIN + FOOTER_HEIGHT) addPage(layout);
+}
+
+/**
+ * Draw wrapped text at the cursor and move the cursor below it
+ */
+function drawParagraph(layout: Layout, text: string, options: TextOptions = {}): void {
+  const font = options.font ?? layout.regular;
+  const size = options.size ?? 10;
+  const indent = options.indent ?? 0;
+  const lineHeight = size * 1.4;
+
+  for (const line of wrapText(toWinAnsi(text), font, size, CONTENT_WIDTH - indent)) {
+    ensureSpace(layout, lineHeight);
+    layout.y -= lineHeight;
+    layout.page.drawText(line, { x: MARGIN + indent, y: layout.y, font, size, color: options.color ?? TEXT });
+  }
+}
+
+function drawHeading(layout: Layout, text: string, color: Color = TEXT): void {
+  ensureSpace(layout, 48);
+  layout.y -= 24;
+  layout.page.drawText(toWinAnsi(text), { x: MARGIN, y: layout.y, font: layout.bold, size: 14, color });
+  layout.y -= 6;
+  layout.page.drawLine({
+    start: { x: MARGIN, y: layout.y },
+    end: { x: PAGE_WIDTH - MARGIN, y: layout.y },
+    thickness: 1,
+    color: TRACK
+  });
+  layout.y -= 4;
+}
+
+function drawHeader(layout: Layout, summary: ReportSummary, t: ReportStrings): void {
+  const height = 96;
+  layout.page.drawRectangle({ x: 0, y: PAGE_HEIGHT - height, width: PAGE_WIDTH, height, color: DARK });
+  layout.page.drawText('EFFFEKT', { x: MARGIN, y: PAGE_HEIGHT - 36, font: layout.bold, size: 18, color: BRAND });
+  layout.page.drawText(toWinAnsi(t.title(summary.hostname)), {
+    x: MARGIN, y: PAGE_HEIGHT - 60, font: layout.bold, size: 16, color: WHITE
+  });
+
+  const scope = (summary.pageCount === null ? '' : ` · ${t.pagesAnalyzed(summary.pageCount)}`) +
+    (summary.profileLabel === null ? '' : ` · ${t.profile(summary.profileLabel)}`);
+  const meta = wrapText(toWinAnsi(`${summary.url} · ${t.analyzed(summary.analyzedAt)}${scope}`), layout.regular, 9, CONTENT_WIDTH)[0];
+  layout.page.drawText(meta, { x: MARGIN, y: PAGE_HEIGHT - 80, font: layout.regular, size: 9, color: AVERAGE });
+
+  layout.y = PAGE_HEIGHT - height - 16;
+}
+
+function drawTotalScore(layout: Layout, summary: ReportSummary, t: ReportStrings): void {
+  const radius = 34;
+  const color = hexColor(STATUS_COLORS[summary.totalStatus]);
+  const centerY = layout.y - radius - 8;
+  const score = String(summary.totalScore);
+  const scoreWidth = layout.bold.widthOfTextAtSize(score, 24);
+
+  layout.page.drawCircle({ x: MARGIN + radius, y: centerY, size: radius, borderColor: color, borderWidth: 6 });
+  layout.page.drawText(score, { x: MARGIN + radius - scoreWidth / 2, y: centerY - 8, font: layout.bold, size: 24, color });
+  layout.page.drawText(toWinAnsi(t.totalScore(summary.totalScore)), {
+    x: MARGIN + radius * 2 + 24, y: centerY + 4, font: layout.bold, size: 14, color: TEXT
+  });
+  layout.page.drawText(toWinAnsi(t.totalDescription), {
+    x: MARGIN + radius * 2 + 24, y: centerY - 14, font: layout.regular, size: 9, color: MUTED
+  });
+
+  layout.y = centerY - radius - 12;
+}
+
+function drawCategoryRow(layout: Layout, category: CategorySummary, t: ReportStrings): void {
+  const rowHeight = 34;
+  const barX = MARGIN + 260;
+  const barWidth = CONTENT_WIDTH - 260;
+  const color = hexColor(STATUS_COLORS[category.status]);
+
+  ensureSpace(layout, rowHeight);
+  const top = layout.y;
+  const { page } = layout;
+
+  page.drawText(toWinAnsi(category.label), { x: MARGIN, y: top - 13, font: layout.bold, size: 11, color: TEXT });
+  page.drawText(toWinAnsi(category.description), { x: MARGIN, y: top - 25, font: layout.regular, size: 8, color: MUTED });
+  page.drawText(String(category.score), { x: MARGIN + 170, y: top - 17, font: layout.bold, size: 13, color });
+  page.drawText(toWinAnsi(t.average(category.benchmark)), { x: MARGIN + 200, y: top - 16, font: layout.regular, size: 8, color: MUTED });
+  if (category.percentile !== null) {
+    page.drawText(toWinAnsi(t.betterThan(category.percentile)), { x: MARGIN + 200, y: top - 26, font: layout.regular, size: 7, color: MUTED });
+  }
+
+  page.drawRectangle({ x: barX, y: top - 14, width: barWidth, height: 7, color: TRACK });
+  page.drawRectangle({ x: barX, y: top - 14, width: barWidth * category.score / 100, height: 7, color });
+  page.drawRectangle({ x: barX, y: top - 24, width: barWidth, height: 5, color: TRACK });
+  page.drawRectangle({ x: barX, y: top - 24, width: barWidth * category.benchmark / 100, height: 5, color: AVERAGE });
+
+  layout.y = top - rowHeight;
+}
+
+function drawQuickWins(layout: Layout, summary: ReportSummary, t: ReportStrings): void {
+  if (summary.quickWins.length === 0) return;
+
+  drawHeading(layout, t.quickWinsTitle);
+  drawParagraph(layout, t.quickWinsSubtitle, { size: 9, color: MUTED });
+
+  summary.quickWins.forEach((win, index) => {
+    layout.y -= 4;
+    drawParagraph(layout, `${String(index + 1)}. ${win.message}`, { font: layout.bold });
+    drawParagraph(layout, `${win.fixTime} · ${t.impact(t.impactLabels[win.impact])}`, { size: 9, color: MUTED, indent: 12 });
+  });
+}
+
+function drawFindingSection(layout: Layout, section: FindingSection, t: ReportStrings): void {
+  const color = hexColor(FINDING_GROUP_COLORS[section.group]);
+  drawHeading(layout, `${section.title} (${String(section.findings.length)})`, color);
+
+  for (const finding of section.findings) {
+    layout.y -= 4;
+    ensureSpace(layout, 14);
+    layout.page.drawRectangle({ x: MARGIN, y: layout.y - 11, width: 4, height: 12, color });
+
+    const pages = finding.pageCount === null ? '' : ` (${t.pageCount(finding.pageCount)})`;
+    drawParagraph(layout, `${finding.categoryLabel}: ${finding.message}${pages}`, { indent: 12 });
+  }
+}
+
+function drawFooters(layout: Layout, t: ReportStrings): void {
+  const pages = layout.doc.getPages();
+  pages.forEach((page, index) => {
+    page.drawText(toWinAnsi(t.pdfFooter), { x: MARGIN, y: MARGIN - 20, font: layout.regular, size: 8, color: MUTED });
+
+    const label = t.pageNumber(index + 1, pages.length);
+    const width = layout.regular.widthOfTextAtSize(label, 8);
+    page.drawText(label, { x: PAGE_WIDTH - MARGIN - width, y: MARGIN - 20, font: layout.regular, size: 8, color: MUTED });
+  });
+}
+
+/**
+ * Render an analysis as a PDF document
+ * @param result Analysis, already passed through localizeResult for other languages
+ * @param locale Language of the report texts
+ * @returns The PDF file contents
+ */
+export async function renderReportPdf(result: AnalysisResult, locale: Locale = DEFAULT_LOCALE): Promise<Uint8Array> {
+  const summary = summarizeReport(result, locale);
+  const t = REPORT_STRINGS[locale];
+  const doc = await PDFDocument.create();
+  doc.setTitle(toWinAnsi(t.title(summary.hostname)));
+  doc.setAuthor('EFFFEKT');
+  doc.setLanguage(t.languageTag);
+
+  const layout: Layout = {
+    doc,
+    page: doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]),
+    y: PAGE_HEIGHT - MARGIN,
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold)
+  };
+
+  drawHeader(layout, summary, t);
+  drawTotalScore(layout, summary, t);
+
+  drawHeading(layout, t.categoryHeading);
+  layout.y -= 6;
+  for (const category of summary.categories) {
+    drawCategoryRow(layout, category, t);
+  }
+  drawParagraph(layout, t.barsNote(summary.benchmarkSource), { size: 8, color: MUTED });
+  if (summary.benchmarkNote !== null) {
+    drawParagraph(layout, summary.benchmarkNote, { size: 9 });
+  }
+
+  drawQuickWins(layout, summary, t);
+  for (const section of summary.sections) {
+    drawFindingSection(layout, section, t);
+  }
+
+  drawFooters(layout, t);
+  return doc.save();
+}
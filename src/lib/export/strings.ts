@@ -0,0 +1,180 @@
+// Report texts per language - shared by the report page and the HTML and PDF exports
+import type { Locale, QuickWin } from '../../types/api';
+import type { FindingGroup } from './summary';
+
+export interface ReportStrings {
+  /** BCP 47 tag for dates and the document language */
+  languageTag: string;
+
+  // Header
+  title: (hostname: string) => string;
+  analyzed: (date: string) => string;
+  pagesAnalyzed: (n: number) => string;
+  profile: (label: string) => string;
+  validUntil: (date: string) => string;
+  downloadPdf: string;
+  downloadHtml: string;
+
+  // Scores
+  totalOutOf: string;
+  totalScore: (score: number) => string;
+  totalDescription: string;
+  categoryHeading: string;
+  categoryColumn: string;
+  scoreColumn: string;
+  averageColumn: string;
+  comparisonColumn: string;
+  barsNote: (source: string) => string;
+  benchmarkTitle: (source: string) => string;
+  you: (score: number) => string;
+  average: (score: number) => string;
+  betterThan: (percentile: number) => string;
+
+  // Quick wins and findings
+  quickWinsTitle: string;
+  quickWinsSubtitle: string;
+  impactLabels: Record<QuickWin['impact'], string>;
+  impact: (label: string) => string;
+  points: (n: number) => string;
+  howToFix: string;
+  findingGroups: Record<FindingGroup, string>;
+  pageCount: (n: number) => string;
+  detailsTitle: string;
+  readMore: string;
+  noProblems: string;
+
+  // Footer and call to action
+  footer: string;
+  pdfFooter: string;
+  pageNumber: (page: number, total: number) => string;
+  ctaTitle: string;
+  ctaText: string;
+  ctaButton: string;
+
+  // Missing report
+  notFoundTitle: string;
+  notFoundText: string;
+  notFoundButton: string;
+  notFoundDescription: string;
+  pageTitle: (hostname: string) => string;
+  pageDescription: (hostname: string, score: number) => string;
+  sectionLabel: string;
+}
+
+const nb: ReportStrings = {
+  languageTag: 'nb-NO',
+
+  title: hostname => `Nettsideanalyse av ${hostname}`,
+  analyzed: date => `Analysert ${date}`,
+  pagesAnalyzed: n => `${String(n)} sider analysert`,
+  profile: label => `Vektprofil: ${label}`,
+  validUntil: date => `Lenken er gyldig til ${date}`,
+  downloadPdf: 'Last ned PDF',
+  downloadHtml: 'Last ned HTML',
+
+  totalOutOf: 'Total score av 100',
+  totalScore: score => `Total score: ${String(score)} av 100`,
+  totalDescription: 'Vektet snitt av hastighet, SEO, sikkerhet, mobilvennlighet og tilgjengelighet.',
+  categoryHeading: 'Score per kategori',
+  categoryColumn: 'Kategori',
+  scoreColumn: 'Score',
+  averageColumn: 'Snitt',
+  comparisonColumn: 'Sammenligning',
+  barsNote: source => `Øverste stolpe viser din score, nederste viser ${source}.`,
+  benchmarkTitle: source => `Sammenligning med ${source}`,
+  you: score => `Du: ${String(score)}`,
+  average: score => `Snitt: ${String(score)}`,
+  betterThan: percentile => `Bedre enn ${String(percentile)} %`,
+
+  quickWinsTitle: 'Raskeste forbedringer',
+  quickWinsSubtitle: 'Disse endringene gir størst effekt med minst innsats',
+  impactLabels: { Høy: 'Høy', Medium: 'Medium', Lav: 'Lav' },
+  impact: label => `${label} effekt`,
+  points: n => `(+${String(n)} poeng)`,
+  howToFix: 'Slik fikser du det',
+  findingGroups: {
+    critical: 'Kritiske problemer',
+    warning: 'Advarsler',
+    info: 'Anbefalinger',
+    success: 'Godkjent'
+  },
+  pageCount: n => `${String(n)} sider`,
+  detailsTitle: 'Detaljert analyse',
+  readMore: 'Les mer',
+  noProblems: 'Ingen problemer funnet',
+
+  footer: 'Rapport fra EFFFEKT – efffekt.no. Vil du ha hjelp med forbedringene? Ta kontakt for en gratis gjennomgang.',
+  pdfFooter: 'Rapport fra EFFFEKT – efffekt.no',
+  pageNumber: (page, total) => `Side ${String(page)} av ${String(total)}`,
+  ctaTitle: 'Få en personlig forbedringsplan',
+  ctaText: 'Vi går gjennom analysen med deg og lager en konkret plan for å forbedre nettsiden din. Helt gratis, ingen forpliktelser.',
+  ctaButton: 'Book gratis gjennomgang',
+
+  notFoundTitle: 'Rapporten finnes ikke',
+  notFoundText: 'Lenken er ugyldig eller rapporten er utløpt. Kjør en ny analyse for å få et oppdatert resultat.',
+  notFoundButton: 'Analyser nettsiden din',
+  notFoundDescription: 'Rapporten finnes ikke eller er utløpt.',
+  pageTitle: hostname => `Analyse av ${hostname}`,
+  pageDescription: (hostname, score) => `Resultat fra nettsideanalyse av ${hostname}: ${String(score)}/100.`,
+  sectionLabel: 'Nettsideanalyse'
+};
+
+const en: ReportStrings = {
+  languageTag: 'en-GB',
+
+  title: hostname => `Website analysis of ${hostname}`,
+  analyzed: date => `Analyzed ${date}`,
+  pagesAnalyzed: n => `${String(n)} pages analyzed`,
+  profile: label => `Weight profile: ${label}`,
+  validUntil: date => `The link is valid until ${date}`,
+  downloadPdf: 'Download PDF',
+  downloadHtml: 'Download HTML',
+
+  totalOutOf: 'Total score out of 100',
+  totalScore: score => `Total score: ${String(score)} out of 100`,
+  totalDescription: 'Weighted average of speed, SEO, security, mobile-friendliness and accessibility.',
+  categoryHeading: 'Score per category',
+  categoryColumn: 'Category',
+  scoreColumn: 'Score',
+  averageColumn: 'Average',
+  comparisonColumn: 'Comparison',
+  barsNote: source => `The top bar shows your score, the bottom one shows ${source}.`,
+  benchmarkTitle: source => `Comparison with ${source}`,
+  you: score => `You: ${String(score)}`,
+  average: score => `Average: ${String(score)}`,
+  betterThan: percentile => `Better than ${String(percentile)} %`,
+
+  quickWinsTitle: 'Quickest improvements',
+  quickWinsSubtitle: 'These changes have the most effect for the least effort',
+  impactLabels: { Høy: 'High', Medium: 'Medium', Lav: 'Low' },
+  impact: label => `${label} impact`,
+  points: n => `(+${String(n)} points)`,
+  howToFix: 'How to fix it',
+  findingGroups: {
+    critical: 'Critical issues',
+    warning: 'Warnings',
+    info: 'Recommendations',
+    success: 'Passed'
+  },
+  pageCount: n => `${String(n)} pages`,
+  detailsTitle: 'Detailed analysis',
+  readMore: 'Read more',
+  noProblems: 'No problems found',
+
+  footer: 'Report from EFFFEKT – efffekt.no. Want help with the improvements? Get in touch for a free review.',
+  pdfFooter: 'Report from EFFFEKT – efffekt.no',
+  pageNumber: (page, total) => `Page ${String(page)} of ${String(total)}`,
+  ctaTitle: 'Get a personal improvement plan',
+  ctaText: 'We go through the analysis with you and make a concrete plan for improving your website. Completely free, no obligations.',
+  ctaButton: 'Book a free review',
+
+  notFoundTitle: 'The report does not exist',
+  notFoundText: 'The link is invalid or the report has expired. Run a new analysis to get an up-to-date result.',
+  notFoundButton: 'Analyze your website',
+  notFoundDescription: 'The report does not exist or has expired.',
+  pageTitle: hostname => `Analysis of ${hostname}`,
+  pageDescription: (hostname, score) => `Website analysis result for ${hostname}: ${String(score)}/100.`,
+  sectionLabel: 'Website analysis'
+};
+
+export const REPORT_STRINGS: Record<Locale, ReportStrings> = { nb, en };
@@ -0,0 +1,144 @@
+/**
+ * Report summary
+ * Flattens an analysis into the sections shared by the HTML and PDF exports
+ */
+
+import type {
+  AnalysisResult,
+  CategoryKey,
+  CategoryResult,
+  Locale,
+  QuickWin,
+  Severity,
+  StatusColor
+} from '../../types/api';
+import {
+  DEFAULT_LOCALE,
+  LOCALIZED_CATEGORY_DESCRIPTIONS,
+  LOCALIZED_CATEGORY_LABELS,
+  getBenchmarkNote,
+  getBenchmarkSource,
+  getScoreColorClass
+} from '../../types/api';
+import { generateQuickWins } from '../../utils/quick-wins';
+import { REPORT_STRINGS } from './strings';
+
+// Same number of quick wins as the scanner shows
+const MAX_QUICK_WINS = 5;
+
+export type FindingGroup = Severity | 'success';
+
+export interface CategorySummary {
+  key: CategoryKey;
+  label: string;
+  description: string;
+  score: number;
+  benchmark: number;
+  /** Share of sampled sites in the segment with a lower score, null without enough data */
+  percentile: number | null;
+  status: StatusColor;
+}
+
+export interface FindingSummary {
+  category: CategoryKey;
+  categoryLabel: string;
+  message: string;
+  /** Number of pages the finding was seen on (crawl results only) */
+  pageCount: number | null;
+}
+
+export interface FindingSection {
+  group: FindingGroup;
+  title: string;
+  findings: FindingSummary[];
+}
+
+export interface ReportSummary {
+  url: string;
+  hostname: string;
+  /** Analysis date formatted for the report's language */
+  analyzedAt: string;
+  totalScore: number;
+  totalStatus: StatusColor;
+  /** Number of pages analyzed, null for single-page scans */
+  pageCount: number | null;
+  /** Weight profile name, null when the standard weights were used */
+  profileLabel: string | null;
+  /** What the benchmark values are, e.g. 'norsk gjennomsnitt' */
+  benchmarkSource: string;
+  /** Where the total score stands in its segment, null without segment data */
+  benchmarkNote: string | null;
+  categories: CategorySummary[];
+  quickWins: QuickWin[];
+  /** Findings grouped by severity, most severe first; empty groups are left out */
+  sections: FindingSection[];
+}
+
+const FINDING_GROUP_ORDER: FindingGroup[] = ['critical', 'warning', 'info', 'success'];
+
+/**
+ * Format an ISO timestamp as a date, e.g. '18. oktober 2026' or '18 October 2026'
+ */
+export function formatReportDate(iso: string, locale: Locale = DEFAULT_LOCALE): string {
+  return new Date(iso).toLocaleDateString(REPORT_STRINGS[locale].languageTag, { day: 'numeric', month: 'long', year: 'numeric' });
+}
+
+/**
+ * Build the export summary for an analysis
+ * @param result Analysis, already passed through localizeResult for other languages
+ * @param locale Language of the labels and dates
+ */
+export function summarizeReport(result: AnalysisResult, locale: Locale = DEFAULT_LOCALE): ReportSummary {
+  const labels = LOCALIZED_CATEGORY_LABELS[locale];
+  const descriptions = LOCALIZED_CATEGORY_DESCRIPTIONS[locale];
+  const entries = Object.entries(result.categories) as [CategoryKey, CategoryResult][];
+
+  const grouped = new Map<FindingGroup, FindingSummary[]>(FINDING_GROUP_ORDER.map(group => [group, []]));
+  for (const [key, category] of entries) {
+    for (const detail of category.details) {
+      const group: FindingGroup = detail.type === 'success' ? 'success' : detail.severity ?? 'info';
+      grouped.get(group)?.push({
+        category: key,
+        categoryLabel: labels[key],
+        message: detail.message,
+        pageCount: detail.pages ? detail.pages.length : null
+      });
+    }
+  }
+
+  return {
+    url: result.url,
+    hostname: new URL(result.url).hostname,
+    analyzedAt: formatReportDate(result.analyzedAt, locale),
+    totalScore: result.totalScore,
+    totalStatus: getScoreColorClass(result.totalScore),
+    pageCount: result.crawl ? result.crawl.pages.length : null,
+    profileLabel: result.scoring && result.scoring.profile !== 'standard' ? result.scoring.label : null,
+    benchmarkSource: getBenchmarkSource(result.segment, locale),
+    benchmarkNote: getBenchmarkNote(result.segment, locale),
+    categories: entries.map(([key, category]) => ({
+      key,
+      label: labels[key],
+      description: descriptions[key],
+      score: category.score,
+      benchmark: category.benchmark,
+      percentile: category.percentile ?? null,
+      status: category.status
+    })),
+    quickWins: generateQuickWins(result).slice(0, MAX_QUICK_WINS),
+    sections: FINDING_GROUP_ORDER
+      .map(group => ({ group, title: REPORT_STRINGS[locale].findingGroups[group], findings: grouped.get(group) ?? [] }))
+      .filter(section => section.findings.length > 0)
+  };
+}
+
+/**
+ * Download filename for an exported report
+ * @param result Exported analysis
+ * @param extension File extension without the dot, e.g. 'pdf'
+ */
+export function getExportFilename(result: AnalysisResult, extension: string): string {
+  const hostname = new URL(result.url).hostname.replace(/[^a-z0-9.-]/gi, '');
+  const date = result.analyzedAt.slice(0, 10);
+  return `efffekt-analyse-${hostname}-${date}.${extension}`;
+}
@@ -0,0 +1,131 @@
+/**
+ * Scan history
+ * Keeps the scores and problems of every fresh analysis per domain, so score
+ * trends and resolved findings can be shown over time. Anyone can read the
+ * history of a domain, so scanned URLs, report links and text params are not kept.
+ */
+
+import type {
+  AnalysisResult,
+  CategoryKey,
+  CategoryResult,
+  FindingsDiff,
+  HistoryEntry,
+  HistoryFinding,
+  MessageParams,
+  ScanHistory
+} from '../types/api';
+import { DEFAULT_LOCALE } from '../types/api';
+import { formatRedactedFinding } from './analyzer/messages';
+import { calculateTotalScore } from './analyzer/result';
+import { getStore } from './storage';
+
+// Oldest scans are dropped beyond this
+export const MAX_HISTORY_ENTRIES = 100;
+
+/**
+ * Normalize a URL to the domain its history is stored under
+ * Lowercase hostname without a leading 'www.'; scheme, port and path are ignored.
+ */
+export function getHistoryDomain(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^www\./, '').replace(/\.$/, '');
+}
+
+function getHistoryKey(domain: string): string {
+  return `history:${domain}`;
+}
+
+// Counts and sizes only; text params can hold URLs, hosts and header values
+function getNumericParams(params: MessageParams | undefined): MessageParams | undefined {
+  if (!params) return undefined;
+  const numeric = Object.entries(params).filter(([, value]) => typeof value === 'number');
+  return numeric.length > 0 ? Object.fromEntries(numeric) : undefined;
+}
+
+// A finding of a fresh analysis, or one from an entry stored before codes were recorded
+type RecordedFinding = Pick<HistoryFinding, 'ruleId' | 'category' | 'severity' | 'params'> & { code?: string };
+
+function toHistoryFinding(finding: RecordedFinding): HistoryFinding {
+  // Scans stored before findings had codes fall back to the rule's main message
+  const code = finding.code ?? finding.ruleId;
+  const params = getNumericParams(finding.params);
+
+  return {
+    ruleId: finding.ruleId,
+    category: finding.category,
+    severity: finding.severity,
+    code,
+    ...(params ? { params } : {}),
+    message: formatRedactedFinding(code, params, DEFAULT_LOCALE) ?? finding.ruleId
+  };
+}
+
+function toHistoryEntry(result: AnalysisResult): HistoryEntry {
+  const categories = Object.entries(result.categories) as [CategoryKey, CategoryResult][];
+
+  const scores = {} as Record<CategoryKey, number>;
+  const findings: HistoryFinding[] = [];
+  for (const [category, evaluation] of categories) {
+    scores[category] = evaluation.score;
+    for (const detail of evaluation.details) {
+      if (detail.severity && detail.type !== 'success') {
+        findings.push(toHistoryFinding({ ...detail, category, severity: detail.severity }));
+      }
+    }
+  }
+
+  // The standard weights, not the scan's profile, so every entry of a domain is comparable
+  return { analyzedAt: result.analyzedAt, totalScore: calculateTotalScore(scores), scores, findings };
+}
+
+// Entries stored before findings had codes get their rule's main message
+function normalizeEntry(entry: HistoryEntry): HistoryEntry {
+  return { ...entry, findings: entry.findings.map(toHistoryFinding) };
+}
+
+async function loadEntries(domain: string): Promise<HistoryEntry[]> {
+  const stored = await getStore().get(getHistoryKey(domain));
+  return Array.isArray(stored) ? (stored as HistoryEntry[]).map(normalizeEntry) : [];
+}
+
+/**
+ * Append a fresh analysis to its domain's history
+ * Concurrent scans of the same domain may overwrite each other's entry;
+ * history is informative, so last write wins.
+ */
+export async function recordScan(result: AnalysisResult): Promise<void> {
+  const domain = getHistoryDomain(new URL(result.url));
+  const entries = await loadEntries(domain);
+
+  entries.push(toHistoryEntry(result));
+  await getStore().set(getHistoryKey(domain), entries.slice(-MAX_HISTORY_ENTRIES));
+}
+
+/**
+ * Problems resolved and introduced between two scans, matched by rule id
+ */
+export function diffFindings(previous: HistoryEntry, current: HistoryEntry): FindingsDiff {
+  const before = new Set(previous.findings.map(finding => finding.ruleId));
+  const after = new Set(current.findings.map(finding => finding.ruleId));
+
+  return {
+    since: previous.analyzedAt,
+    resolved: previous.findings.filter(finding => !after.has(finding.ruleId)),
+    introduced: current.findings.filter(finding => !before.has(finding.ruleId))
+  };
+}
+
+/**
+ * Load the scan history of a domain
+ * @param url Any URL on the domain
+ */
+export async function getHistory(url: URL): Promise<ScanHistory> {
+  const domain = getHistoryDomain(url);
+  const entries = await loadEntries(domain);
+
+  return {
+    domain,
+    entries,
+    diff: entries.length >= 2 ? diffFindings(entries[entries.length - 2], entries[entries.length - 1]) : null
+  };
+}
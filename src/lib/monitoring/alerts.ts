@@ -0,0 +1,199 @@
+/**
+ * Monitoring alerts
+ * Detects regressions between two monitored runs and delivers alerts to
+ * webhooks and email
+ */
+
+import type { Dispatcher } from 'undici';
+import type { AnalysisResult, CategoryKey, CategoryResult } from '../../types/api';
+import { CATEGORY_LABELS } from '../../types/api';
+import { assertFetchableUrl, getBlockedUrlError, safeDispatcher } from '../analyzer';
+import type {
+  AlertReason,
+  AlertSink,
+  Monitor,
+  MonitorAlert,
+  MonitorSnapshot,
+  MonitorThresholds
+} from './types';
+
+export const ALERT_TIMEOUT = 10000;
+
+// Resend-compatible email API; override to use another provider with the same request shape
+const DEFAULT_EMAIL_API_URL = 'https://api.resend.com/emails';
+
+/**
+ * Reduce an analysis to what later runs are compared against
+ */
+export function takeSnapshot(result: AnalysisResult): MonitorSnapshot {
+  const scores = {} as Record<CategoryKey, number>;
+  const criticalRuleIds: string[] = [];
+
+  for (const [key, category] of Object.entries(result.categories) as [CategoryKey, CategoryResult][]) {
+    scores[key] = category.score;
+    for (const detail of category.details) {
+      if (detail.severity === 'critical') criticalRuleIds.push(detail.ruleId);
+    }
+  }
+
+  return { analyzedAt: result.analyzedAt, totalScore: result.totalScore, scores, criticalRuleIds };
+}
+
+/**
+ * Score drops past the thresholds and critical findings that were not there before
+ * @param previous Snapshot from the last successful run
+ * @param result Fresh analysis
+ */
+export function findRegressions(
+  previous: MonitorSnapshot,
+  result: AnalysisResult,
+  thresholds: MonitorThresholds
+): AlertReason[] {
+  const reasons: AlertReason[] = [];
+
+  if (previous.totalScore - result.totalScore >= thresholds.total) {
+    reasons.push({ type: 'score-drop', category: 'total', previous: previous.totalScore, current: result.totalScore });
+  }
+
+  for (const [key, category] of Object.entries(result.categories) as [CategoryKey, CategoryResult][]) {
+    const before = previous.scores[key];
+    if (before - category.score >= thresholds.category) {
+      reasons.push({ type: 'score-drop', category: key, previous: before, current: category.score });
+    }
+  }
+
+  const known = new Set(previous.criticalRuleIds);
+  for (const category of Object.values(result.categories) as CategoryResult[]) {
+    for (const detail of category.details) {
+      if (detail.severity === 'critical' && !known.has(detail.ruleId)) {
+        reasons.push({ type: 'new-critical', ruleId: detail.ruleId, message: detail.message });
+      }
+    }
+  }
+
+  return reasons;
+}
+
+function describeReason(reason: AlertReason): string {
+  switch (reason.type) {
+    case 'score-drop': {
+      const label = reason.category === 'total' ? 'Total score' : CATEGORY_LABELS[reason.category];
+      return `${label} falt fra ${String(reason.previous)} til ${String(reason.current)}`;
+    }
+    case 'new-critical':
+      return `Nytt kritisk funn: ${reason.message}`;
+    case 'analysis-failed':
+      return `Analysen feilet: ${reason.message}`;
+  }
+}
+
+/**
+ * Build the alert for a monitor run
+ * @param siteUrl Origin of this deployment, used to make the report link absolute
+ */
+export function createAlert(
+  monitor: Monitor,
+  reasons: AlertReason[],
+  reportPath: string | null,
+  siteUrl: string
+): MonitorAlert {
+  const reportUrl = reportPath ? new URL(reportPath, siteUrl).href : null;
+  const lines = [
+    `Varsel for ${monitor.url}:`,
+    ...reasons.map(reason => `- ${describeReason(reason)}`),
+    ...(reportUrl ? [`Rapport: ${reportUrl}`] : [])
+  ];
+
+  return {
+    monitorId: monitor.id,
+    url: monitor.url,
+    detectedAt: new Date().toISOString(),
+    reasons,
+    text: lines.join('\n'),
+    reportUrl
+  };
+}
+
+/**
+ * POST JSON through the analyzer's SSRF guard
+ * Webhook URLs come from API clients, so internal addresses are refused and
+ * redirects are not followed.
+ */
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+  assertFetchableUrl(new URL(url));
+
+  // Node's fetch accepts an undici dispatcher, which the DOM RequestInit type does not declare
+  const init: RequestInit & { dispatcher: Dispatcher } = {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    redirect: 'manual',
+    signal: AbortSignal.timeout(ALERT_TIMEOUT),
+    dispatcher: safeDispatcher
+  };
+
+  const response = await fetch(url, init).catch((error: unknown) => {
+    throw getBlockedUrlError(error) ?? error;
+  });
+
+  if (!response.ok) {
+    throw new Error(`Alert delivery to ${new URL(url).host} failed with ${String(response.status)}`);
+  }
+}
+
+/**
+ * Send alerts as a JSON POST
+ * The `text` field makes the payload usable as a Slack incoming webhook.
+ */
+export function createWebhookSink(url: string): AlertSink {
+  return {
+    send: alert => postJson(url, alert)
+  };
+}
+
+/**
+ * Send alerts by email through an HTTP email API
+ * Requires ALERT_EMAIL_API_KEY and ALERT_EMAIL_FROM; ALERT_EMAIL_API_URL
+ * defaults to Resend.
+ */
+export function createEmailSink(to: string): AlertSink {
+  return {
+    async send(alert) {
+      const apiKey = process.env.ALERT_EMAIL_API_KEY;
+      const from = process.env.ALERT_EMAIL_FROM;
+      if (!apiKey || !from) {
+        throw new Error('Email alerts need ALERT_EMAIL_API_KEY and ALERT_EMAIL_FROM');
+      }
+
+      await postJson(process.env.ALERT_EMAIL_API_URL ?? DEFAULT_EMAIL_API_URL, {
+        from,
+        to,
+        subject: `Varsel for ${new URL(alert.url).hostname}`,
+        text: alert.text
+      }, { Authorization: `Bearer ${apiKey}` });
+    }
+  };
+}
+
+/**
+ * Alert sinks for a monitor
+ */
+export function getAlertSinks(monitor: Monitor): AlertSink[] {
+  const sinks: AlertSink[] = [];
+  if (monitor.alerts.webhookUrl) sinks.push(createWebhookSink(monitor.alerts.webhookUrl));
+  if (monitor.alerts.email) sinks.push(createEmailSink(monitor.alerts.email));
+  return sinks;
+}
+
+/**
+ * Deliver an alert to every sink of the monitor
+ * One failing sink does not stop the others; failures are logged.
+ */
+export async function deliverAlert(monitor: Monitor, alert: MonitorAlert): Promise<void> {
+  const outcomes = await Promise.allSettled(getAlertSinks(monitor).map(sink => sink.send(alert)));
+  for (const outcome of outcomes) {
+    if (outcome.status === 'rejected') {
+      console.error('Alert delivery failed:', monitor.id, outcome.reason);
+    }
+  }
+}
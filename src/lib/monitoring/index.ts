@@ -0,0 +1,39 @@
+/**
+ * Scheduled monitoring
+ * Recurring analysis of registered URLs with alerts on regressions
+ */
+
+export {
+  createAlert,
+  createEmailSink,
+  createWebhookSink,
+  deliverAlert,
+  findRegressions,
+  getAlertSinks,
+  takeSnapshot
+} from './alerts';
+export { MAX_MONITORS_PER_RUN, isDue, runDueMonitors } from './scheduler';
+export {
+  DEFAULT_THRESHOLDS,
+  MAX_MONITORS,
+  MonitorInputError,
+  MonitorStorageError,
+  assertMonitorStorage,
+  createMonitor,
+  deleteMonitor,
+  listMonitors,
+  updateMonitors
+} from './store';
+export type {
+  AlertReason,
+  AlertSink,
+  Monitor,
+  MonitorAlert,
+  MonitorAlertTargets,
+  MonitorInput,
+  MonitorRunResult,
+  MonitorRunSummary,
+  MonitorSchedule,
+  MonitorSnapshot,
+  MonitorThresholds
+} from './types';
@@ -0,0 +1,133 @@
+/**
+ * Scheduled monitor runs
+ * Invoked by the cron route; analyzes the monitors that are due and alerts
+ * on regressions since their previous run
+ */
+
+import { mapWithConcurrency } from '../../utils/async';
+import {
+  DEFAULT_CRAWL_PAGES,
+  DEFAULT_SCORING_PROFILE,
+  FETCH_TIMEOUT,
+  describeAnalysisError,
+  parseTargetUrl,
+  runAnalysis
+} from '../analyzer';
+import { getSegment } from '../benchmarks';
+import { ALERT_TIMEOUT, createAlert, deliverAlert, findRegressions, takeSnapshot } from './alerts';
+import { assertMonitorStorage, listMonitors, updateMonitors } from './store';
+import type { AlertReason, Monitor, MonitorRunResult, MonitorRunSummary, MonitorSchedule } from './types';
+
+const SCHEDULE_INTERVALS: Record<MonitorSchedule, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000
+};
+
+// Cron invocations drift; a monitor this close to its next run counts as due.
+// Shorter than the cron interval (vercel.json), so runs do not creep earlier.
+const SCHEDULE_TOLERANCE = 10 * 60 * 1000; // 10 minutes
+
+// Function time limit, maxDuration in astro.config.mjs
+const RUN_TIME_LIMIT = 60000; // 60 seconds
+
+// One monitor whose page and alert both hit their timeouts
+const MONITOR_TIME_LIMIT = FETCH_TIMEOUT + ALERT_TIMEOUT;
+
+const MONITOR_CONCURRENCY = 2;
+
+// Monitors that fit in one invocation even when every one is slow; the rest run next time
+export const MAX_MONITORS_PER_RUN = Math.floor(RUN_TIME_LIMIT / MONITOR_TIME_LIMIT) * MONITOR_CONCURRENCY;
+
+/**
+ * Whether a monitor should run now
+ */
+export function isDue(monitor: Monitor, now: Date): boolean {
+  if (!monitor.lastRunAt) return true;
+  const elapsed = now.getTime() - new Date(monitor.lastRunAt).getTime();
+  return elapsed >= SCHEDULE_INTERVALS[monitor.schedule] - SCHEDULE_TOLERANCE;
+}
+
+/**
+ * Analyze one monitor and send an alert if it regressed
+ * @returns The monitor with its new snapshot, and the outcome for the summary
+ */
+async function runMonitor(
+  monitor: Monitor,
+  siteUrl: string,
+  now: Date
+): Promise<{ monitor: Monitor; result: MonitorRunResult }> {
+  let updated: Monitor;
+  let reasons: AlertReason[];
+  let reportPath: string | null = null;
+
+  // Monitors are registered with the API token, so their segment is trusted.
+  // Monitors stored before segments were assigned fall back to the default.
+  const segment = getSegment(monitor.segment).id;
+
+  try {
+    const analysis = await runAnalysis(parseTargetUrl(monitor.url), {
+      crawl: false,
+      maxPages: DEFAULT_CRAWL_PAGES,
+      force: true,
+      profile: DEFAULT_SCORING_PROFILE,
+      segment,
+      sampleSegment: segment
+    });
+
+    reasons = monitor.lastSnapshot ? findRegressions(monitor.lastSnapshot, analysis, monitor.thresholds) : [];
+    reportPath = analysis.report?.url ?? null;
+    updated = { ...monitor, lastRunAt: now.toISOString(), lastSnapshot: takeSnapshot(analysis), lastError: null };
+  } catch (error: unknown) {
+    const failure = describeAnalysisError(error);
+    if (failure.status === 500) {
+      console.error('Monitor analysis error:', monitor.url, error);
+    }
+
+    // Alert when a site goes down, not again on every run while it stays down
+    reasons = monitor.lastError === null ? [{ type: 'analysis-failed', message: failure.message }] : [];
+    updated = { ...monitor, lastRunAt: now.toISOString(), lastError: failure.message };
+  }
+
+  if (reasons.length > 0) {
+    await deliverAlert(updated, createAlert(updated, reasons, reportPath, siteUrl));
+  }
+
+  return {
+    monitor: updated,
+    result: {
+      monitorId: monitor.id,
+      url: monitor.url,
+      status: updated.lastError !== null ? 'failed' : reasons.length > 0 ? 'alerted' : 'ok',
+      reasons: reasons.length
+    }
+  };
+}
+
+/**
+ * Run every monitor that is due
+ * Monitors that have waited longest go first.
+ *
+ * @param siteUrl Origin of this deployment, for links in alerts
+ * @throws MonitorStorageError without a persistent store
+ */
+export async function runDueMonitors(siteUrl: string, now = new Date()): Promise<MonitorRunSummary> {
+  assertMonitorStorage();
+
+  const due = (await listMonitors())
+    .filter(monitor => isDue(monitor, now))
+    .sort((a, b) => (a.lastRunAt ?? '').localeCompare(b.lastRunAt ?? ''));
+
+  const outcomes = await mapWithConcurrency(
+    due.slice(0, MAX_MONITORS_PER_RUN),
+    MONITOR_CONCURRENCY,
+    monitor => runMonitor(monitor, siteUrl, now)
+  );
+
+  await updateMonitors(outcomes.map(outcome => outcome.monitor));
+
+  return {
+    ranAt: now.toISOString(),
+    due: due.length,
+    results: outcomes.map(outcome => outcome.result)
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * Monitor registry
+ * All monitors are kept under one storage key; the list is small and is
+ * read in full by every scheduled run. Cron runs start on fresh instances,
+ * so monitoring needs a persistent store.
+ */
+
+import { randomBytes } from 'node:crypto';
+import { BlockedUrlError, assertFetchableUrl, parseTargetUrl } from '../analyzer';
+import { DEFAULT_SEGMENT, SEGMENTS } from '../benchmarks';
+import { getStore } from '../storage';
+import type { Monitor, MonitorInput, MonitorSchedule } from './types';
+
+export const MAX_MONITORS = 200;
+
+export const DEFAULT_THRESHOLDS = { total: 5, category: 10 } as const;
+
+const MONITORS_KEY = 'monitors';
+
+const SCHEDULES: readonly MonitorSchedule[] = ['daily', 'weekly'];
+
+// Deliberately loose; the email provider does the real validation
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Thrown when monitor input is invalid
+ */
+export class MonitorInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MonitorInputError';
+  }
+}
+
+/**
+ * Thrown when monitoring is used without a persistent store
+ */
+export class MonitorStorageError extends Error {
+  constructor() {
+    super('Overvåkning krever en vedvarende lagring (KV_REST_API_URL og KV_REST_API_TOKEN)');
+    this.name = 'MonitorStorageError';
+  }
+}
+
+/**
+ * Ensure monitors are stored where every instance can read them
+ * @throws MonitorStorageError when only the in-memory store is configured
+ */
+export function assertMonitorStorage(): void {
+  if (!getStore().persistent) throw new MonitorStorageError();
+}
+
+/**
+ * All registered monitors, oldest first
+ */
+export async function listMonitors(): Promise<Monitor[]> {
+  const stored = await getStore().get(MONITORS_KEY);
+  return Array.isArray(stored) ? stored as Monitor[] : [];
+}
+
+async function saveMonitors(monitors: Monitor[]): Promise<void> {
+  await getStore().set(MONITORS_KEY, monitors);
+}
+
+function parseThreshold(value: unknown, fallback: number): number {
+  if (value === undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 1 || value > 100) {
+    throw new MonitorInputError('Terskler må være tall mellom 1 og 100');
+  }
+  return value;
+}
+
+function parseWebhookUrl(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string') throw new MonitorInputError('Ugyldig webhookUrl');
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new MonitorInputError('Ugyldig webhookUrl');
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new MonitorInputError('webhookUrl må være en HTTP- eller HTTPS-adresse');
+  }
+
+  // Delivery goes through the SSRF guard as well, which also vets the resolved addresses
+  try {
+    assertFetchableUrl(url);
+  } catch (error: unknown) {
+    if (error instanceof BlockedUrlError) {
+      throw new MonitorInputError('webhookUrl kan ikke peke til en intern adresse');
+    }
+    throw error;
+  }
+  return url.href;
+}
+
+function parseEmail(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string' || !EMAIL_PATTERN.test(value)) {
+    throw new MonitorInputError('Ugyldig e-postadresse');
+  }
+  return value;
+}
+
+/**
+ * Register a URL for recurring analysis
+ * @throws MonitorStorageError without a persistent store
+ * @throws MonitorInputError for invalid input or when the limit is reached
+ * @throws InvalidUrlError / BlockedUrlError from parseTargetUrl
+ */
+export async function createMonitor(input: MonitorInput): Promise<Monitor> {
+  assertMonitorStorage();
+  const url = parseTargetUrl(input.url);
+
+  const schedule = input.schedule ?? 'daily';
+  if (!SCHEDULES.includes(schedule)) {
+    throw new MonitorInputError('schedule må være daily eller weekly');
+  }
+
+  const segment = input.segment ?? DEFAULT_SEGMENT;
+  if (!SEGMENTS.some(entry => entry.id === segment)) {
+    throw new MonitorInputError('Ukjent segment');
+  }
+
+  const alerts = { webhookUrl: parseWebhookUrl(input.webhookUrl), email: parseEmail(input.email) };
+  if (!alerts.webhookUrl && !alerts.email) {
+    throw new MonitorInputError('Oppgi webhookUrl eller email for varsler');
+  }
+
+  const monitors = await listMonitors();
+  if (monitors.length >= MAX_MONITORS) {
+    throw new MonitorInputError(`Maks ${String(MAX_MONITORS)} overvåkninger`);
+  }
+
+  const monitor: Monitor = {
+    id: randomBytes(8).toString('base64url'),
+    url: url.href,
+    schedule,
+    segment,
+    thresholds: {
+      total: parseThreshold(input.thresholds?.total, DEFAULT_THRESHOLDS.total),
+      category: parseThreshold(input.thresholds?.category, DEFAULT_THRESHOLDS.category)
+    },
+    alerts,
+    createdAt: new Date().toISOString(),
+    lastRunAt: null,
+    lastSnapshot: null,
+    lastError: null
+  };
+
+  await saveMonitors([...monitors, monitor]);
+  return monitor;
+}
+
+/**
+ * Remove a monitor
+ * @returns false if no monitor has the id
+ */
+export async function deleteMonitor(id: string): Promise<boolean> {
+  const monitors = await listMonitors();
+  const remaining = monitors.filter(monitor => monitor.id !== id);
+  if (remaining.length === monitors.length) return false;
+
+  await saveMonitors(remaining);
+  return true;
+}
+
+/**
+ * Write back monitors updated by a scheduled run
+ * Re-reads the list so monitors registered or deleted during the run are kept.
+ */
+export async function updateMonitors(updated: Monitor[]): Promise<void> {
+  const byId = new Map(updated.map(monitor => [monitor.id, monitor]));
+  const monitors = await listMonitors();
+  await saveMonitors(monitors.map(monitor => byId.get(monitor.id) ?? monitor));
+}
@@ -0,0 +1,125 @@
+/**
+ * Types for scheduled monitoring
+ * Shared by the monitor store, the scheduler and the alert sinks
+ */
+
+import type { CategoryKey, SegmentId } from '../../types/api';
+
+export type MonitorSchedule = 'daily' | 'weekly';
+
+/**
+ * Score drops (in points) that trigger an alert
+ */
+export interface MonitorThresholds {
+  /** Drop in total score */
+  total: number;
+  /** Drop in any single category score */
+  category: number;
+}
+
+/**
+ * Where a monitor's alerts are sent
+ */
+export interface MonitorAlertTargets {
+  /** URL that receives alerts as a JSON POST */
+  webhookUrl: string | null;
+  /** Address that receives alerts by email */
+  email: string | null;
+}
+
+/**
+ * Scores and critical findings from one monitored run
+ */
+export interface MonitorSnapshot {
+  analyzedAt: string;
+  totalScore: number;
+  scores: Record<CategoryKey, number>;
+  /** Rule ids of the critical findings */
+  criticalRuleIds: string[];
+}
+
+/**
+ * A URL registered for recurring analysis
+ */
+export interface Monitor {
+  id: string;
+  /** URL to analyze */
+  url: string;
+  schedule: MonitorSchedule;
+  /** Industry segment the site is benchmarked against and counted in */
+  segment: SegmentId;
+  thresholds: MonitorThresholds;
+  alerts: MonitorAlertTargets;
+  /** ISO timestamp of registration */
+  createdAt: string;
+  /** ISO timestamp of the last run, null before the first run */
+  lastRunAt: string | null;
+  /** Result of the last successful run, compared against on the next run */
+  lastSnapshot: MonitorSnapshot | null;
+  /** Error from the last run, null when it succeeded */
+  lastError: string | null;
+}
+
+/**
+ * Input for registering a monitor
+ */
+export interface MonitorInput {
+  url: string;
+  schedule?: MonitorSchedule;
+  segment?: SegmentId;
+  thresholds?: Partial<MonitorThresholds>;
+  webhookUrl?: string | null;
+  email?: string | null;
+}
+
+/**
+ * One reason an alert was raised
+ */
+export type AlertReason =
+  | { type: 'score-drop'; category: CategoryKey | 'total'; previous: number; current: number }
+  | { type: 'new-critical'; ruleId: string; message: string }
+  | { type: 'analysis-failed'; message: string };
+
+/**
+ * Alert for one monitor run
+ */
+export interface MonitorAlert {
+  monitorId: string;
+  url: string;
+  /** ISO timestamp of the run that raised the alert */
+  detectedAt: string;
+  reasons: AlertReason[];
+  /** Plain-text summary for chat messages and email */
+  text: string;
+  /** Shareable report of the run, null when none was stored */
+  reportUrl: string | null;
+}
+
+/**
+ * Delivers alerts to one destination
+ */
+export interface AlertSink {
+  send(alert: MonitorAlert): Promise<void>;
+}
+
+/**
+ * Outcome of one monitor in a scheduled run
+ */
+export interface MonitorRunResult {
+  monitorId: string;
+  url: string;
+  status: 'ok' | 'alerted' | 'failed';
+  /** Number of alert reasons raised */
+  reasons: number;
+}
+
+/**
+ * Summary returned by the cron route
+ */
+export interface MonitorRunSummary {
+  /** ISO timestamp of the run */
+  ranAt: string;
+  /** Monitors that were due */
+  due: number;
+  results: MonitorRunResult[];
+}
@@ -0,0 +1,82 @@
+/**
+ * Simple in-memory rate limiting with cleanup
+ * Limiters are keyed by client IP; the analyze and history endpoints share one budget
+ */
+
+const CLEANUP_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+const ANALYSIS_RATE_LIMIT_WINDOW = 10 * 60 * 1000; // 10 minutes
+const ANALYSIS_RATE_LIMIT_MAX = 60; // 60 analyzed URLs per 10 minutes per IP
+
+export interface RateLimiter {
+  /**
+   * Record a request and check whether the key is over its limit
+   * @param key Client identifier, usually the IP address
+   * @param cost Units the request uses, e.g. the number of URLs it analyzes
+   */
+  isRateLimited(key: string, cost?: number): boolean;
+}
+
+/**
+ * Create a fixed-window rate limiter
+ * @param max Requests allowed per window
+ * @param window Window length in milliseconds
+ */
+export function createRateLimiter(max: number, window: number): RateLimiter {
+  const rateLimit = new Map<string, { count: number; resetTime: number }>();
+  let lastCleanup = Date.now();
+
+  /**
+   * Remove expired rate limit entries to prevent memory leak
+   */
+  function cleanupExpiredEntries(): void {
+    const now = Date.now();
+    for (const [ip, record] of rateLimit.entries()) {
+      if (now > record.resetTime) {
+        rateLimit.delete(ip);
+      }
+    }
+  }
+
+  return {
+    isRateLimited(key: string, cost = 1): boolean {
+      const now = Date.now();
+
+      // Periodic cleanup to prevent unbounded memory growth
+      if (now - lastCleanup > CLEANUP_INTERVAL) {
+        cleanupExpiredEntries();
+        lastCleanup = now;
+      }
+
+      const record = rateLimit.get(key);
+
+      if (!record || now > record.resetTime) {
+        if (cost > max) return true;
+        rateLimit.set(key, { count: cost, resetTime: now + window });
+        return false;
+      }
+
+      if (record.count + cost > max) {
+        return true;
+      }
+
+      record.count += cost;
+      return false;
+    }
+  };
+}
+
+/**
+ * Budget shared by every endpoint that analyzes URLs or reads stored scans
+ * Batch and comparison requests use one unit per URL, so splitting work
+ * across endpoints does not raise the limit.
+ */
+export const analysisRateLimiter = createRateLimiter(ANALYSIS_RATE_LIMIT_MAX, ANALYSIS_RATE_LIMIT_WINDOW);
+
+/**
+ * Rate limit key for a request
+ * @param clientAddress Address reported by the adapter, if any
+ */
+export function getClientKey(clientAddress: string | undefined): string {
+  return clientAddress !== undefined && clientAddress !== '' ? clientAddress : 'unknown';
+}
@@ -0,0 +1,89 @@
+/**
+ * Shareable analysis reports
+ * Each completed analysis is stored under an unguessable id so it can be
+ * opened again at /rapport/[id]
+ */
+
+import { randomBytes } from 'node:crypto';
+import type { AnalysisResult, ReportInfo } from '../types/api';
+import { validateAnalysisResult } from '../types/api';
+import { getStore } from './storage';
+
+export const DEFAULT_REPORT_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// 16 random bytes, base64url encoded
+const REPORT_ID_PATTERN = /^[A-Za-z0-9_-]{22}$/;
+
+interface StoredReport {
+  result: AnalysisResult;
+  createdAt: string;
+  expiresAt: string | null;
+}
+
+/**
+ * Report lifetime in milliseconds, null when reports never expire
+ * Set REPORT_TTL (seconds) to override the default; 0 keeps reports forever.
+ */
+export function getReportTtl(): number | null {
+  const seconds = parseInt(process.env.REPORT_TTL ?? '', 10);
+  if (Number.isNaN(seconds) || seconds < 0) return DEFAULT_REPORT_TTL;
+  return seconds === 0 ? null : seconds * 1000;
+}
+
+/**
+ * Path of the report page for an id
+ */
+export function getReportPath(id: string): string {
+  return `/rapport/${id}`;
+}
+
+function toReportInfo(id: string, report: StoredReport): ReportInfo {
+  return { id, url: getReportPath(id), createdAt: report.createdAt, expiresAt: report.expiresAt };
+}
+
+function isStoredReport(value: unknown): value is StoredReport {
+  if (typeof value !== 'object' || value === null) return false;
+  const report = value as Record<string, unknown>;
+  return typeof report.createdAt === 'string' &&
+    (typeof report.expiresAt === 'string' || report.expiresAt === null) &&
+    validateAnalysisResult(report.result);
+}
+
+/**
+ * Store an analysis as a report
+ * @param result Completed analysis
+ * @returns Id and link of the new report
+ */
+export async function createReport(result: AnalysisResult): Promise<ReportInfo> {
+  const id = randomBytes(16).toString('base64url');
+  const ttl = getReportTtl();
+  const now = Date.now();
+
+  // Cache metadata and report links belong to a response, not to the stored analysis
+  const analysis: AnalysisResult = { ...result };
+  delete analysis.cache;
+  delete analysis.report;
+
+  const report: StoredReport = {
+    result: analysis,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: ttl === null ? null : new Date(now + ttl).toISOString()
+  };
+
+  await getStore().set(`report:${id}`, report, ttl === null ? {} : { ttl });
+  return toReportInfo(id, report);
+}
+
+/**
+ * Load a stored report
+ * @param id Report id from the URL
+ * @returns The analysis with its report info, or null if it does not exist or has expired
+ */
+export async function getReport(id: string): Promise<AnalysisResult | null> {
+  if (!REPORT_ID_PATTERN.test(id)) return null;
+
+  const report = await getStore().get(`report:${id}`);
+  if (!isStoredReport(report)) return null;
+
+  return { ...report.result, report: toReportInfo(id, report) };
+}
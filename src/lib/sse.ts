@@ -0,0 +1,73 @@
+/**
+ * Server-Sent Events responses
+ * Streams named JSON events and stops the work when the client disconnects
+ */
+
+/**
+ * Send one event to the client; ignored once the stream has closed
+ */
+export type SendEvent = (event: string, data: unknown) => void;
+
+/**
+ * Format an event in the text/event-stream wire format
+ */
+export function formatEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Create a streaming response that runs a handler and closes when it returns
+ * The handler's signal aborts when the client disconnects, so outstanding
+ * requests can be cancelled instead of running to completion unseen.
+ *
+ * @param handler Produces the events; errors should be sent as events, thrown ones only close the stream
+ * @param requestSignal Signal of the incoming request
+ * @param headers Extra response headers
+ */
+export function createEventStream(
+  handler: (send: SendEvent, signal: AbortSignal) => Promise<void>,
+  requestSignal: AbortSignal,
+  headers: Record<string, string> = {}
+): Response {
+  const controller = new AbortController();
+  const abort = (): void => { controller.abort(); };
+  requestSignal.addEventListener('abort', abort, { once: true });
+
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(streamController) {
+      const send: SendEvent = (event, data) => {
+        if (closed) return;
+        streamController.enqueue(encoder.encode(formatEvent(event, data)));
+      };
+
+      try {
+        await handler(send, controller.signal);
+      } catch (error: unknown) {
+        if (!controller.signal.aborted) console.error('Event stream error:', error);
+      } finally {
+        requestSignal.removeEventListener('abort', abort);
+        if (!closed) {
+          closed = true;
+          streamController.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+      controller.abort();
+    }
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      ...headers
+    }
+  });
+}
@@ -0,0 +1,49 @@
+/**
+ * Pluggable storage for analysis data
+ * Uses a Redis REST database when one is configured, otherwise an in-memory
+ * store that only lives as long as the server instance
+ */
+
+import { createMemoryStore } from './memory';
+import { createRestStore } from './rest';
+import type { KeyValueStore } from './types';
+
+let store: KeyValueStore | null = null;
+
+/**
+ * Store selected by the environment
+ * KV_REST_API_URL and KV_REST_API_TOKEN (Vercel KV) or UPSTASH_REDIS_REST_URL and
+ * UPSTASH_REDIS_REST_TOKEN enable the persistent store; STORAGE_PREFIX optionally
+ * namespaces its keys.
+ */
+export function createConfiguredStore(env: Record<string, string | undefined> = process.env): KeyValueStore {
+  const url = env.KV_REST_API_URL ?? env.UPSTASH_REDIS_REST_URL;
+  const token = env.KV_REST_API_TOKEN ?? env.UPSTASH_REDIS_REST_TOKEN;
+
+  if (url && token) {
+    return createRestStore({ url, token, prefix: env.STORAGE_PREFIX });
+  }
+  return createMemoryStore();
+}
+
+/**
+ * Get the configured store
+ */
+export function getStore(): KeyValueStore {
+  store ??= createConfiguredStore();
+  return store;
+}
+
+/**
+ * Replace the storage backend, e.g. with a KV adapter
+ * @param backend Store to use for all subsequent reads and writes
+ */
+export function setStore(backend: KeyValueStore): void {
+  store = backend;
+}
+
+export { DEFAULT_MAX_ENTRIES, createMemoryStore } from './memory';
+export type { MemoryStoreOptions } from './memory';
+export { StorageError, createRestStore } from './rest';
+export type { RestStoreOptions } from './rest';
+export type { KeyValueStore, SetOptions } from './types';
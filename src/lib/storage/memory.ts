@@ -0,0 +1,99 @@
+/**
+ * In-memory key-value store
+ * Default backend; data lives as long as the server instance
+ */
+
+import type { KeyValueStore, SetOptions } from './types';
+
+const CLEANUP_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+export const DEFAULT_MAX_ENTRIES = 1000;
+
+export interface MemoryStoreOptions {
+  /** Entries kept before the least recently used ones are evicted */
+  maxEntries?: number;
+}
+
+interface Entry {
+  value: unknown;
+  /** Expiry timestamp in milliseconds, null for no expiry */
+  expiresAt: number | null;
+}
+
+/**
+ * Create an in-memory store
+ * Values are copied on write and read, so callers cannot mutate stored data.
+ * The store is bounded: expired entries go first, then the least recently used.
+ */
+export function createMemoryStore({ maxEntries = DEFAULT_MAX_ENTRIES }: MemoryStoreOptions = {}): KeyValueStore {
+  // Map order doubles as recency order; entries are moved to the end when used
+  const entries = new Map<string, Entry>();
+  let lastCleanup = Date.now();
+
+  const isExpired = (entry: Entry, now: number): boolean => entry.expiresAt !== null && now > entry.expiresAt;
+
+  /**
+   * Remove expired entries to prevent memory leak
+   */
+  function cleanupExpiredEntries(now: number): void {
+    for (const [key, entry] of entries.entries()) {
+      if (isExpired(entry, now)) {
+        entries.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Drop the least recently used entries until there is room for one more
+   */
+  function evictEntries(now: number): void {
+    if (entries.size < maxEntries) return;
+    cleanupExpiredEntries(now);
+
+    for (const key of entries.keys()) {
+      if (entries.size < maxEntries) break;
+      entries.delete(key);
+    }
+  }
+
+  return {
+    persistent: false,
+
+    get(key: string): Promise<unknown> {
+      const entry = entries.get(key);
+      if (!entry) return Promise.resolve(null);
+
+      if (isExpired(entry, Date.now())) {
+        entries.delete(key);
+        return Promise.resolve(null);
+      }
+
+      entries.delete(key);
+      entries.set(key, entry);
+      return Promise.resolve(structuredClone(entry.value));
+    },
+
+    set(key: string, value: unknown, options: SetOptions = {}): Promise<void> {
+      const now = Date.now();
+
+      // Periodic cleanup to prevent unbounded memory growth
+      if (now - lastCleanup > CLEANUP_INTERVAL) {
+        cleanupExpiredEntries(now);
+        lastCleanup = now;
+      }
+
+      entries.delete(key);
+      evictEntries(now);
+      entries.set(key, {
+        value: structuredClone(value),
+        expiresAt: options.ttl !== undefined ? now + options.ttl : null
+      });
+      return Promise.resolve();
+    },
+
+    delete(key: string): Promise<void> {
+      entries.delete(key);
+      return Promise.resolve();
+    }
+  };
+}
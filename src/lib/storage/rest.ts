@@ -0,0 +1,89 @@
+/**
+ * Redis REST key-value store
+ * Persistent backend for Upstash Redis and Vercel KV, which both accept
+ * Redis commands as JSON over HTTPS. Needs no client library.
+ */
+
+import type { KeyValueStore, SetOptions } from './types';
+
+const REQUEST_TIMEOUT = 5000;
+
+export interface RestStoreOptions {
+  /** REST endpoint of the database, e.g. https://example.upstash.io */
+  url: string;
+  /** Bearer token with read and write access */
+  token: string;
+  /** Prefix for every key, to share one database between deployments */
+  prefix?: string;
+}
+
+/**
+ * Thrown when the storage service rejects a command or cannot be reached
+ */
+export class StorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
+
+/**
+ * Create a store backed by a Redis REST API
+ * Values are stored as JSON strings; expiry is left to Redis.
+ */
+export function createRestStore(options: RestStoreOptions): KeyValueStore {
+  const prefix = options.prefix ?? '';
+
+  async function command(args: (string | number)[]): Promise<unknown> {
+    let response: Response;
+    try {
+      response = await fetch(options.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${options.token}` },
+        body: JSON.stringify(args),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT)
+      });
+    } catch (error: unknown) {
+      throw new StorageError(`Storage request failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const body = await response.json().catch(() => null) as { result?: unknown; error?: unknown } | null;
+    if (!response.ok || body === null || body.error !== undefined) {
+      const reason = typeof body?.error === 'string' ? body.error : `status ${String(response.status)}`;
+      throw new StorageError(`Storage command ${String(args[0])} failed: ${reason}`);
+    }
+    return body.result ?? null;
+  }
+
+  return {
+    persistent: true,
+
+    async get(key: string): Promise<unknown> {
+      const result = await command(['GET', prefix + key]);
+      if (typeof result !== 'string') return null;
+
+      try {
+        return JSON.parse(result) as unknown;
+      } catch {
+        return null;
+      }
+    },
+
+    async set(key: string, value: unknown, setOptions: SetOptions = {}): Promise<void> {
+      const { ttl } = setOptions;
+      // Redis rejects PX 0, so values that expire immediately are just removed
+      if (ttl !== undefined && ttl <= 0) {
+        await command(['DEL', prefix + key]);
+        return;
+      }
+
+      const args: (string | number)[] = ['SET', prefix + key, JSON.stringify(value)];
+      if (ttl !== undefined) args.push('PX', Math.ceil(ttl));
+      await command(args);
+    },
+
+    async delete(key: string): Promise<void> {
+      await command(['DEL', prefix + key]);
+    }
+  };
+}
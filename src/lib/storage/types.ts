@@ -0,0 +1,23 @@
+/**
+ * Key-value storage contract
+ * Implemented by the in-memory store and by adapters for hosted KV services
+ */
+
+export interface SetOptions {
+  /** Time to live in milliseconds, kept forever when omitted */
+  ttl?: number;
+}
+
+/**
+ * Minimal async key-value store holding JSON-serializable values
+ */
+export interface KeyValueStore {
+  /** Whether data outlives the server instance and is shared between instances */
+  readonly persistent: boolean;
+  /** Read a value, null when missing or expired */
+  get(key: string): Promise<unknown>;
+  /** Write a value, replacing any existing one */
+  set(key: string, value: unknown, options?: SetOptions): Promise<void>;
+  /** Remove a value */
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,60 @@
+import type { APIRoute } from 'astro';
+import {
+  MAX_BATCH_URLS,
+  getScoringProfile,
+  localizeBatch,
+  negotiateLocale,
+  runBatchAnalysis
+} from '../../../lib/analyzer';
+import { analysisRateLimiter, getClientKey } from '../../../lib/rate-limit';
+
+/**
+ * Analyze several URLs in one request
+ * Body: { "urls": string[], "force"?: boolean, "profile"?: string, "lang"?: "nb" | "en" }
+ * Without lang, the Accept-Language header decides the language of the findings.
+ * URLs the batch does not finish within its time limit come back as error entries.
+ */
+export const POST: APIRoute = async ({ request, clientAddress }) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return new Response(JSON.stringify({ error: 'Ugyldig JSON i forespørselen' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const { urls, force, profile, lang } = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+
+  if (!Array.isArray(urls) || urls.length === 0 || !urls.every((url): url is string => typeof url === 'string')) {
+    return new Response(JSON.stringify({ error: 'Forventet en liste med URLer i feltet "urls"' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  if (urls.length > MAX_BATCH_URLS) {
+    return new Response(JSON.stringify({ error: `Maks ${String(MAX_BATCH_URLS)} URLer per forespørsel` }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  // Rate limiting, one unit per URL
+  if (analysisRateLimiter.isRateLimited(getClientKey(clientAddress), urls.length)) {
+    return new Response(JSON.stringify({ error: 'For mange forespørsler. Vent litt og prøv igjen.' }), {
+      status: 429,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const scoring = getScoringProfile(typeof profile === 'string' ? profile : null);
+  const locale = negotiateLocale(typeof lang === 'string' ? lang : null, request.headers.get('accept-language'));
+  const result = await runBatchAnalysis(urls, force === true, scoring.id);
+
+  return new Response(JSON.stringify(localizeBatch(result, locale)), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json', 'Content-Language': locale }
+  });
+};
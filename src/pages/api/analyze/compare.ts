@@ -0,0 +1,61 @@
+import type { APIRoute } from 'astro';
+import {
+  MAX_COMPARE_URLS,
+  MIN_COMPARE_URLS,
+  localizeComparison,
+  negotiateLocale,
+  normalizeUrl,
+  parseAnalysisOptions,
+  runComparison
+} from '../../../lib/analyzer';
+import { analysisRateLimiter, getClientKey } from '../../../lib/rate-limit';
+
+const toKey = (value: string): string => {
+  try {
+    return normalizeUrl(new URL(value));
+  } catch {
+    return value;
+  }
+};
+
+/**
+ * Compare the client's site with competitors
+ * GET /api/analyze/compare?url=<client>&url=<competitor>[&url=...][&force=1][&lang=en]
+ */
+export const GET: APIRoute = async ({ request, clientAddress }) => {
+  const params = new URL(request.url).searchParams;
+  const urls = params.getAll('url').map(url => url.trim()).filter(Boolean);
+
+  if (urls.length < MIN_COMPARE_URLS || urls.length > MAX_COMPARE_URLS) {
+    return new Response(JSON.stringify({
+      error: `Oppgi din nettside og 1-${String(MAX_COMPARE_URLS - 1)} konkurrenter`
+    }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  if (new Set(urls.map(toKey)).size !== urls.length) {
+    return new Response(JSON.stringify({ error: 'Hver nettside kan bare være med én gang' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  // Rate limiting, one unit per URL
+  if (analysisRateLimiter.isRateLimited(getClientKey(clientAddress), urls.length)) {
+    return new Response(JSON.stringify({ error: 'For mange forespørsler. Vent litt og prøv igjen.' }), {
+      status: 429,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const { force, profile } = parseAnalysisOptions(params);
+  const locale = negotiateLocale(params.get('lang'), request.headers.get('accept-language'));
+  const result = await runComparison(urls, force, profile);
+
+  return new Response(JSON.stringify(localizeComparison(result, locale)), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json', 'Content-Language': locale }
+  });
+};
@@ -0,0 +1,67 @@
+import type { APIRoute } from 'astro';
+import type { AnalysisStreamEvent } from '../../../types/api';
+import {
+  describeAnalysisError,
+  localizeProgress,
+  localizeResult,
+  negotiateLocale,
+  parseAnalysisOptions,
+  parseTargetUrl,
+  runAnalysis
+} from '../../../lib/analyzer';
+import { analysisRateLimiter, getClientKey } from '../../../lib/rate-limit';
+import { createEventStream } from '../../../lib/sse';
+
+/**
+ * Analyze a URL and stream progress as Server-Sent Events
+ * GET /api/analyze/stream?url=<url> with the same options as /api/analyze
+ * Events are named after their type (fetch, resources, category, page) and the
+ * stream ends with a result or an error event. Closing the connection cancels
+ * the analysis.
+ */
+export const GET: APIRoute = ({ request, clientAddress }) => {
+  const params = new URL(request.url).searchParams;
+  const options = parseAnalysisOptions(params);
+
+  // Rate limiting, one unit per page a crawl may analyze
+  if (analysisRateLimiter.isRateLimited(getClientKey(clientAddress), options.crawl ? options.maxPages : 1)) {
+    return new Response(JSON.stringify({ error: 'For mange forespørsler. Vent litt og prøv igjen.' }), {
+      status: 429,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const locale = negotiateLocale(params.get('lang'), request.headers.get('accept-language'));
+
+  let url: URL;
+  try {
+    url = parseTargetUrl(params.get('url'));
+  } catch (error: unknown) {
+    const failure = describeAnalysisError(error);
+    return new Response(JSON.stringify({ error: failure.message }), {
+      status: failure.status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  return createEventStream(async (send, signal) => {
+    const emit = (event: AnalysisStreamEvent): void => { send(event.type, event); };
+
+    try {
+      const result = await runAnalysis(url, options, {
+        signal,
+        onProgress: event => { emit(localizeProgress(event, locale)); }
+      });
+      emit({ type: 'result', result: localizeResult(result, locale) });
+    } catch (error: unknown) {
+      // Nobody is listening to a cancelled analysis
+      if (signal.aborted) return;
+
+      const failure = describeAnalysisError(error);
+      if (failure.status === 500) {
+        console.error('Analyze error:', error);
+      }
+      emit({ type: 'error', error: failure.message });
+    }
+  }, request.signal, { 'Content-Language': locale });
+};
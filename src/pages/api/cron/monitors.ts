@@ -0,0 +1,33 @@
+import type { APIRoute } from 'astro';
+import { hasBearerToken } from '../../../lib/auth';
+import { MonitorStorageError, runDueMonitors } from '../../../lib/monitoring';
+
+/**
+ * Run the monitors that are due
+ * Called by Vercel Cron (see vercel.json), which sends `Authorization: Bearer <CRON_SECRET>`
+ */
+export const GET: APIRoute = async ({ request }) => {
+  if (!hasBearerToken(request, process.env.CRON_SECRET)) {
+    return new Response(JSON.stringify({ error: 'Ikke autorisert' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  try {
+    const summary = await runDueMonitors(new URL(request.url).origin);
+
+    return new Response(JSON.stringify(summary), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: unknown) {
+    if (!(error instanceof MonitorStorageError)) throw error;
+
+    // Fails the cron invocation visibly instead of reporting an empty run
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 503,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
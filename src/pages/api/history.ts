@@ -0,0 +1,42 @@
+import type { APIRoute } from 'astro';
+import { describeAnalysisError, localizeHistory, negotiateLocale, parseTargetUrl } from '../../lib/analyzer';
+import { getHistory } from '../../lib/history';
+import { analysisRateLimiter, getClientKey } from '../../lib/rate-limit';
+
+/**
+ * Scan history of a domain
+ * GET /api/history?url=<any URL or bare domain on the site>[&lang=en]
+ */
+export const GET: APIRoute = async ({ request, clientAddress }) => {
+  // Rate limiting
+  if (analysisRateLimiter.isRateLimited(getClientKey(clientAddress))) {
+    return new Response(JSON.stringify({ error: 'For mange forespørsler. Vent litt og prøv igjen.' }), {
+      status: 429,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const params = new URL(request.url).searchParams;
+  const value = params.get('url')?.trim();
+  const locale = negotiateLocale(params.get('lang'), request.headers.get('accept-language'));
+
+  try {
+    const url = parseTargetUrl(value && !/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? `https://${value}` : value);
+    const history = await getHistory(url);
+
+    return new Response(JSON.stringify(localizeHistory(history, locale)), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json', 'Content-Language': locale }
+    });
+  } catch (error: unknown) {
+    const failure = describeAnalysisError(error);
+    if (failure.status === 500) {
+      console.error('History error:', error);
+    }
+
+    return new Response(JSON.stringify({ error: failure.status === 500 ? 'Kunne ikke hente historikk.' : failure.message }), {
+      status: failure.status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
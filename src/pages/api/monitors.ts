@@ -0,0 +1,73 @@
+import type { APIRoute } from 'astro';
+import { describeAnalysisError } from '../../lib/analyzer';
+import { hasBearerToken } from '../../lib/auth';
+import { MonitorInputError, MonitorStorageError, createMonitor, listMonitors } from '../../lib/monitoring';
+import type { MonitorInput } from '../../lib/monitoring';
+
+const unauthorized = (): Response =>
+  new Response(JSON.stringify({ error: 'Ikke autorisert' }), {
+    status: 401,
+    headers: { 'Content-Type': 'application/json' }
+  });
+
+/**
+ * List registered monitors
+ * Requires `Authorization: Bearer <MONITOR_API_TOKEN>`
+ */
+export const GET: APIRoute = async ({ request }) => {
+  if (!hasBearerToken(request, process.env.MONITOR_API_TOKEN)) return unauthorized();
+
+  return new Response(JSON.stringify({ monitors: await listMonitors() }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' }
+  });
+};
+
+/**
+ * Register a URL for scheduled monitoring
+ * Body: { "url": string, "schedule"?: "daily" | "weekly", "segment"?: string,
+ *         "thresholds"?: { "total"?: number, "category"?: number },
+ *         "webhookUrl"?: string, "email"?: string }
+ */
+export const POST: APIRoute = async ({ request }) => {
+  if (!hasBearerToken(request, process.env.MONITOR_API_TOKEN)) return unauthorized();
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return new Response(JSON.stringify({ error: 'Ugyldig JSON i forespørselen' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  if (typeof body !== 'object' || body === null) {
+    return new Response(JSON.stringify({ error: 'Forventet et JSON-objekt' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  try {
+    const monitor = await createMonitor(body as MonitorInput);
+    return new Response(JSON.stringify(monitor), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: unknown) {
+    const failure = error instanceof MonitorInputError
+      ? { status: 400, message: error.message }
+      : error instanceof MonitorStorageError
+        ? { status: 503, message: error.message }
+        : describeAnalysisError(error);
+    if (failure.status === 500) {
+      console.error('Monitor registration error:', error);
+    }
+
+    return new Response(JSON.stringify({ error: failure.message }), {
+      status: failure.status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+};
@@ -0,0 +1,25 @@
+import type { APIRoute } from 'astro';
+import { hasBearerToken } from '../../../lib/auth';
+import { deleteMonitor } from '../../../lib/monitoring';
+
+/**
+ * Stop monitoring a URL
+ * Requires `Authorization: Bearer <MONITOR_API_TOKEN>`
+ */
+export const DELETE: APIRoute = async ({ params, request }) => {
+  if (!hasBearerToken(request, process.env.MONITOR_API_TOKEN)) {
+    return new Response(JSON.stringify({ error: 'Ikke autorisert' }), {
+      status: 401,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  if (!params.id || !await deleteMonitor(params.id)) {
+    return new Response(JSON.stringify({ error: 'Overvåkningen finnes ikke' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  return new Response(null, { status: 204 });
+};
@@ -0,0 +1,25 @@
+import type { APIRoute } from 'astro';
+import { localizeResult, negotiateLocale } from '../../../lib/analyzer';
+import { getReport } from '../../../lib/reports';
+
+/**
+ * Stored report as JSON
+ * The language follows ?lang= or the Accept-Language header, like /api/analyze
+ */
+export const GET: APIRoute = async ({ params, request }) => {
+  const report = params.id ? await getReport(params.id) : null;
+
+  if (!report) {
+    return new Response(JSON.stringify({ error: 'Rapporten finnes ikke eller er utløpt' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const locale = negotiateLocale(new URL(request.url).searchParams.get('lang'), request.headers.get('accept-language'));
+
+  return new Response(JSON.stringify(localizeResult(report, locale)), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json', 'Content-Language': locale }
+  });
+};
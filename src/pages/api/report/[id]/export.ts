@@ -0,0 +1,53 @@
+import type { APIRoute } from 'astro';
+import { localizeResult, negotiateLocale } from '../../../../lib/analyzer';
+import { getExportFilename, renderReportHtml, renderReportPdf } from '../../../../lib/export';
+import { getReport } from '../../../../lib/reports';
+
+const EXPORT_FORMATS = ['html', 'pdf'] as const;
+
+type ExportFormat = typeof EXPORT_FORMATS[number];
+
+const isExportFormat = (value: string): value is ExportFormat =>
+  (EXPORT_FORMATS as readonly string[]).includes(value);
+
+/**
+ * Download a stored report as a standalone file
+ * GET /api/report/[id]/export?format=pdf (default) or ?format=html
+ * The language follows ?lang= or the Accept-Language header, like /api/analyze
+ */
+export const GET: APIRoute = async ({ params, request }) => {
+  const searchParams = new URL(request.url).searchParams;
+  const format = searchParams.get('format') ?? 'pdf';
+  if (!isExportFormat(format)) {
+    return new Response(JSON.stringify({ error: 'Ugyldig format. Bruk html eller pdf.' }), {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const stored = params.id ? await getReport(params.id) : null;
+  if (!stored) {
+    return new Response(JSON.stringify({ error: 'Rapporten finnes ikke eller er utløpt' }), {
+      status: 404,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  const locale = negotiateLocale(searchParams.get('lang'), request.headers.get('accept-language'));
+  const report = localizeResult(stored, locale);
+
+  // Copy into an ArrayBuffer-backed array, which is what the Response body type accepts
+  const body = format === 'pdf'
+    ? new Uint8Array(await renderReportPdf(report, locale))
+    : renderReportHtml(report, locale);
+
+  return new Response(body, {
+    status: 200,
+    headers: {
+      'Content-Type': format === 'pdf' ? 'application/pdf' : 'text/html; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${getExportFilename(report, format)}"`,
+      'Content-Language': locale,
+      'X-Robots-Tag': 'noindex'
+    }
+  });
+};
@@ -13,16 +13,115 @@ export type Severity = 'critical' | 'warning' | 'info';
  */
 export type StatusColor = 'green' | 'yellow' | 'orange' | 'red';
 
+/**
+ * Languages analyzer output and the scanner are available in
+ */
+export type Locale = 'nb' | 'en';
+
+/**
+ * Language used when none is requested
+ */
+export const DEFAULT_LOCALE: Locale = 'nb';
+
+/**
+ * The same text in every supported language
+ */
+export type LocalizedText = Record<Locale, string>;
+
+/**
+ * Values interpolated into a finding message, e.g. { length: 72 }
+ */
+export type MessageParams = Record<string, string | number>;
+
 /**
  * Individual analysis detail item
  */
 export interface AnalysisDetail {
+  /** Stable id of the check that produced the finding, e.g. 'seo.title-missing' */
+  ruleId: string;
   /** Severity of the issue (for problems) */
   severity?: Severity;
   /** Type of the detail (for successes) */
   type?: 'success';
   /** Human-readable message describing the finding */
   message: string;
+  /** Catalog code the message was rendered from, e.g. 'seo.title-too-long.passed' */
+  code?: string;
+  /** Values interpolated into the message */
+  params?: MessageParams;
+  /** Why the check matters */
+  explanation?: string;
+  /** Documentation on the topic and how to fix it */
+  docsUrl?: string;
+  /** WCAG 2.1 success criteria the check tests, e.g. ['1.1.1'] */
+  wcag?: string[];
+  /** Estimated minutes to fix the problem (problems only) */
+  fixMinutes?: number;
+  /** Points the problem cost the category score (problems only) */
+  impact?: number;
+  /** Pages the problem was found on (site-level crawl results only) */
+  pages?: string[];
+}
+
+/**
+ * A raw measurement collected while analyzing a page
+ * null when the value could not be determined, e.g. an unknown transfer size
+ */
+export type MetricValue = number | string | boolean | null;
+
+/**
+ * Raw measurements for one category, keyed by metric name, e.g. { htmlSize: 48213 }
+ */
+export type CategoryMetrics = Record<string, MetricValue>;
+
+/**
+ * Presence and value of a security response header
+ */
+export interface SecurityHeaderStatus {
+  /** Header name, e.g. 'Strict-Transport-Security' */
+  header: string;
+  /** Whether the response sent the header */
+  present: boolean;
+  /** Header value as sent, null when missing */
+  value: string | null;
+}
+
+/**
+ * Weakness in how a cookie is set, named after the check that reports it
+ */
+export type CookieIssue = 'insecure' | 'httponly-missing' | 'samesite-missing' | 'domain-broad' | 'lifetime-long';
+
+/**
+ * A cookie set by the analyzed page (the value is never included)
+ */
+export interface CookieInfo {
+  name: string;
+  secure: boolean;
+  httpOnly: boolean;
+  /** SameSite attribute in lower case, null when missing */
+  sameSite: 'strict' | 'lax' | 'none' | null;
+  /** Domain attribute, null for host-only cookies */
+  domain: string | null;
+  path: string | null;
+  /** Lifetime in days, null for session cookies */
+  lifetimeDays: number | null;
+  /** Weaknesses found, empty when the cookie is set safely */
+  issues: CookieIssue[];
+}
+
+/**
+ * An external origin the analyzed page loads resources from
+ */
+export interface ThirdPartyOrigin {
+  /** Origin, e.g. 'https://cdn.example.com' */
+  origin: string;
+  scripts: number;
+  stylesheets: number;
+  iframes: number;
+  /** Scripts and stylesheets loaded without an integrity attribute */
+  missingIntegrity: number;
+  /** Scripts and stylesheets with integrity but without a crossorigin attribute */
+  missingCrossOrigin: number;
 }
 
 /**
@@ -35,8 +134,53 @@ export interface CategoryResult {
   status: StatusColor;
   /** List of findings for this category */
   details: AnalysisDetail[];
-  /** Norwegian industry benchmark for comparison */
+  /** Average score in the benchmark segment, or the Norwegian estimate when data is scarce */
   benchmark: number;
+  /** Share of sampled sites in the segment with a lower score (0-100), null when the sample is too small */
+  percentile?: number | null;
+  /** Raw measurements behind the findings (the start page for crawl results) */
+  metrics?: CategoryMetrics;
+  /** Security response headers of the page (security category only) */
+  headers?: SecurityHeaderStatus[];
+  /** Cookies set by the page (security category only) */
+  cookies?: CookieInfo[];
+  /** External origins the page loads scripts, styles and iframes from (security category only) */
+  thirdParties?: ThirdPartyOrigin[];
+}
+
+/**
+ * Outcome for a success criterion: failed when any check for it failed,
+ * not-tested when no check applied to the page
+ */
+export type ConformanceStatus = 'passed' | 'failed' | 'not-tested';
+
+/**
+ * Result for one WCAG 2.1 success criterion
+ */
+export interface WcagCriterionResult {
+  /** Success criterion number, e.g. '1.1.1' */
+  criterion: string;
+  /** Matching EN 301 549 clause for web pages, e.g. '9.1.1.1' */
+  en301549: string;
+  level: 'A' | 'AA';
+  /** Name of the criterion */
+  name: string;
+  status: ConformanceStatus;
+  /** Checks that reported on the criterion */
+  ruleIds: string[];
+}
+
+/**
+ * Automated WCAG 2.1 results for the criteria the analyzer can test
+ * Passing every criterion here does not prove conformance; most criteria need manual testing
+ */
+export interface ConformanceSummary {
+  /** Standard the criteria come from */
+  standard: 'WCAG 2.1';
+  passed: number;
+  failed: number;
+  notTested: number;
+  criteria: WcagCriterionResult[];
 }
 
 /**
@@ -56,7 +200,7 @@ export interface AnalysisCategories {
 export type CategoryKey = keyof AnalysisCategories;
 
 /**
- * Industry benchmarks
+ * Industry benchmarks (average score per category)
  */
 export interface Benchmarks {
   performance: number;
@@ -80,8 +224,127 @@ export interface AnalysisResult {
   totalScore: number;
   /** Industry benchmark values */
   benchmarks: Benchmarks;
+  /** Segment the benchmarks were computed for */
+  segment?: SegmentBenchmark;
   /** Results per category */
   categories: AnalysisCategories;
+  /** WCAG 2.1 criteria tested by the findings */
+  conformance?: ConformanceSummary;
+  /** Whether the HTML exceeded the download limit and only the first part was analyzed */
+  truncated?: boolean;
+  /** Redirects followed before reaching the analyzed page, in order */
+  redirects?: RedirectHop[];
+  /** Per-page results when the site was crawled */
+  crawl?: CrawlSummary;
+  /** Whether the result came from the analysis cache */
+  cache?: CacheInfo;
+  /** Shareable report for this analysis */
+  report?: ReportInfo;
+  /** Weight profile used for the total score */
+  scoring?: ScoringInfo;
+  /** Language of messages and labels, Norwegian when absent */
+  lang?: Locale;
+}
+
+/**
+ * Industry segments benchmarks are grouped by
+ */
+export type SegmentId = 'general' | 'restaurant' | 'retail' | 'services' | 'health' | 'construction' | 'public';
+
+/**
+ * Where a result stands among the stored scans of its segment
+ */
+export interface SegmentBenchmark {
+  segment: SegmentId;
+  /** Display name, e.g. 'Restaurant og servering' */
+  label: string;
+  /** Who the sample consists of, e.g. 'norske restaurantnettsider' */
+  audience: string;
+  /** Number of other sites in the sample */
+  sampleSize: number;
+  /** Share of sampled sites with a lower total score (0-100), null when the sample is too small */
+  percentile: number | null;
+}
+
+/**
+ * Named weight profiles for the total score
+ */
+export type ScoringProfileId = 'standard' | 'e-commerce' | 'public-sector';
+
+/**
+ * Weight profile applied to an analysis
+ */
+export interface ScoringInfo {
+  /** Profile id, e.g. 'e-commerce' */
+  profile: ScoringProfileId;
+  /** Display name of the profile */
+  label: string;
+  /** Weight of each category in the total score (sums to 1) */
+  weights: Record<CategoryKey, number>;
+}
+
+/**
+ * Link to a stored, shareable report
+ */
+export interface ReportInfo {
+  /** Unguessable report id */
+  id: string;
+  /** Path of the report page, e.g. '/rapport/abc123' */
+  url: string;
+  /** ISO timestamp of when the report was stored */
+  createdAt: string;
+  /** ISO timestamp of when the report expires, null if it never does */
+  expiresAt: string | null;
+}
+
+/**
+ * Cache metadata for an analysis response
+ */
+export interface CacheInfo {
+  /** true when the result was served from cache */
+  hit: boolean;
+  /** ISO timestamp of when the result was cached, null if it was not stored */
+  cachedAt: string | null;
+  /** ISO timestamp of when the cached result expires, null if it was not stored */
+  expiresAt: string | null;
+}
+
+/**
+ * One redirect response in a redirect chain
+ */
+export interface RedirectHop {
+  /** URL that answered with the redirect */
+  url: string;
+  /** HTTP status code (301, 302, 303, 307 or 308) */
+  status: number;
+  /** Resolved target of the Location header */
+  location: string;
+  /** Time until the redirect response arrived, in milliseconds */
+  responseTime: number;
+}
+
+/**
+ * A page the crawler could not analyze
+ */
+export interface CrawlFailure {
+  /** Page URL */
+  url: string;
+  /** Reason the page was skipped */
+  error: string;
+}
+
+/**
+ * Per-page results from a multi-page crawl
+ */
+export interface CrawlSummary {
+  /** Page limit for the crawl, including the start page */
+  maxPages: number;
+  /** Number of pages found, including the start page */
+  discovered: number;
+  /** Results for each analyzed page, start page first */
+  pages: AnalysisResult[];
+  /** Pages that were found but could not be analyzed */
+  failed: CrawlFailure[];
 }
 
 /**
@@ -97,6 +360,219 @@ export interface AnalysisError {
  */
 export type AnalysisResponse = AnalysisResult | AnalysisError;
 
+/**
+ * The page has been downloaded
+ */
+export interface FetchProgress {
+  type: 'fetch';
+  /** URL the page was served from after redirects */
+  finalUrl: string;
+  /** HTTP status of the final response */
+  status: number;
+  /** Server response time in milliseconds */
+  responseTime: number;
+  /** Number of redirects followed */
+  redirects: number;
+}
+
+/**
+ * Scripts, stylesheets, images and iframes have been extracted from the page
+ */
+export interface ResourcesProgress {
+  type: 'resources';
+  scripts: number;
+  stylesheets: number;
+  images: number;
+  iframes: number;
+}
+
+/**
+ * A category of the start page has been evaluated
+ */
+export interface CategoryProgress {
+  type: 'category';
+  category: CategoryKey;
+  /** Result for the start page; crawl results are averaged over all pages at the end */
+  result: CategoryResult;
+}
+
+/**
+ * A subpage in crawl mode has been analyzed or skipped
+ */
+export interface PageProgress {
+  type: 'page';
+  url: string;
+  /** Pages finished so far, the start page not included */
+  done: number;
+  /** Subpages that will be analyzed */
+  total: number;
+  /** Total score of the page, null when it could not be analyzed */
+  score: number | null;
+}
+
+/**
+ * Progress of a streamed analysis, sent as the phases finish
+ */
+export type AnalysisProgress = FetchProgress | ResourcesProgress | CategoryProgress | PageProgress;
+
+/**
+ * Events from the streaming analyze endpoint
+ * The stream ends with either a 'result' or an 'error' event.
+ */
+export type AnalysisStreamEvent =
+  | AnalysisProgress
+  | { type: 'result'; result: AnalysisResult }
+  | { type: 'error'; error: string };
+
+/**
+ * One URL in a batch analysis
+ */
+export interface BatchEntry {
+  /** URL as submitted */
+  url: string;
+  /** Analysis result, or the error that stopped the analysis */
+  result: AnalysisResponse;
+}
+
+/**
+ * One row in the batch summary table
+ */
+export interface BatchSummaryRow {
+  /** URL as submitted */
+  url: string;
+  /** Weighted total score, null if the analysis failed */
+  totalScore: number | null;
+  /** Score per category, null if the analysis failed */
+  scores: Record<CategoryKey, number> | null;
+  /** Error message if the analysis failed */
+  error: string | null;
+}
+
+/**
+ * Overview of a batch analysis
+ */
+export interface BatchSummary {
+  /** Number of submitted URLs */
+  total: number;
+  /** Number of URLs analyzed successfully */
+  succeeded: number;
+  /** Number of URLs that could not be analyzed */
+  failed: number;
+  /** Average total score of the successful analyses, null if none succeeded */
+  averageScore: number | null;
+  /** One row per submitted URL, in submission order */
+  rows: BatchSummaryRow[];
+}
+
+/**
+ * Response from the batch analysis endpoint
+ */
+export interface BatchAnalysisResponse {
+  /** Per-URL results, in submission order */
+  results: BatchEntry[];
+  summary: BatchSummary;
+}
+
+/**
+ * A check one site passes and the other fails
+ */
+export interface ComparisonDifference {
+  /** Rule id of the check */
+  ruleId: string;
+  /** Category the check belongs to */
+  category: CategoryKey;
+  /** Pass message from the site that has it */
+  message: string;
+  /** Catalog code of the pass message */
+  code?: string;
+  /** Values interpolated into the pass message */
+  params?: MessageParams;
+  /** Severity of the problem on the site that lacks it */
+  severity: Severity;
+}
+
+/**
+ * Differences between the client's site and one competitor
+ */
+export interface CompetitorDifferences {
+  /** Competitor URL as submitted */
+  url: string;
+  /** Checks the competitor passes and the client's site fails */
+  theyHave: ComparisonDifference[];
+  /** Checks the client's site passes and the competitor fails */
+  youHave: ComparisonDifference[];
+}
+
+/**
+ * Response from the competitor comparison endpoint
+ */
+export interface ComparisonResponse {
+  /** Per-URL results; the first URL is the client's site, then the competitors */
+  results: BatchEntry[];
+  /** Scores side by side, in the same order as results */
+  rows: BatchSummaryRow[];
+  /** One entry per competitor that was analyzed, empty if the client's site failed */
+  differences: CompetitorDifferences[];
+}
+
+/**
+ * A problem recorded in the scan history
+ * History is public per domain, so only the code and numeric params are kept;
+ * text params such as URLs and hosts are left out.
+ */
+export interface HistoryFinding {
+  /** Rule id of the check that failed */
+  ruleId: string;
+  /** Category the check belongs to */
+  category: CategoryKey;
+  /** Severity of the problem */
+  severity: Severity;
+  /** Catalog code of the message */
+  code: string;
+  /** Numeric values interpolated into the message */
+  params?: MessageParams;
+  /** Message rendered from the code, with '…' for the values left out */
+  message: string;
+}
+
+/**
+ * One stored scan of a domain
+ */
+export interface HistoryEntry {
+  /** ISO timestamp of the analysis */
+  analyzedAt: string;
+  /** Total score with the standard weights, whatever profile the scan used */
+  totalScore: number;
+  /** Score per category */
+  scores: Record<CategoryKey, number>;
+  /** Problems found, successes are not stored */
+  findings: HistoryFinding[];
+}
+
+/**
+ * Findings that changed between two scans
+ */
+export interface FindingsDiff {
+  /** ISO timestamp of the earlier scan */
+  since: string;
+  /** Problems in the earlier scan that are gone */
+  resolved: HistoryFinding[];
+  /** Problems that were not in the earlier scan */
+  introduced: HistoryFinding[];
+}
+
+/**
+ * Scan history of a domain, from the history endpoint
+ */
+export interface ScanHistory {
+  /** Normalized domain, e.g. 'example.no' */
+  domain: string;
+  /** Stored scans, oldest first */
+  entries: HistoryEntry[];
+  /** Changes between the two most recent scans, null with fewer than two */
+  diff: FindingsDiff | null;
+}
+
 /**
  * Type guard to check if response is an error
  */
@@ -140,20 +616,69 @@ export function validateAnalysisResult(data: unknown): data is AnalysisResult {
   return true;
 }
 
+/**
+ * Validate a competitor comparison response
+ * Checks the parts the scanner renders: score rows and differences
+ */
+export function validateComparisonResponse(data: unknown): data is ComparisonResponse {
+  if (typeof data !== 'object' || data === null) return false;
+
+  const response = data as Record<string, unknown>;
+  if (!Array.isArray(response.rows) || !Array.isArray(response.differences)) return false;
+
+  return (response.rows as unknown[]).every(row =>
+    typeof row === 'object' && row !== null && typeof (row as Record<string, unknown>).url === 'string') &&
+    (response.differences as unknown[]).every(entry => {
+      if (typeof entry !== 'object' || entry === null) return false;
+      const differences = entry as Record<string, unknown>;
+      return typeof differences.url === 'string' &&
+        Array.isArray(differences.theyHave) &&
+        Array.isArray(differences.youHave);
+    });
+}
+
+/**
+ * Validate a scan history response
+ * Checks the fields the trend chart and diff read
+ */
+export function validateScanHistory(data: unknown): data is ScanHistory {
+  if (typeof data !== 'object' || data === null) return false;
+
+  const history = data as Record<string, unknown>;
+  if (typeof history.domain !== 'string' || !Array.isArray(history.entries)) return false;
+
+  return (history.entries as unknown[]).every(entry => {
+    if (typeof entry !== 'object' || entry === null) return false;
+    const scan = entry as Record<string, unknown>;
+    return typeof scan.analyzedAt === 'string' &&
+      typeof scan.totalScore === 'number' &&
+      typeof scan.scores === 'object' && scan.scores !== null &&
+      Array.isArray(scan.findings);
+  });
+}
+
 /**
  * Quick win item generated from analysis
  */
 export interface QuickWin {
+  /** Rule id of the finding */
+  ruleId: string;
   /** Category the issue belongs to */
   category: CategoryKey;
   /** Issue message */
   message: string;
   /** Issue severity */
   severity: Severity;
-  /** Estimated fix time */
+  /** Estimated fix time in minutes */
+  fixMinutes: number;
+  /** Estimated fix time for display, e.g. '5 min' */
   fixTime: string;
   /** Impact level */
   impact: 'Høy' | 'Medium' | 'Lav';
+  /** Points the issue costs the category score */
+  points: number;
+  /** Documentation on how to fix it */
+  docsUrl?: string;
 }
 
 /**
@@ -167,23 +692,80 @@ export function getScoreColorClass(score: number): StatusColor {
 }
 
 /**
- * Category labels in Norwegian
+ * Category labels per language
  */
-export const CATEGORY_LABELS: Record<CategoryKey, string> = {
-  performance: 'Hastighet',
-  seo: 'SEO',
-  security: 'Sikkerhet',
-  mobile: 'Mobilvennlig',
-  accessibility: 'Tilgjengelighet'
+export const LOCALIZED_CATEGORY_LABELS: Record<Locale, Record<CategoryKey, string>> = {
+  nb: {
+    performance: 'Hastighet',
+    seo: 'SEO',
+    security: 'Sikkerhet',
+    mobile: 'Mobilvennlig',
+    accessibility: 'Tilgjengelighet'
+  },
+  en: {
+    performance: 'Speed',
+    seo: 'SEO',
+    security: 'Security',
+    mobile: 'Mobile-friendly',
+    accessibility: 'Accessibility'
+  }
 } as const;
 
 /**
- * Category descriptions in Norwegian
+ * Category descriptions per language
  */
-export const CATEGORY_DESCRIPTIONS: Record<CategoryKey, string> = {
-  performance: 'Hvor raskt siden laster',
-  seo: 'Synlighet i Google-søk',
-  security: 'Beskyttelse mot angrep',
-  mobile: 'Fungerer på telefon/nettbrett',
-  accessibility: 'Brukervennlig for alle'
+export const LOCALIZED_CATEGORY_DESCRIPTIONS: Record<Locale, Record<CategoryKey, string>> = {
+  nb: {
+    performance: 'Hvor raskt siden laster',
+    seo: 'Synlighet i Google-søk',
+    security: 'Beskyttelse mot angrep',
+    mobile: 'Fungerer på telefon/nettbrett',
+    accessibility: 'Brukervennlig for alle'
+  },
+  en: {
+    performance: 'How fast the page loads',
+    seo: 'Visibility in Google search',
+    security: 'Protection against attacks',
+    mobile: 'Works on phones and tablets',
+    accessibility: 'Usable for everyone'
+  }
 } as const;
+
+/**
+ * Category labels in Norwegian
+ */
+export const CATEGORY_LABELS = LOCALIZED_CATEGORY_LABELS.nb;
+
+/**
+ * Category descriptions in Norwegian
+ */
+export const CATEGORY_DESCRIPTIONS = LOCALIZED_CATEGORY_DESCRIPTIONS.nb;
+
+/**
+ * What the benchmark values are, for headings like 'Sammenligning med ...'
+ */
+export function getBenchmarkSource(segment: SegmentBenchmark | undefined, locale: Locale = DEFAULT_LOCALE): string {
+  if (locale === 'en') {
+    return segment?.percentile == null ? 'the Norwegian average' : `the average for ${segment.audience}`;
+  }
+  if (segment?.percentile == null) return 'norsk gjennomsnitt';
+  return `snittet for ${segment.audience}`;
+}
+
+/**
+ * One line on where the total score stands in its segment, null without segment data
+ */
+export function getBenchmarkNote(segment: SegmentBenchmark | undefined, locale: Locale = DEFAULT_LOCALE): string | null {
+  if (!segment) return null;
+
+  const sampleSize = String(segment.sampleSize);
+  if (segment.percentile === null) {
+    return locale === 'en'
+      ? `Too few analyses of ${segment.audience} so far (${sampleSize}), so the comparison uses an estimated Norwegian average.`
+      : `For få analyser av ${segment.audience} ennå (${sampleSize}), så sammenligningen bruker estimert norsk gjennomsnitt.`;
+  }
+  const percentile = String(segment.percentile);
+  return locale === 'en'
+    ? `Better than ${percentile} % of ${sampleSize} analyzed ${segment.audience}.`
+    : `Bedre enn ${percentile} % av ${sampleSize} analyserte ${segment.audience}.`;
+}
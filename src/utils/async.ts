@@ -0,0 +1,37 @@
+/**
+ * Async helpers
+ */
+
+/**
+ * Map over items with at most `limit` promises in flight
+ * Results keep the order of the input
+ *
+ * @param items Items to process
+ * @param limit Maximum number of concurrent calls
+ * @param fn Async function to apply to each item
+ *
+ * @example
+ * ```typescript
+ * const pages = await mapWithConcurrency(urls, 3, url => fetchPage(url));
+ * ```
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  async function worker(): Promise<void> {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  const workers = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, () => worker());
+  await Promise.all(workers);
+
+  return results;
+}
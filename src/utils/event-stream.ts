@@ -0,0 +1,53 @@
+/**
+ * Server-Sent Events client helpers
+ * Reads a text/event-stream response body with fetch, so the request can be
+ * cancelled with an AbortController, unlike EventSource, which reconnects
+ */
+
+/**
+ * Read named JSON events from a streaming response until it ends
+ *
+ * @param response Response from fetch with a text/event-stream body
+ * @param onEvent Called for each event with its name and parsed data
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/analyze/stream?url=...', { signal });
+ * await readEventStream(response, (event, data) => console.log(event, data));
+ * ```
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: string, data: unknown) => void
+): Promise<void> {
+  if (!response.body) return;
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += value.replace(/\r\n?/g, '\n');
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      dispatchEvent(buffer.slice(0, boundary), onEvent);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
+
+// Parse one event block; comment lines and events without data are skipped
+function dispatchEvent(block: string, onEvent: (event: string, data: unknown) => void): void {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+  }
+
+  if (data.length > 0) onEvent(event, JSON.parse(data.join('\n')));
+}
@@ -0,0 +1,68 @@
+/**
+ * Quick wins from an analysis
+ * Shared by the scanner and the server-rendered report page
+ */
+
+import {
+  DEFAULT_LOCALE,
+  type AnalysisDetail,
+  type AnalysisResult,
+  type CategoryKey,
+  type CategoryResult,
+  type Locale,
+  type QuickWin,
+  type Severity
+} from '../types/api';
+
+// For findings from stored results that predate fixMinutes
+const DEFAULT_FIX_MINUTES = 15;
+
+const IMPACT_LABELS: Record<Severity, QuickWin['impact']> = {
+  critical: 'Høy',
+  warning: 'Medium',
+  info: 'Lav'
+};
+
+/**
+ * Format an estimated fix time, e.g. '5 min' or '2 t' ('2 h' in English)
+ */
+export function formatFixTime(minutes: number, locale: Locale = DEFAULT_LOCALE): string {
+  if (minutes < 60) return `${String(minutes)} min`;
+  return `${String(Math.round(minutes / 60))} ${locale === 'en' ? 'h' : 't'}`;
+}
+
+/**
+ * Generate quick wins from analysis data
+ * Critical and warning findings: critical first, then the ones that cost the
+ * most points, then the quickest to fix
+ *
+ * @param data Analysis result
+ */
+export function generateQuickWins(data: AnalysisResult): QuickWin[] {
+  const quickWins: QuickWin[] = [];
+
+  (Object.entries(data.categories) as [CategoryKey, CategoryResult][]).forEach(([cat, val]) => {
+    val.details.forEach((detail: AnalysisDetail) => {
+      if (detail.severity === 'critical' || detail.severity === 'warning') {
+        const fixMinutes = detail.fixMinutes ?? DEFAULT_FIX_MINUTES;
+        quickWins.push({
+          ruleId: detail.ruleId,
+          category: cat,
+          message: detail.message,
+          severity: detail.severity,
+          fixMinutes,
+          fixTime: formatFixTime(fixMinutes, data.lang),
+          impact: IMPACT_LABELS[detail.severity],
+          points: detail.impact ?? 0,
+          docsUrl: detail.docsUrl
+        });
+      }
+    });
+  });
+
+  return quickWins.sort((a, b) => {
+    if (a.severity === 'critical' && b.severity !== 'critical') return -1;
+    if (b.severity === 'critical' && a.severity !== 'critical') return 1;
+    return b.points - a.points || a.fixMinutes - b.fixMinutes;
+  });
+}